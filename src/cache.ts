@@ -0,0 +1,71 @@
+import { decode } from "@jridgewell/sourcemap-codec";
+import { createHash } from "crypto";
+import { SourceMap } from "magic-string";
+import { join } from "path";
+import { version } from "../package.json";
+import type { ConvertOptions, ConvertResult, LlmCache } from "./types";
+
+/** Cache directory used when the config doesn't set `cacheDir`, relative to the project */
+export const DEFAULT_CACHE_DIR = join("node_modules", ".cache", "vue-to-tsx");
+
+/** Content-addressed store of conversion results and LLM replacements */
+export interface ConversionCache {
+  /**
+   * Key of a conversion: a hash of the tool version, the source and the options that affect
+   * the output. Plugins are identified by name, so clear the cache after changing one.
+   */
+  key(source: string, options: ConvertOptions): string;
+  getResult(key: string): Promise<ConvertResult | null>;
+  setResult(key: string, result: ConvertResult): Promise<void>;
+  /** LLM replacements keyed by snippet, reason, provider and model */
+  llm: LlmCache;
+}
+
+/** Create a cache stored as JSON files under `dir` (created when first written to) */
+export function createCache(dir: string): ConversionCache {
+  const resultPath = (key: string) => join(dir, "results", `${key}.json`);
+  const llmPath = (...parts: (string | undefined)[]) =>
+    join(dir, "llm", `${hash(JSON.stringify(parts))}.json`);
+
+  return {
+    key: (source, options) => {
+      const { plugins, llmGenerate: _generate, llmCache: _llmCache, ...rest } = options;
+      const pluginNames = (plugins ?? []).map((plugin) => plugin.name);
+      return hash(JSON.stringify([version, rest, pluginNames, source]));
+    },
+    getResult: async (key) => {
+      const cached = await readJson(resultPath(key));
+      if (!cached) return null;
+      // Source maps are stored as plain v3 JSON
+      return cached.map
+        ? {
+            ...cached,
+            map: new SourceMap({ ...cached.map, mappings: decode(cached.map.mappings) }),
+          }
+        : cached;
+    },
+    setResult: async (key, result) => {
+      await Bun.write(resultPath(key), JSON.stringify(result));
+    },
+    llm: {
+      get: async (item, model) =>
+        (await readJson(llmPath(model, item.reason, item.source)))?.replacement,
+      set: async (item, model, replacement) => {
+        await Bun.write(llmPath(model, item.reason, item.source), JSON.stringify({ replacement }));
+      },
+    },
+  };
+}
+
+function hash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+async function readJson(path: string): Promise<any> {
+  try {
+    return await Bun.file(path).json();
+  } catch {
+    // Missing or corrupt entries are cache misses
+    return null;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Worker thread for `--concurrency`: converts the files the CLI sends it, one at a time.
+ * LLM prompts are passed back to the main thread, which rate-limits them across workers.
+ */
+import { loadConfig } from "./config";
+import { convertFile, failedResult, type FileJobOptions } from "./convert-file";
+import type { ConfigSettings } from "./types";
+
+declare const self: Worker;
+
+/** Messages from the main thread */
+export type WorkerRequest =
+  | {
+      type: "init";
+      configPath: string | null;
+      flags: ConfigSettings;
+      dryRun: boolean;
+      delete: boolean;
+      verify: boolean;
+    }
+  | { type: "convert"; index: number; file: string }
+  | { type: "llm-result"; id: number; text: string | null; error?: string };
+
+/** Messages to the main thread */
+export type WorkerResponse =
+  | { type: "result"; index: number; result: Awaited<ReturnType<typeof convertFile>> }
+  | { type: "llm"; id: number; prompt: string; model?: string };
+
+let ready: Promise<FileJobOptions> | null = null;
+let nextLlmId = 0;
+const llmRequests = new Map<
+  number,
+  { resolve: (text: string | null) => void; reject: (error: Error) => void }
+>();
+
+function post(message: WorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  if (message.type === "init") {
+    // Plugins are functions, so the worker loads the config file itself
+    ready = (async () => ({
+      flags: message.flags,
+      loadedConfig: message.configPath ? await loadConfig(message.configPath) : null,
+      dryRun: message.dryRun,
+      delete: message.delete,
+      verify: message.verify,
+      llmGenerate: (prompt, model) =>
+        new Promise((resolve, reject) => {
+          const id = nextLlmId++;
+          llmRequests.set(id, { resolve, reject });
+          post({ type: "llm", id, prompt, model });
+        }),
+    }))();
+    // A failure is reported per file, by each conversion awaiting it
+    ready.catch(() => {});
+  } else if (message.type === "convert") {
+    let result;
+    try {
+      result = await convertFile(message.file, await ready!);
+    } catch (err: any) {
+      // A setup failure (e.g. the config no longer loads) fails the file, not the worker
+      result = failedResult(message.file, err.message, null);
+    }
+    post({ type: "result", index: message.index, result });
+  } else {
+    const request = llmRequests.get(message.id);
+    llmRequests.delete(message.id);
+    if (message.error) request?.reject(new Error(message.error));
+    else request?.resolve(message.text);
+  }
+};
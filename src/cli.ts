@@ -1,17 +1,69 @@
 #!/usr/bin/env bun
+import type { ConfigSettings, EquivalenceFixture } from "./types";
 import { convert } from "./index";
-import { basename, join, resolve, dirname } from "path";
+import {
+  findConfigFile,
+  isIgnored,
+  loadConfig,
+  resolveFileSettings,
+  type LoadedConfig,
+} from "./config";
+import {
+  addStats,
+  convertFile,
+  emptyStats,
+  fileConvertOptions,
+  formatProgress,
+  printLogs,
+  projectRoot,
+  warningLogs,
+  type ConvertStats,
+  type FileJobOptions,
+  type FileJobResult,
+} from "./convert-file";
+import type { WorkerRequest, WorkerResponse } from "./cli-worker";
+import { IMPORTER_EXTENSIONS, rewriteImporters } from "./importers";
+import { generateWithProvider } from "./llm/index";
+import {
+  REPORT_FORMATS,
+  createReport,
+  formatReport,
+  warningIssue,
+  type ReportFormat,
+} from "./report";
+import { verify } from "./verify";
+import { checkEquivalence } from "./equivalence";
+import { basename, dirname, extname, join, relative, resolve, sep } from "path";
 import { watch as fsWatch } from "fs";
+import { unlink } from "fs/promises";
 import { Glob } from "bun";
 
 interface CliOptions {
+  /** `equivalence` checks converted components render like the originals instead of writing them */
+  command: "convert" | "equivalence";
   patterns: string[];
-  outDir: string | null;
-  llm: boolean;
-  llmModel: string | null;
+  /** Settings given on the command line; these take precedence over the config file */
+  flags: ConfigSettings;
+  config: string | null;
+  noConfig: boolean;
+  loadedConfig: LoadedConfig | null;
+  rewriteImports: boolean;
+  report: { format: ReportFormat; file: string } | null;
+  /** Number of worker threads converting files */
+  concurrency: number;
+  /** Maximum number of LLM requests in flight across all workers */
+  llmConcurrency: number;
   dryRun: boolean;
   delete: boolean;
+  /** Type-check the generated files */
+  verify: boolean;
   watch: boolean;
+  /** Convert the SFC read from stdin and write the result to stdout */
+  stdin: boolean;
+  /** Component name for the stdin SFC */
+  componentName: string | null;
+  /** With `stdin`, write a JSON bundle of the TSX, CSS and warnings instead of the TSX */
+  json: boolean;
   help: boolean;
 }
 
@@ -20,17 +72,65 @@ vue-to-tsx - Convert Vue SFCs to TSX + CSS
 
 Usage:
   vue-to-tsx [options] <glob...>
+  vue-to-tsx equivalence [options] <glob...>
+  vue-to-tsx --stdin [--component-name <name>] [--json] [options]
+
+Commands:
+  equivalence      Server-render each .vue file and its conversion (not written to disk) with
+                   the props and slots in <Name>.fixtures.json, or generated from defineProps,
+                   and report components whose HTML differs
 
 Arguments:
-  <glob...>   Glob patterns for .vue files (e.g. "src/**/*.vue")
+  <glob...>   Glob patterns for .vue files (e.g. "src/**/*.vue"); defaults to the
+              config file's "include" globs
 
 Options:
   --out-dir <dir>  Output directory (default: same directory as input)
   --llm            Enable LLM fallback for unconvertible patterns
   --llm-model <m>  LLM model to use (overrides env var and default)
+  --lower-v-model  Lower v-model on native inputs to value/checked + event handlers
+  --cache          Skip files unchanged since they were last converted, and reuse LLM
+                   replacements for snippets seen before
+  --cache-dir <dir>
+                   Cache directory (implies --cache; default: node_modules/.cache/vue-to-tsx)
+  --no-cache       Don't use the cache, even if the config file enables it
+  --source-map     Write a .tsx.map source map next to each generated .tsx file
+  --preserve-scoped
+                   Keep <style scoped> scoping via a generated data-v-* attribute
+  --vue2           Read Vue 2 syntax and emit Vue 2.7 TSX (@vue/babel-preset-jsx)
+  --nuxt           Nuxt mode: keep Nuxt's auto-imports implicit and import its components
+                   from #components
+  --explicit-auto-imports
+                   Import auto-imported identifiers (from --nuxt or the config's
+                   scanAutoImports) explicitly instead of leaving them implicit
+  --config <file>  Config file to use (default: nearest vue-to-tsx.config.{ts,js,json})
+  --no-config      Don't load a config file
+  --rewrite-imports
+                   Point imports of the converted .vue files elsewhere in the project
+                   (.ts, .tsx, .js and other .vue files) at the generated .tsx files
+  --report <format> <file>
+                   Write a json or sarif report of every warning, fallback and error with
+                   its location, plus per-file timings and output paths
+  --warnings-as-errors <codes>
+                   Report these comma-separated warning codes (e.g. VTT-SCOPED-STYLE) as
+                   errors; the output is still written but the exit code is 1
+  --suppress-warnings <codes>
+                   Don't report these comma-separated warning codes
+  --concurrency <n>
+                   Convert files in <n> worker threads (default: 1)
+  --llm-concurrency <n>
+                   Maximum LLM requests in flight across all workers (default: 2)
   --dry-run        Show what would be written without writing files
   --delete         Delete original .vue files after successful conversion
-  --watch, -w      Watch files for changes and re-convert on save
+  --verify         Type-check the generated .tsx files and report errors at their .vue lines
+  --watch, -w      Watch the input directories: re-convert changed and new .vue files and
+                   remove the outputs of deleted ones
+  --stdin          Read one SFC from stdin and write the TSX to stdout (warnings go to
+                   stderr); nothing is written to disk
+  --component-name <name>
+                   Component name for --stdin (default: Component)
+  --json           With --stdin, write {tsx, css, cssFilename, moduleCss, moduleCssFilename,
+                   warnings} as JSON instead
   --help           Show this help message
 
 Examples:
@@ -42,42 +142,131 @@ Examples:
 function parseArgs(argv: string[]): CliOptions {
   const args = argv.slice(2); // skip bun and script path
   const opts: CliOptions = {
+    command: "convert",
     patterns: [],
-    outDir: null,
-    llm: false,
-    llmModel: null,
+    flags: {},
+    config: null,
+    noConfig: false,
+    loadedConfig: null,
+    rewriteImports: false,
+    report: null,
+    concurrency: 1,
+    llmConcurrency: 2,
     dryRun: false,
     delete: false,
+    verify: false,
     watch: false,
+    stdin: false,
+    componentName: null,
+    json: false,
     help: false,
   };
 
+  if (args[0] === "equivalence") {
+    opts.command = "equivalence";
+    args.shift();
+  }
+
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === "--help" || arg === "-h") {
       opts.help = true;
     } else if (arg === "--llm") {
-      opts.llm = true;
+      opts.flags.llm = true;
     } else if (arg === "--llm-model") {
       i++;
       if (!args[i]) {
         console.error("Error: --llm-model requires a model argument");
         process.exit(1);
       }
-      opts.llmModel = args[i];
+      opts.flags.llmModel = args[i];
+    } else if (arg === "--lower-v-model") {
+      opts.flags.lowerVModel = true;
+    } else if (arg === "--cache" || arg === "--no-cache") {
+      opts.flags.cache = arg === "--cache";
+    } else if (arg === "--cache-dir") {
+      i++;
+      if (!args[i]) {
+        console.error("Error: --cache-dir requires a directory argument");
+        process.exit(1);
+      }
+      opts.flags.cache = true;
+      opts.flags.cacheDir = resolve(args[i]);
+    } else if (arg === "--source-map") {
+      opts.flags.sourceMap = true;
+    } else if (arg === "--preserve-scoped") {
+      opts.flags.preserveScopedStyles = true;
+    } else if (arg === "--vue2") {
+      opts.flags.vue2 = true;
+    } else if (arg === "--nuxt") {
+      opts.flags.nuxt = true;
+    } else if (arg === "--explicit-auto-imports") {
+      opts.flags.explicitAutoImports = true;
+    } else if (arg === "--warnings-as-errors" || arg === "--suppress-warnings") {
+      i++;
+      if (!args[i]) {
+        console.error(`Error: ${arg} requires a comma-separated list of warning codes`);
+        process.exit(1);
+      }
+      const codes = args[i]!.split(",").map((code) => code.trim());
+      if (arg === "--warnings-as-errors") opts.flags.warningsAsErrors = codes;
+      else opts.flags.suppressWarnings = codes;
+    } else if (arg === "--rewrite-imports") {
+      opts.rewriteImports = true;
+    } else if (arg === "--report") {
+      const format = args[++i] as ReportFormat;
+      const file = args[++i];
+      if (!REPORT_FORMATS.includes(format) || !file) {
+        console.error(
+          `Error: --report requires a format (${REPORT_FORMATS.join(", ")}) and a file`,
+        );
+        process.exit(1);
+      }
+      opts.report = { format, file };
+    } else if (arg === "--concurrency" || arg === "--llm-concurrency") {
+      i++;
+      const n = Number(args[i]);
+      if (!Number.isInteger(n) || n < 1) {
+        console.error(`Error: ${arg} requires a positive integer`);
+        process.exit(1);
+      }
+      if (arg === "--concurrency") opts.concurrency = n;
+      else opts.llmConcurrency = n;
     } else if (arg === "--dry-run") {
       opts.dryRun = true;
     } else if (arg === "--delete") {
       opts.delete = true;
+    } else if (arg === "--verify") {
+      opts.verify = true;
     } else if (arg === "--watch" || arg === "-w") {
       opts.watch = true;
+    } else if (arg === "--stdin") {
+      opts.stdin = true;
+    } else if (arg === "--component-name") {
+      i++;
+      if (!args[i]) {
+        console.error("Error: --component-name requires a name argument");
+        process.exit(1);
+      }
+      opts.componentName = args[i]!;
+    } else if (arg === "--json") {
+      opts.json = true;
+    } else if (arg === "--config") {
+      i++;
+      if (!args[i]) {
+        console.error("Error: --config requires a file argument");
+        process.exit(1);
+      }
+      opts.config = args[i];
+    } else if (arg === "--no-config") {
+      opts.noConfig = true;
     } else if (arg === "--out-dir") {
       i++;
       if (!args[i]) {
         console.error("Error: --out-dir requires a directory argument");
         process.exit(1);
       }
-      opts.outDir = args[i];
+      opts.flags.outDir = resolve(args[i]);
     } else if (arg.startsWith("-")) {
       console.error(`Error: Unknown option "${arg}"`);
       process.exit(1);
@@ -89,28 +278,19 @@ function parseArgs(argv: string[]): CliOptions {
   return opts;
 }
 
-function componentNameFromFile(filePath: string): string {
-  const name = basename(filePath, ".vue");
-  // PascalCase: foo-bar → FooBar
-  return name
-    .split(/[-_]/)
-    .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
-    .join("");
-}
-
-async function findFiles(patterns: string[]): Promise<string[]> {
+async function findFiles(patterns: string[], cwd: string): Promise<string[]> {
   const files: string[] = [];
   for (const pattern of patterns) {
     // If it looks like a direct file path (absolute or no glob chars), check if it exists
     if (!pattern.includes("*") && !pattern.includes("?") && !pattern.includes("{")) {
-      const resolved = resolve(pattern);
+      const resolved = resolve(cwd, pattern);
       if (resolved.endsWith(".vue") && (await Bun.file(resolved).exists())) {
         files.push(resolved);
       }
       continue;
     }
     const glob = new Glob(pattern);
-    for await (const path of glob.scan({ cwd: process.cwd(), absolute: true })) {
+    for await (const path of glob.scan({ cwd, absolute: true })) {
       if (path.endsWith(".vue")) {
         files.push(path);
       }
@@ -127,151 +307,471 @@ async function main() {
     process.exit(0);
   }
 
-  if (opts.patterns.length === 0) {
+  const configPath = opts.noConfig ? null : (opts.config ?? (await findConfigFile(process.cwd())));
+  if (configPath) {
+    try {
+      opts.loadedConfig = await loadConfig(configPath);
+    } catch (err: any) {
+      console.error(`Error loading config ${configPath}: ${err.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (opts.stdin) {
+    if (opts.patterns.length > 0) {
+      console.error("Error: --stdin can't be combined with file patterns");
+      process.exit(1);
+    }
+    await runStdin(opts);
+    return;
+  }
+
+  // Patterns on the command line replace the config's include globs
+  const include = opts.loadedConfig?.config.include;
+  const patterns = opts.patterns.length > 0 || !include ? opts.patterns : include;
+  if (patterns.length === 0) {
     console.error("Error: No input files specified. Use --help for usage.");
     process.exit(1);
   }
 
-  const files = await findFiles(opts.patterns);
+  const cwd = opts.patterns.length > 0 ? process.cwd() : opts.loadedConfig!.dir;
+  const files = (await findFiles(patterns, cwd)).filter(
+    (file) => !isIgnored(opts.loadedConfig, file),
+  );
 
   if (files.length === 0) {
     console.error("No .vue files found matching the given patterns.");
     process.exit(1);
   }
 
-  const stats = { converted: 0, deleted: 0, cssFiles: 0, warnings: 0, fallbacks: 0, errors: 0 };
+  if (opts.command === "equivalence") {
+    await runEquivalence(files, opts);
+    return;
+  }
 
-  for (const file of files) {
-    await convertSingleFile(file, opts, stats);
+  const results = await convertAll(files, opts);
+  if (opts.verify) await verifyResults(files, results);
+
+  const stats = emptyStats();
+  const outputs = new Map<string, string>();
+  for (const [i, result] of results.entries()) {
+    addStats(stats, result.stats);
+    if (result.tsxPath) outputs.set(files[i]!, result.tsxPath);
+  }
+
+  let rewrittenImports = 0;
+  if (opts.rewriteImports && outputs.size > 0) {
+    rewrittenImports = await rewriteProjectImports(outputs, opts);
+  }
+
+  const parts = summaryParts(stats);
+  if (opts.rewriteImports) {
+    const index = parts.indexOf(`${stats.deleted} deleted`) + 1;
+    parts.splice(
+      index,
+      0,
+      `${rewrittenImports} import${rewrittenImports !== 1 ? "s" : ""} rewritten`,
+    );
+  }
+  console.log(`\nDone: ${parts.join(", ")}.`);
+
+  if (opts.report) {
+    const report = createReport(
+      projectRoot(opts.loadedConfig),
+      results.map((r) => r.report),
+    );
+    await Bun.write(resolve(opts.report.file), formatReport(report, opts.report.format));
+    console.log(`Report written to ${opts.report.file}`);
   }
 
-  const parts = [
+  if (opts.watch) {
+    watchFiles(patterns, cwd, files, results, opts);
+  } else if (stats.errors > 0) {
+    process.exit(1);
+  }
+}
+
+/** The counts in the `Done:` line */
+function summaryParts(stats: ConvertStats): string[] {
+  return [
     `${stats.converted} converted`,
+    ...(stats.cached > 0 ? [`${stats.cached} cached`] : []),
     `${stats.cssFiles} css file${stats.cssFiles !== 1 ? "s" : ""}`,
     `${stats.deleted} deleted`,
     `${stats.warnings} warning${stats.warnings !== 1 ? "s" : ""}`,
     `${stats.fallbacks} fallback${stats.fallbacks !== 1 ? "s" : ""}`,
     `${stats.errors} error${stats.errors !== 1 ? "s" : ""}`,
   ];
-  console.log(`\nDone: ${parts.join(", ")}.`);
-
-  if (opts.watch) {
-    watchFiles(files, opts);
-  } else if (stats.errors > 0) {
-    process.exit(1);
-  }
 }
 
-interface ConvertStats {
-  converted: number;
-  deleted: number;
-  cssFiles: number;
-  warnings: number;
-  fallbacks: number;
-  errors: number;
+function jobOptions(opts: CliOptions): FileJobOptions {
+  return {
+    flags: opts.flags,
+    loadedConfig: opts.loadedConfig,
+    dryRun: opts.dryRun,
+    delete: opts.delete,
+    verify: opts.verify,
+  };
 }
 
-async function convertSingleFile(
-  file: string,
-  opts: CliOptions,
-  stats: ConvertStats,
-): Promise<boolean> {
-  const componentName = componentNameFromFile(file);
-  let source: string;
-  try {
-    source = await Bun.file(file).text();
-  } catch {
-    console.error(`Error reading ${file}: file not found`);
-    stats.errors++;
-    return false;
+/**
+ * Convert every file, in worker threads with `--concurrency`. Each file's output is printed
+ * once all files before it are done, so logs are in the same order whatever the concurrency.
+ * On a terminal, a progress line shows done/total with the warning, fallback and error counts.
+ */
+async function convertAll(files: string[], opts: CliOptions): Promise<FileJobResult[]> {
+  const results: (FileJobResult | undefined)[] = Array.from({ length: files.length });
+  const totals = emptyStats();
+  const showProgress = process.stderr.isTTY && files.length > 1;
+  let done = 0;
+  let printed = 0;
+
+  const onResult = (index: number, result: FileJobResult) => {
+    results[index] = result;
+    done++;
+    addStats(totals, result.stats);
+    if (showProgress) process.stderr.write("\r\x1b[K");
+    while (printed < files.length && results[printed]) {
+      printLogs(results[printed++]!.logs);
+    }
+    if (showProgress && done < files.length) {
+      process.stderr.write(formatProgress(done, files.length, totals));
+    }
+  };
+
+  if (opts.concurrency > 1 && files.length > 1) {
+    await runWorkers(files, opts, onResult);
+  } else {
+    for (const [i, file] of files.entries()) {
+      onResult(i, await convertFile(file, jobOptions(opts)));
+    }
   }
+  return results as FileJobResult[];
+}
 
-  try {
-    const result = await convert(source, {
-      componentName,
-      llm: opts.llm,
-      ...(opts.llmModel ? { llmModel: opts.llmModel } : {}),
-    });
+/**
+ * Convert files in `opts.concurrency` worker threads, handing each worker the next file as it
+ * finishes one. LLM prompts from the workers are sent from here, at most
+ * `opts.llmConcurrency` at a time.
+ */
+function runWorkers(
+  files: string[],
+  opts: CliOptions,
+  onResult: (index: number, result: FileJobResult) => void,
+): Promise<void> {
+  const limit = createLimiter(opts.llmConcurrency);
+  let next = 0;
+  let finished = 0;
+  let settled = false;
+  const workers: Worker[] = [];
+
+  return new Promise((resolvePromise, reject) => {
+    // A crashed worker ends the run: stop the others so they don't keep writing files
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      for (const worker of workers) worker.terminate();
+      reject(error);
+    };
+
+    for (let w = 0; w < Math.min(opts.concurrency, files.length); w++) {
+      // cli-worker.ts from source, cli-worker.js from the build
+      const workerFile = `./cli-worker${extname(import.meta.path)}`;
+      const worker = new Worker(new URL(workerFile, import.meta.url));
+      workers.push(worker);
+      const send = (message: WorkerRequest) => {
+        if (!settled) worker.postMessage(message);
+      };
+      const dispatch = () => {
+        if (next < files.length) {
+          const index = next++;
+          send({ type: "convert", index, file: files[index]! });
+        } else {
+          worker.terminate();
+        }
+      };
+
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        if (settled) return;
+        const message = event.data;
+        if (message.type === "llm") {
+          limit(() => generateWithProvider(message.prompt, message.model)).then(
+            (text) => send({ type: "llm-result", id: message.id, text }),
+            (err) => send({ type: "llm-result", id: message.id, text: null, error: err.message }),
+          );
+          return;
+        }
+        onResult(message.index, message.result);
+        if (++finished === files.length) {
+          settled = true;
+          resolvePromise();
+        }
+        dispatch();
+      };
+      worker.onerror = (event) => fail(new Error(event.message));
+
+      send({
+        type: "init",
+        configPath: opts.loadedConfig?.path ?? null,
+        flags: opts.flags,
+        dryRun: opts.dryRun,
+        delete: opts.delete,
+        verify: opts.verify,
+      });
+      dispatch();
+    }
+  });
+}
 
-    if (result.warnings.length > 0) {
-      stats.warnings += result.warnings.length;
-      for (const w of result.warnings) {
-        console.warn(`  warn: ${file}: ${w.message}`);
-      }
+/** Run at most `max` tasks at a time; the rest wait in order */
+function createLimiter(max: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < max) active++;
+    else await new Promise<void>((resolveSlot) => queue.push(resolveSlot));
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next task, if any
+      const waiting = queue.shift();
+      if (waiting) waiting();
+      else active--;
     }
-    stats.fallbacks += result.fallbacks.length;
+  };
+}
 
-    const outBase = opts.outDir
-      ? join(resolve(opts.outDir), basename(file, ".vue"))
-      : join(dirname(file), basename(file, ".vue"));
+/**
+ * Type-check the generated files together and print the errors, located in the .vue files.
+ * Each error is added to its file's stats and report entry.
+ */
+async function verifyResults(files: string[], results: FileJobResult[]): Promise<void> {
+  const checked = results.filter((r) => r.verifyInput);
+  if (checked.length === 0) return;
+  console.log(`\nVerifying ${checked.length} file${checked.length !== 1 ? "s" : ""}...`);
+
+  const verified = await verify(checked.map((r) => r.verifyInput!));
+  const byTsx = new Map(verified.map((v) => [v.fileName, v.warnings]));
+  for (const [i, result] of results.entries()) {
+    const warnings = result.tsxPath ? (byTsx.get(result.tsxPath) ?? []) : [];
+    for (const w of warnings) {
+      printLogs(warningLogs(files[i]!, w));
+      result.stats.errors++;
+      result.report.issues.push(warningIssue(w));
+    }
+  }
+}
 
-    const tsxPath = `${outBase}.tsx`;
-    const cssPath = result.cssFilename ? join(dirname(outBase), result.cssFilename) : null;
+/**
+ * Convert each file in memory and check the result renders the same HTML as the original.
+ * Fixtures are read from `<Name>.fixtures.json` next to the .vue file when there is one.
+ */
+async function runEquivalence(files: string[], opts: CliOptions): Promise<void> {
+  const counts = { equivalent: 0, divergent: 0, errors: 0 };
 
-    if (opts.dryRun) {
-      console.log(`[dry-run] ${file} → ${tsxPath}`);
-      if (cssPath) {
-        console.log(`[dry-run] ${file} → ${cssPath}`);
-      }
-      if (opts.delete) {
-        console.log(`[dry-run] would delete ${file}`);
-      }
-    } else {
-      await Bun.write(tsxPath, result.tsx);
-      if (cssPath && result.css) {
-        await Bun.write(cssPath, result.css);
-        stats.cssFiles++;
-      }
-      console.log(`${file} → ${tsxPath}`);
-      if (cssPath) {
-        console.log(`${file} → ${cssPath}`);
+  for (const file of files) {
+    const settings = { ...resolveFileSettings(opts.loadedConfig, file), ...opts.flags };
+    try {
+      if (settings.vue2) throw new Error("Vue 2 output can't be rendered with Vue 3");
+      // Rendered from next to the .vue file, so registry imports are made relative to it
+      const result = await convert(await Bun.file(file).text(), {
+        ...(await fileConvertOptions(settings, file, dirname(file), opts.loadedConfig)),
+        filename: basename(file),
+      });
+      const fixturesFile = Bun.file(file.replace(/\.vue$/, ".fixtures.json"));
+      const fixtures: EquivalenceFixture[] | undefined = (await fixturesFile.exists())
+        ? await fixturesFile.json()
+        : undefined;
+
+      const { equivalent, checks } = await checkEquivalence(file, result.tsx, fixtures);
+      if (equivalent) {
+        counts.equivalent++;
+        console.log(
+          `equivalent: ${file} (${checks.length} fixture${checks.length !== 1 ? "s" : ""})`,
+        );
+        continue;
       }
-      if (opts.delete) {
-        const { unlink } = await import("fs/promises");
-        await unlink(file);
-        stats.deleted++;
-        console.log(`  deleted ${file}`);
+      counts.divergent++;
+      for (const check of checks.filter((c) => !c.equivalent)) {
+        console.error(`differs: ${file} [fixture ${check.fixture}]`);
+        if (check.error) console.error(`    ${check.error}`);
+        for (const line of check.diff) console.error(`    ${line}`);
       }
+    } catch (err: any) {
+      counts.errors++;
+      console.error(`Error checking ${file}: ${err.message}`);
     }
+  }
+
+  console.log(
+    `\nDone: ${counts.equivalent} equivalent, ${counts.divergent} divergent, ` +
+      `${counts.errors} error${counts.errors !== 1 ? "s" : ""}.`,
+  );
+  if (counts.divergent > 0 || counts.errors > 0) process.exit(1);
+}
+
+/**
+ * Convert the SFC on stdin and write the TSX, or with `--json` a bundle of the TSX, CSS and
+ * warnings, to stdout. Warnings are printed to stderr. The config's settings apply, with
+ * overrides matched against `<Name>.vue` in the working directory.
+ */
+async function runStdin(opts: CliOptions): Promise<void> {
+  const componentName = opts.componentName ?? "Component";
+  const filename = `${componentName}.vue`;
+  const settings = {
+    ...resolveFileSettings(opts.loadedConfig, resolve(filename)),
+    ...opts.flags,
+  };
 
-    stats.converted++;
-    return true;
+  let result;
+  try {
+    result = await convert(await Bun.stdin.text(), {
+      ...(await fileConvertOptions(settings, resolve(filename), process.cwd(), opts.loadedConfig)),
+      componentName,
+      filename,
+    });
   } catch (err: any) {
-    stats.errors++;
-    console.error(`Error converting ${file}: ${err.message}`);
-    return false;
+    console.error(`Error converting stdin: ${err.message}`);
+    process.exit(1);
+  }
+
+  if (opts.json) {
+    const bundle = {
+      tsx: result.tsx,
+      css: result.css,
+      cssFilename: result.cssFilename,
+      moduleCss: result.moduleCss,
+      moduleCssFilename: result.moduleCssFilename,
+      warnings: result.warnings,
+    };
+    process.stdout.write(`${JSON.stringify(bundle)}\n`);
+  } else {
+    process.stdout.write(result.tsx);
+    for (const w of result.warnings) printLogs(warningLogs("<stdin>", w));
   }
+  // Warnings promoted to errors fail the run, but the output is still written
+  if (result.warnings.some((w) => w.severity === "error")) process.exit(1);
 }
 
-function watchFiles(files: string[], opts: CliOptions) {
-  console.log(`\n[watch] Watching ${files.length} file(s) for changes...`);
+/**
+ * Rewrite the imports of converted components in every script and .vue file under the
+ * project root (the config directory or the working directory). Returns the number of
+ * rewritten specifiers.
+ */
+async function rewriteProjectImports(
+  outputs: Map<string, string>,
+  opts: CliOptions,
+): Promise<number> {
+  const root = projectRoot(opts.loadedConfig);
+  const glob = new Glob(`**/*{${IMPORTER_EXTENSIONS.join(",")}}`);
+  let count = 0;
+
+  for await (const file of glob.scan({ cwd: root, absolute: true })) {
+    if (outputs.has(file) || file.split(/[\\/]/).includes("node_modules")) continue;
+    const source = await Bun.file(file).text();
+    const { code, rewrites } = rewriteImporters(source, file, outputs);
+    if (rewrites.length === 0) continue;
+
+    for (const r of rewrites) {
+      const prefix = opts.dryRun ? "[dry-run] would rewrite" : "rewrote";
+      console.log(`${prefix} ${file}:${r.line} '${r.from}' → '${r.to}'`);
+    }
+    if (!opts.dryRun) await Bun.write(file, code);
+    count += rewrites.length;
+  }
+  return count;
+}
 
-  const watchers: ReturnType<typeof fsWatch>[] = [];
+/** How long to wait after the last file event before converting, so one save converts once */
+const WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * Watch the directories the patterns search and keep the outputs up to date: changed and newly
+ * added .vue files are converted, and the generated files of deleted (or renamed) ones are
+ * removed. Events are debounced and handled in batches, each followed by a summary line.
+ */
+function watchFiles(
+  patterns: string[],
+  cwd: string,
+  files: string[],
+  results: FileJobResult[],
+  opts: CliOptions,
+) {
+  // Generated files of each .vue file being tracked; sources removed by --delete are not
+  const known = new Map(
+    files
+      .map((file, i) => [file, results[i]!] as const)
+      .filter(([, result]) => result.stats.deleted === 0)
+      .map(([file, result]) => [file, result.outputs]),
+  );
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = Promise.resolve();
+
+  const update = async () => {
+    const paths = new Set(changed);
+    changed.clear();
+    const current = (await findFiles(patterns, cwd)).filter(
+      (file) => !isIgnored(opts.loadedConfig, file),
+    );
+    const removed = [...known.keys()].filter((file) => !current.includes(file));
+    const toConvert = current.filter((file) => !known.has(file) || paths.has(file));
+    if (removed.length === 0 && toConvert.length === 0) return;
+
+    console.log("");
+    for (const file of removed) {
+      console.log(`[watch] Removed ${relative(cwd, file)}`);
+      await removeOutputs(known.get(file)!, opts.dryRun);
+      known.delete(file);
+    }
+    for (const file of toConvert) {
+      const action = known.has(file) ? "Reconverting" : "Converting new file";
+      console.log(`[watch] ${action} ${relative(cwd, file)}...`);
+    }
 
-  for (const file of files) {
+    const batch = await convertAll(toConvert, opts);
+    if (opts.verify) await verifyResults(toConvert, batch);
+    const stats = emptyStats();
+    for (const [i, result] of batch.entries()) {
+      const file = toConvert[i]!;
+      addStats(stats, result.stats);
+      // Failed conversions keep their previous outputs
+      if (!result.tsxPath) continue;
+      // A file that no longer has a <style> block, say, leaves its old .css file behind
+      const previous = known.get(file) ?? [];
+      const stale = previous.filter((output) => !result.outputs.includes(output));
+      await removeOutputs(stale, opts.dryRun);
+      if (result.stats.deleted > 0) known.delete(file);
+      else known.set(file, result.outputs);
+    }
+    const parts = summaryParts(stats);
+    parts.splice(1, 0, `${removed.length} removed`);
+    console.log(`[watch] ${parts.join(", ")}.`);
+  };
+
+  const roots = watchRoots(patterns, cwd);
+  const watchers: ReturnType<typeof fsWatch>[] = [];
+  for (const root of roots) {
     try {
-      const watcher = fsWatch(file, async (_eventType) => {
-        const name = basename(file);
-        console.log(`[watch] Reconverting ${name}...`);
-        const stats: ConvertStats = {
-          converted: 0,
-          deleted: 0,
-          cssFiles: 0,
-          warnings: 0,
-          fallbacks: 0,
-          errors: 0,
-        };
-        try {
-          await convertSingleFile(file, opts, stats);
-        } catch (err: any) {
-          console.error(`[watch] Error: ${err.message}`);
-        }
+      const watcher = fsWatch(root, { recursive: true }, (_eventType, filename) => {
+        const path = filename ? join(root, filename) : root;
+        // Generated files don't matter, but directories do (a renamed folder moves its files)
+        const ext = extname(path);
+        if (ext !== "" && ext !== ".vue") return;
+        changed.add(path);
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          running = running
+            .then(update)
+            .catch((err: any) => console.error(`[watch] Error: ${err.message}`));
+        }, WATCH_DEBOUNCE_MS);
       });
       watchers.push(watcher);
     } catch {
-      // File may have been deleted; skip it
+      // The directory may not exist yet; skip it
     }
   }
+  console.log(`\n[watch] Watching ${roots.join(", ")} for changes...`);
 
   process.on("SIGINT", () => {
     for (const w of watchers) w.close();
@@ -280,4 +780,29 @@ function watchFiles(files: string[], opts: CliOptions) {
   });
 }
 
+/** Delete generated files whose source is gone */
+async function removeOutputs(outputs: string[], dryRun: boolean): Promise<void> {
+  for (const output of outputs) {
+    if (!(await Bun.file(output).exists())) continue;
+    if (dryRun) {
+      console.log(`[dry-run] would delete ${output}`);
+    } else {
+      await unlink(output);
+      console.log(`  deleted ${output}`);
+    }
+  }
+}
+
+/** Directories to watch for the patterns: the part of each glob before its first wildcard */
+function watchRoots(patterns: string[], cwd: string): string[] {
+  const roots = patterns.map((pattern) => {
+    const segments = pattern.split(/[\\/]/);
+    const wildcard = segments.findIndex((segment) => /[*?{]/.test(segment));
+    return resolve(cwd, wildcard === -1 ? dirname(pattern) : segments.slice(0, wildcard).join("/"));
+  });
+  // Directories inside another root are already covered by its recursive watcher
+  const unique = [...new Set(roots)].sort();
+  return unique.filter((root) => !unique.some((other) => root.startsWith(`${other}${sep}`)));
+}
+
 main();
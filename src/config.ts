@@ -0,0 +1,171 @@
+import { Glob } from "bun";
+import { dirname, join, relative, resolve, sep } from "path";
+import type { ConfigSettings, RegistryImport, VueToTsxConfig } from "./types";
+
+/** Config file names the CLI looks for, in order of preference */
+export const CONFIG_FILES = [
+  "vue-to-tsx.config.ts",
+  "vue-to-tsx.config.js",
+  "vue-to-tsx.config.json",
+];
+
+/** Allowed values of the string-enum settings */
+const ALLOWED_VALUES: Record<string, string[]> = {
+  outLayout: ["flat", "mirror"],
+  naming: ["preserve", "pascal", "kebab"],
+};
+
+/** A config file loaded from disk */
+export interface LoadedConfig {
+  /** Absolute path of the config file */
+  path: string;
+  /** Directory relative paths and globs in the config are resolved against */
+  dir: string;
+  config: VueToTsxConfig;
+}
+
+/**
+ * Define a CLI config with type checking:
+ *
+ * ```ts
+ * // vue-to-tsx.config.ts
+ * export default defineConfig({ outDir: 'converted', overrides: [{ files: 'legacy/**', vue2: true }] })
+ * ```
+ */
+export function defineConfig(config: VueToTsxConfig): VueToTsxConfig {
+  return config;
+}
+
+/**
+ * Find the nearest config file, looking in `dir` and then each parent directory.
+ * Returns null if there is none.
+ */
+export async function findConfigFile(dir: string): Promise<string | null> {
+  let current = resolve(dir);
+  while (true) {
+    for (const name of CONFIG_FILES) {
+      const path = join(current, name);
+      if (await Bun.file(path).exists()) return path;
+    }
+    const parent = dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+}
+
+/**
+ * Load and validate a config file. `.ts` / `.js` files provide the config as their default
+ * export; `.json` files are the config itself.
+ */
+export async function loadConfig(path: string): Promise<LoadedConfig> {
+  const absolute = resolve(path);
+  let config: unknown;
+  if (absolute.endsWith(".json")) {
+    config = await Bun.file(absolute).json();
+  } else {
+    const mod = await import(absolute);
+    config = mod.default ?? mod;
+  }
+  validateConfig(config);
+  return { path: absolute, dir: dirname(absolute), config };
+}
+
+/**
+ * Resolve the settings for one file: the config's top-level settings with every matching
+ * override applied in order. `outDir`, `cacheDir`, the `scanComponents` and `scanAutoImports`
+ * files and relative registry imports are made absolute against the config's directory.
+ */
+export function resolveFileSettings(loaded: LoadedConfig | null, file: string): ConfigSettings {
+  if (!loaded) return {};
+  const { include: _include, ignore: _ignore, overrides, ...settings } = loaded.config;
+  const path = toGlobPath(loaded.dir, file);
+
+  for (const override of overrides ?? []) {
+    const { files, plugins, directives, components, ...rest } = override;
+    if (!matchesAny(path, files)) continue;
+    Object.assign(settings, rest);
+    if (plugins) settings.plugins = [...(settings.plugins ?? []), ...plugins];
+    if (directives) settings.directives = { ...settings.directives, ...directives };
+    if (components) settings.components = { ...settings.components, ...components };
+  }
+
+  if (settings.outDir) settings.outDir = resolve(loaded.dir, settings.outDir);
+  if (settings.cacheDir) settings.cacheDir = resolve(loaded.dir, settings.cacheDir);
+  if (settings.directives) settings.directives = resolveRegistry(loaded.dir, settings.directives);
+  if (settings.components) settings.components = resolveRegistry(loaded.dir, settings.components);
+  if (settings.scanComponents) {
+    settings.scanComponents = settings.scanComponents.map((f) => resolve(loaded.dir, f));
+  }
+  if (settings.scanAutoImports) {
+    settings.scanAutoImports = settings.scanAutoImports.map((f) => resolve(loaded.dir, f));
+  }
+  return settings;
+}
+
+/** Make the relative paths in a component or directive registry absolute */
+function resolveRegistry(
+  dir: string,
+  registry: Record<string, RegistryImport>,
+): Record<string, RegistryImport> {
+  const absolute = (from: string) => (from.startsWith(".") ? resolve(dir, from) : from);
+  return Object.fromEntries(
+    Object.entries(registry).map(([name, source]) => [
+      name,
+      typeof source === "string" ? absolute(source) : { ...source, from: absolute(source.from) },
+    ]),
+  );
+}
+
+/** Whether a file matches one of the config's `ignore` globs */
+export function isIgnored(loaded: LoadedConfig | null, file: string): boolean {
+  if (!loaded?.config.ignore) return false;
+  return matchesAny(toGlobPath(loaded.dir, file), loaded.config.ignore);
+}
+
+/** Path of a file relative to the config directory, with forward slashes for glob matching */
+function toGlobPath(dir: string, file: string): string {
+  return relative(dir, resolve(file)).split(sep).join("/");
+}
+
+function matchesAny(path: string, globs: string | string[]): boolean {
+  return (Array.isArray(globs) ? globs : [globs]).some((glob) => new Glob(glob).match(path));
+}
+
+/** Check the shape of a config so mistakes fail early with a clear message */
+function validateConfig(config: unknown): asserts config is VueToTsxConfig {
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new Error("config must be an object");
+  }
+  const c = config as Record<string, unknown>;
+  for (const key of [
+    "include",
+    "ignore",
+    "plugins",
+    "overrides",
+    "scanComponents",
+    "scanAutoImports",
+  ]) {
+    if (c[key] !== undefined && !Array.isArray(c[key])) {
+      throw new Error(`"${key}" must be an array`);
+    }
+  }
+  for (const [i, override] of ((c.overrides as unknown[]) ?? []).entries()) {
+    const files = (override as { files?: unknown } | null)?.files;
+    if (typeof files !== "string" && !Array.isArray(files)) {
+      throw new Error(`overrides[${i}] needs a "files" glob or array of globs`);
+    }
+    validateSettings(override as Record<string, unknown>, `overrides[${i}].`);
+  }
+  validateSettings(c, "");
+}
+
+function validateSettings(settings: Record<string, unknown>, prefix: string): void {
+  for (const [key, allowed] of Object.entries(ALLOWED_VALUES)) {
+    const value = settings[key];
+    if (value !== undefined && !allowed.includes(value as string)) {
+      throw new Error(
+        `"${prefix}${key}" must be one of ${allowed.map((v) => `"${v}"`).join(", ")}`,
+      );
+    }
+  }
+}
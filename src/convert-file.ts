@@ -0,0 +1,417 @@
+import { convert } from "./index";
+import type {
+  ConfigSettings,
+  ConvertOptions,
+  ConvertWarning,
+  LlmGenerate,
+  RegistryImport,
+  ReportFile,
+  VerifyInput,
+} from "./types";
+import { resolveFileSettings, type LoadedConfig } from "./config";
+import { DEFAULT_CACHE_DIR, createCache } from "./cache";
+import { CONVERT_ERROR_RULE, fallbackIssue, warningIssue } from "./report";
+import { scanAutoImports, scanComponentRegistry } from "./registry";
+import { findNuxtRoot, loadNuxtProject, type NuxtProject } from "./nuxt";
+import { basename, join, dirname, isAbsolute, relative, sep } from "path";
+
+/** How the CLI converts and writes each file */
+export interface FileJobOptions {
+  /** Settings given on the command line; these take precedence over the config file */
+  flags: ConfigSettings;
+  loadedConfig: LoadedConfig | null;
+  dryRun: boolean;
+  delete: boolean;
+  /** Return the generated code and its source map for type-checking */
+  verify?: boolean;
+  /** Send LLM prompts through this function (workers use it to share the main thread's limit) */
+  llmGenerate?: LlmGenerate;
+}
+
+export interface ConvertStats {
+  converted: number;
+  /** Converted files whose result came from the cache */
+  cached: number;
+  deleted: number;
+  cssFiles: number;
+  warnings: number;
+  fallbacks: number;
+  errors: number;
+}
+
+/** A line of CLI output, printed by the caller so parallel runs log in file order */
+export interface LogLine {
+  level: "log" | "warn" | "error";
+  text: string;
+}
+
+/** The outcome of converting one file */
+export interface FileJobResult {
+  /** Path of the generated .tsx file, or null on failure */
+  tsxPath: string | null;
+  /** Paths of every generated file (.tsx, .css, source map) */
+  outputs: string[];
+  stats: ConvertStats;
+  logs: LogLine[];
+  report: ReportFile;
+  /** The generated file to type-check, with `verify` */
+  verifyInput?: VerifyInput;
+}
+
+export function emptyStats(): ConvertStats {
+  return { converted: 0, cached: 0, deleted: 0, cssFiles: 0, warnings: 0, fallbacks: 0, errors: 0 };
+}
+
+/** Add the counts of `delta` to `total` */
+export function addStats(total: ConvertStats, delta: ConvertStats): void {
+  for (const key of Object.keys(total) as (keyof ConvertStats)[]) {
+    total[key] += delta[key];
+  }
+}
+
+/** One-line progress display: `[12/40] 3 warnings, 1 fallback, 0 errors` */
+export function formatProgress(done: number, total: number, stats: ConvertStats): string {
+  const plural = (n: number, word: string) => `${n} ${word}${n !== 1 ? "s" : ""}`;
+  return (
+    `[${done}/${total}] ${plural(stats.warnings, "warning")}, ` +
+    `${plural(stats.fallbacks, "fallback")}, ${plural(stats.errors, "error")}`
+  );
+}
+
+/** Log lines for a warning: `  warn: Foo.vue:3:5: [VTT-CODE] message`, then its fix */
+export function warningLogs(file: string, w: ConvertWarning): LogLine[] {
+  const label = w.severity === "warning" ? "warn" : w.severity;
+  const loc = w.line ? `:${w.line}${w.column ? `:${w.column}` : ""}` : "";
+  const logs: LogLine[] = [
+    { level: "warn", text: `  ${label}: ${file}${loc}: [${w.code}] ${w.message}` },
+  ];
+  if (w.fix) logs.push({ level: "warn", text: `    fix: ${w.fix}` });
+  return logs;
+}
+
+/** Print the output of a file conversion */
+export function printLogs(logs: LogLine[]): void {
+  for (const line of logs) console[line.level](line.text);
+}
+
+/**
+ * Result of a file that could not be converted, reported as a conversion error.
+ * Logs default to an error line with `message`.
+ */
+export function failedResult(
+  file: string,
+  message: string,
+  loadedConfig: LoadedConfig | null,
+  {
+    logs = [{ level: "error", text: `Error converting ${file}: ${message}` }],
+    stats = emptyStats(),
+    durationMs = 0,
+  }: { logs?: LogLine[]; stats?: ConvertStats; durationMs?: number } = {},
+): FileJobResult {
+  stats.errors++;
+  return {
+    tsxPath: null,
+    outputs: [],
+    stats,
+    logs,
+    report: {
+      file: reportPath(file, loadedConfig),
+      status: "error",
+      durationMs,
+      outputs: [],
+      issues: [{ ruleId: CONVERT_ERROR_RULE, severity: "error", message }],
+    },
+  };
+}
+
+/**
+ * Convert one file and write its outputs. Output is returned as log lines rather than
+ * printed, along with the stats and report entry for the file.
+ */
+export async function convertFile(file: string, options: FileJobOptions): Promise<FileJobResult> {
+  const start = performance.now();
+  const stats = emptyStats();
+  const logs: LogLine[] = [];
+  const log = (text: string) => logs.push({ level: "log", text });
+  const failed = (message: string): FileJobResult =>
+    failedResult(file, message, options.loadedConfig, {
+      logs,
+      stats,
+      durationMs: Math.round(performance.now() - start),
+    });
+
+  let source: string;
+  try {
+    source = await Bun.file(file).text();
+  } catch {
+    logs.push({ level: "error", text: `Error reading ${file}: file not found` });
+    return failed("file not found");
+  }
+
+  try {
+    const settings = { ...resolveFileSettings(options.loadedConfig, file), ...options.flags };
+    const outBase = join(
+      outputDir(file, settings, options.loadedConfig),
+      outputBaseName(file, settings.naming),
+    );
+
+    const tsxPath = `${outBase}.tsx`;
+    const mapPath = settings.sourceMap ? `${tsxPath}.map` : null;
+
+    const convertOptions: ConvertOptions = {
+      ...(await fileConvertOptions(settings, file, dirname(tsxPath), options.loadedConfig)),
+      // Type errors are located in the .vue file through the source map
+      sourceMap: (settings.sourceMap || options.verify) ?? false,
+      // Source map `sources` are relative to the map file
+      filename: relative(dirname(tsxPath), file),
+    };
+
+    const cache = settings.cache
+      ? createCache(settings.cacheDir ?? join(projectRoot(options.loadedConfig), DEFAULT_CACHE_DIR))
+      : null;
+    const cacheKey = cache?.key(source, convertOptions);
+    const cached = cacheKey ? await cache!.getResult(cacheKey) : null;
+    const result =
+      cached ??
+      (await convert(source, {
+        ...convertOptions,
+        ...(options.llmGenerate ? { llmGenerate: options.llmGenerate } : {}),
+        ...(cache ? { llmCache: cache.llm } : {}),
+      }));
+    // Unresolved LLM fallbacks are retried next time; the resolved ones are in the LLM cache
+    if (cacheKey && !cached && !(settings.llm && result.tsx.includes("TODO: vue-to-tsx"))) {
+      await cache!.setResult(cacheKey, result);
+    }
+    if (cached) stats.cached++;
+    const note = cached ? " (cached)" : "";
+
+    for (const w of result.warnings) {
+      // Warnings promoted to errors fail the run, but the output is still written
+      if (w.severity === "error") stats.errors++;
+      else stats.warnings++;
+      logs.push(...warningLogs(file, w));
+    }
+    stats.fallbacks += result.fallbacks.length;
+
+    const cssPath = result.cssFilename ? join(dirname(outBase), result.cssFilename) : null;
+    const moduleCssPath = result.moduleCssFilename
+      ? join(dirname(outBase), result.moduleCssFilename)
+      : null;
+
+    if (options.dryRun) {
+      log(`[dry-run] ${file} → ${tsxPath}${note}`);
+      if (cssPath) {
+        log(`[dry-run] ${file} → ${cssPath}`);
+      }
+      if (moduleCssPath) {
+        log(`[dry-run] ${file} → ${moduleCssPath}`);
+      }
+      if (mapPath) {
+        log(`[dry-run] ${file} → ${mapPath}`);
+      }
+      if (options.delete) {
+        log(`[dry-run] would delete ${file}`);
+      }
+    } else {
+      if (mapPath && result.map) {
+        await Bun.write(tsxPath, `${result.tsx}\n//# sourceMappingURL=${basename(mapPath)}\n`);
+        await Bun.write(mapPath, result.map.toString());
+      } else {
+        await Bun.write(tsxPath, result.tsx);
+      }
+      if (cssPath && result.css) {
+        await Bun.write(cssPath, result.css);
+        stats.cssFiles++;
+      }
+      if (moduleCssPath && result.moduleCss) {
+        await Bun.write(moduleCssPath, result.moduleCss);
+        stats.cssFiles++;
+      }
+      log(`${file} → ${tsxPath}${note}`);
+      if (cssPath) {
+        log(`${file} → ${cssPath}`);
+      }
+      if (moduleCssPath) {
+        log(`${file} → ${moduleCssPath}`);
+      }
+      if (mapPath) {
+        log(`${file} → ${mapPath}`);
+      }
+      if (options.delete) {
+        const { unlink } = await import("fs/promises");
+        await unlink(file);
+        stats.deleted++;
+        log(`  deleted ${file}`);
+      }
+    }
+
+    stats.converted++;
+    const outputs = [tsxPath, cssPath, moduleCssPath, mapPath].filter((path) => path != null);
+    return {
+      tsxPath,
+      outputs,
+      stats,
+      logs,
+      report: {
+        file: reportPath(file, options.loadedConfig),
+        status: "converted",
+        durationMs: Math.round(performance.now() - start),
+        outputs: outputs.map((path) => reportPath(path, options.loadedConfig)),
+        issues: [
+          ...result.warnings.map(warningIssue),
+          ...result.fallbacks.map((f) => fallbackIssue(f, settings.llm ?? false)),
+        ],
+      },
+      ...(options.verify
+        ? {
+            verifyInput: {
+              fileName: tsxPath,
+              tsx: result.tsx,
+              ...(result.map ? { map: { mappings: result.map.mappings } } : {}),
+            },
+          }
+        : {}),
+    };
+  } catch (err: any) {
+    logs.push({ level: "error", text: `Error converting ${file}: ${err.message}` });
+    return failed(err.message);
+  }
+}
+
+/** Scanned registries by file, shared by every conversion in the process */
+const scannedRegistries = new Map<string, Promise<Record<string, RegistryImport>>>();
+const scannedAutoImports = new Map<string, Promise<Record<string, RegistryImport>>>();
+/** Nuxt apps by root directory */
+const nuxtProjects = new Map<string, Promise<NuxtProject>>();
+
+function scanOnce<T>(
+  scans: Map<string, Promise<T>>,
+  key: string,
+  scan: (key: string) => Promise<T>,
+) {
+  if (!scans.has(key)) scans.set(key, scan(key));
+  return scans.get(key)!;
+}
+
+/**
+ * The `convert()` options for `file` with its resolved settings, written to `outDir`. The CLI's
+ * conversions, stdin mode and equivalence checks all use these, so they generate the same code.
+ */
+export async function fileConvertOptions(
+  settings: ConfigSettings,
+  file: string,
+  outDir: string,
+  loadedConfig: LoadedConfig | null,
+): Promise<ConvertOptions> {
+  return {
+    componentName: componentNameFromFile(file),
+    llm: settings.llm ?? false,
+    ...(settings.llmModel ? { llmModel: settings.llmModel } : {}),
+    lowerVModel: settings.lowerVModel ?? false,
+    preserveScopedStyles: settings.preserveScopedStyles ?? false,
+    vue2: settings.vue2 ?? false,
+    nuxt: settings.nuxt ?? false,
+    ...(settings.i18nSource ? { i18nSource: settings.i18nSource } : {}),
+    ...(settings.routerSource ? { routerSource: settings.routerSource } : {}),
+    explicitAutoImports: settings.explicitAutoImports ?? false,
+    warningsAsErrors: settings.warningsAsErrors ?? [],
+    suppressWarnings: settings.suppressWarnings ?? [],
+    plugins: settings.plugins ?? [],
+    ...(await resolveRegistries(settings, file, outDir, loadedConfig)),
+  };
+}
+
+/**
+ * The `components`, `directives` and `autoImports` options for `file` written to `outDir`.
+ * Components and auto-imports come from its Nuxt app in Nuxt mode, then the `scanComponents`
+ * and `scanAutoImports` files, then the explicit `components`, later ones winning. Absolute
+ * paths are made relative to `outDir`.
+ */
+export async function resolveRegistries(
+  settings: ConfigSettings,
+  file: string,
+  outDir: string,
+  loadedConfig: LoadedConfig | null,
+): Promise<Pick<ConvertOptions, "components" | "directives" | "autoImports">> {
+  const components: Record<string, RegistryImport> = {};
+  const autoImports: Record<string, RegistryImport> = {};
+  if (settings.nuxt) {
+    const root = findNuxtRoot(file) ?? projectRoot(loadedConfig);
+    const nuxt = await scanOnce(nuxtProjects, root, loadNuxtProject);
+    Object.assign(components, nuxt.components);
+    Object.assign(autoImports, nuxt.autoImports);
+  }
+  for (const file of settings.scanComponents ?? []) {
+    Object.assign(components, await scanOnce(scannedRegistries, file, scanComponentRegistry));
+  }
+  for (const file of settings.scanAutoImports ?? []) {
+    Object.assign(autoImports, await scanOnce(scannedAutoImports, file, scanAutoImports));
+  }
+  Object.assign(components, settings.components);
+
+  const relativeTo = (registry: Record<string, RegistryImport>) => {
+    const specifier = (from: string) => {
+      if (!isAbsolute(from)) return from;
+      const path = relative(outDir, from).split(sep).join("/");
+      return path.startsWith(".") ? path : `./${path}`;
+    };
+    return Object.fromEntries(
+      Object.entries(registry).map(([name, source]) => [
+        name,
+        typeof source === "string"
+          ? specifier(source)
+          : { ...source, from: specifier(source.from) },
+      ]),
+    );
+  };
+  return {
+    ...(Object.keys(components).length > 0 ? { components: relativeTo(components) } : {}),
+    ...(settings.directives ? { directives: relativeTo(settings.directives) } : {}),
+    ...(Object.keys(autoImports).length > 0 ? { autoImports: relativeTo(autoImports) } : {}),
+  };
+}
+
+/** The config directory, or the working directory without a config file */
+export function projectRoot(loadedConfig: LoadedConfig | null): string {
+  return loadedConfig?.dir ?? process.cwd();
+}
+
+function reportPath(file: string, loadedConfig: LoadedConfig | null): string {
+  return relative(projectRoot(loadedConfig), file).split(sep).join("/");
+}
+
+export function componentNameFromFile(filePath: string): string {
+  const name = basename(filePath, ".vue");
+  // PascalCase: foo-bar → FooBar
+  return name
+    .split(/[-_]/)
+    .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
+    .join("");
+}
+
+/** Base name of the generated files for a .vue file, following the `naming` setting */
+function outputBaseName(filePath: string, naming: ConfigSettings["naming"]): string {
+  if (naming === "pascal") return componentNameFromFile(filePath);
+  const name = basename(filePath, ".vue");
+  if (naming === "kebab") {
+    return name
+      .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+      .replace(/_/g, "-")
+      .toLowerCase();
+  }
+  return name;
+}
+
+/**
+ * Directory the generated files for a .vue file go to. With an `outDir` and the "mirror"
+ * layout, the file's directory relative to the config (or working) directory is kept.
+ */
+function outputDir(
+  file: string,
+  settings: ConfigSettings,
+  loadedConfig: LoadedConfig | null,
+): string {
+  if (!settings.outDir) return dirname(file);
+  if (settings.outLayout !== "mirror") return settings.outDir;
+  return join(settings.outDir, relative(projectRoot(loadedConfig), dirname(file)));
+}
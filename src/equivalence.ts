@@ -0,0 +1,285 @@
+import { babelParse, compileScript, compileTemplate, MagicString, parse } from "@vue/compiler-sfc";
+import { unlink } from "fs/promises";
+import { basename, dirname, join } from "path";
+import type { EquivalenceCheck, EquivalenceFixture, EquivalenceResult } from "./types";
+import { extractMacros, parsePropTypes } from "./script/macros";
+
+/** CSS modules map every class to its own name, on both sides */
+function cssModule(): Record<string, string> {
+  return new Proxy(
+    {},
+    { get: (_, key) => (typeof key === "string" && !key.startsWith("__v") ? key : undefined) },
+  );
+}
+
+/** {@link cssModule} as an expression for compiled modules */
+const CSS_MODULE = `(${cssModule.toString()})()`;
+
+/** Strips the types left in the output of the JSX transform */
+const transpiler = new Bun.Transpiler({ loader: "ts" });
+
+let loaderRegistered = false;
+let generatedId = 0;
+
+/**
+ * Check that a generated .tsx component renders the same HTML as the .vue file it came from.
+ * The .vue file is compiled with `@vue/compiler-sfc` and the .tsx with `@vue/babel-plugin-jsx`
+ * (which needs `@babel/core`), then both are server-rendered with each fixture and the
+ * normalised HTML is compared. Without fixtures, props and slots are generated from the
+ * component's type-based `defineProps`.
+ *
+ * `vue` and components imported by either file are loaded from the .vue file's project;
+ * imports of .vue files that haven't been converted yet use the original .vue file.
+ */
+export async function checkEquivalence(
+  file: string,
+  tsx: string,
+  fixtures?: EquivalenceFixture[],
+): Promise<EquivalenceResult> {
+  registerSfcLoader();
+  const dir = dirname(file);
+  const vue = await import(Bun.resolveSync("vue", dir));
+  const { renderToString } = await import(Bun.resolveSync("vue/server-renderer", dir));
+
+  const original = (await import(file)).default;
+  // Written next to the .vue file so relative imports resolve the same way
+  const generatedPath = join(dir, `.${basename(file, ".vue")}.equivalence-${generatedId++}.mjs`);
+  let generated: unknown;
+  try {
+    await Bun.write(generatedPath, await prepareGenerated(tsx, dir));
+    generated = (await import(generatedPath)).default;
+  } finally {
+    await unlink(generatedPath).catch(() => {});
+  }
+
+  const render = async (component: unknown, fixture: EquivalenceFixture): Promise<string> => {
+    const slots = Object.fromEntries(
+      Object.entries(fixture.slots ?? {}).map(([name, text]) => [name, () => text]),
+    );
+    const app = vue.createSSRApp({ render: () => vue.h(component, fixture.props ?? {}, slots) });
+    app.config.globalProperties.$style = cssModule();
+    // Dev warnings (missing props, unknown slots...) are the same on both sides
+    app.config.warnHandler = () => {};
+    return renderToString(app);
+  };
+
+  const checks: EquivalenceCheck[] = [];
+  for (const [i, fixture] of (fixtures ?? defaultFixtures(await Bun.file(file).text())).entries()) {
+    const name = fixture.name ?? `#${i + 1}`;
+    const [before, after] = await Promise.allSettled([
+      render(original, fixture),
+      render(generated, fixture),
+    ]);
+    if (before.status === "rejected" || after.status === "rejected") {
+      const error =
+        before.status === "rejected"
+          ? `original: ${before.reason?.message ?? before.reason}`
+          : `generated: ${(after as PromiseRejectedResult).reason?.message}`;
+      checks.push({ fixture: name, equivalent: false, diff: [], error });
+      continue;
+    }
+    const diff = diffLines(normalizeHtml(before.value), normalizeHtml(after.value));
+    checks.push({ fixture: name, equivalent: diff.length === 0, diff });
+  }
+
+  return { file, equivalent: checks.every((c) => c.equivalent), checks };
+}
+
+/**
+ * Fixtures for a component without any: one with sample values for the props declared with
+ * type-based `defineProps` (strings get the prop name, numbers 1, booleans true, arrays [])
+ * and text for each `<slot>` in the template.
+ */
+export function defaultFixtures(source: string): EquivalenceFixture[] {
+  const { descriptor } = parse(source);
+  const props: Record<string, unknown> = {};
+  const type = descriptor.scriptSetup
+    ? extractMacros(descriptor.scriptSetup.content).props?.type
+    : undefined;
+  for (const prop of type ? parsePropTypes(type) : []) {
+    const value = sampleValue(prop.name, prop.type);
+    if (value !== undefined) props[prop.name] = value;
+  }
+
+  const slots: Record<string, string> = {};
+  for (const match of descriptor.template?.content.matchAll(/<slot\b([^>]*)>/g) ?? []) {
+    const name = /\bname="([^"]+)"/.exec(match[1]!)?.[1] ?? "default";
+    slots[name] = `${name} slot`;
+  }
+
+  return [{ name: "generated", props, slots }];
+}
+
+/**
+ * Normalise server-rendered HTML for comparison, one tag or text node per line. Comments
+ * (including Vue's fragment and v-if anchors) and `data-v-*` scope attributes are removed,
+ * attributes are sorted, classes are sorted and whitespace is collapsed.
+ */
+export function normalizeHtml(html: string): string[] {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .split(/(<[^>]+>)/)
+    .map((part) => (part.startsWith("<") ? normalizeTag(part) : part.replace(/\s+/g, " ").trim()))
+    .filter((part) => part !== "");
+}
+
+function normalizeTag(tag: string): string {
+  const match = /^<([^\s/>]+)([\s\S]*?)\/?>$/.exec(tag);
+  if (!match) return tag;
+  const attributes = [...match[2]!.matchAll(/([^\s=]+)(?:="([^"]*)")?/g)]
+    .filter(([, name]) => !name!.startsWith("data-v-"))
+    .map(([, name, value]) => {
+      if (value === undefined) return name!;
+      if (name === "class") value = [...new Set(value.split(/\s+/))].sort().join(" ").trim();
+      if (name === "style") value = value.replace(/\s*;\s*$/, "").replace(/\s*([:;])\s*/g, "$1");
+      return value === "" && (name === "class" || name === "style") ? null : `${name}="${value}"`;
+    })
+    .filter((attribute) => attribute != null)
+    .sort();
+  return `<${[match[1], ...attributes].join(" ")}>`;
+}
+
+/** Lines only in `before` (prefixed `- `) and only in `after` (`+ `), in order */
+function diffLines(before: string[], after: string[]): string[] {
+  // Longest common subsequence lengths of every pair of suffixes
+  const lcs = Array.from({ length: before.length + 1 }, () =>
+    Array.from({ length: after.length + 1 }, () => 0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        before[i] === after[j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const diff: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      diff.push(`- ${before[i++]}`);
+    } else {
+      diff.push(`+ ${after[j++]}`);
+    }
+  }
+  return diff;
+}
+
+function sampleValue(name: string, type: string): unknown {
+  const literal = /^\s*(['"])(.*?)\1/.exec(type);
+  if (literal) return literal[2];
+  if (/^\s*string\b/.test(type)) return name;
+  if (/^\s*number\b/.test(type)) return 1;
+  if (/^\s*boolean\b/.test(type)) return true;
+  if (/\[\]\s*$|^\s*Array</.test(type)) return [];
+  return undefined;
+}
+
+/**
+ * Make the generated code loadable: CSS imports are replaced (CSS modules by {@link CSS_MODULE}),
+ * imports of components that only exist as .vue files point at the .vue file, and the JSX is
+ * compiled the way `@vitejs/plugin-vue-jsx` does.
+ */
+async function prepareGenerated(tsx: string, dir: string): Promise<string> {
+  const s = new MagicString(tsx);
+  const { program } = babelParse(tsx, { sourceType: "module", plugins: ["typescript", "jsx"] });
+
+  for (const node of program.body) {
+    if (node.type !== "ImportDeclaration") continue;
+    const specifier = node.source.value;
+    if (specifier.endsWith(".css")) {
+      const local = node.specifiers.find((spec) => spec.type === "ImportDefaultSpecifier");
+      s.overwrite(node.start!, node.end!, local ? `const ${local.local.name} = ${CSS_MODULE}` : "");
+    } else if (specifier.startsWith(".") && !resolves(specifier, dir)) {
+      if (resolves(`${specifier}.vue`, dir)) {
+        s.overwrite(node.source.start! + 1, node.source.end! - 1, `${specifier}.vue`);
+      }
+    }
+  }
+
+  const { babel, vueJsx } = await loadJsxTransform();
+  const result = babel.transformAsync(s.toString(), {
+    plugins: [vueJsx],
+    parserOpts: { plugins: ["jsx", "typescript"] },
+    sourceType: "module",
+    babelrc: false,
+    configFile: false,
+  });
+  return transpiler.transformSync((await result)?.code ?? "");
+}
+
+async function loadJsxTransform() {
+  try {
+    const babel = await import("@babel/core");
+    const vueJsx = (await import("@vue/babel-plugin-jsx")).default;
+    return { babel, vueJsx };
+  } catch {
+    throw new Error(
+      'equivalence checks need "@babel/core" and "@vue/babel-plugin-jsx"; install them with `bun add -d @babel/core @vue/babel-plugin-jsx`',
+    );
+  }
+}
+
+function resolves(specifier: string, dir: string): boolean {
+  try {
+    Bun.resolveSync(specifier, dir);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Let the original .vue files (and the .vue files they import) be imported */
+function registerSfcLoader(): void {
+  if (loaderRegistered) return;
+  loaderRegistered = true;
+  Bun.plugin({
+    name: "vue-to-tsx-equivalence",
+    setup(build) {
+      build.onLoad({ filter: /\.vue$/ }, async ({ path }) => ({
+        contents: compileSfc(await Bun.file(path).text(), path),
+        loader: "ts",
+      }));
+    },
+  });
+}
+
+/** Compile an SFC to a module with the component as its default export */
+function compileSfc(source: string, filename: string): string {
+  const { descriptor, errors } = parse(source, { filename });
+  if (errors.length > 0) throw errors[0];
+  const id = Bun.hash(filename).toString(16);
+
+  let code = "const __sfc__ = {}";
+  let bindings;
+  if (descriptor.script || descriptor.scriptSetup) {
+    const script = compileScript(descriptor, { id, inlineTemplate: true, genDefaultAs: "__sfc__" });
+    code = script.content;
+    bindings = script.bindings;
+  }
+  // Templates are only inlined into <script setup>
+  if (descriptor.template && !descriptor.scriptSetup) {
+    const template = compileTemplate({
+      source: descriptor.template.content,
+      filename,
+      id,
+      compilerOptions: { bindingMetadata: bindings },
+    });
+    code += `\n${template.code.replace("export function render", "function render")}`;
+    code += "\n__sfc__.render = render";
+  }
+
+  const modules = descriptor.styles
+    .filter((style) => style.module)
+    .map((style) => {
+      const name = typeof style.module === "string" ? style.module : "$style";
+      return `${JSON.stringify(name)}: ${CSS_MODULE}`;
+    });
+  if (modules.length > 0) code += `\n__sfc__.__cssModules = { ${modules.join(", ")} }`;
+  return `${code}\nexport default __sfc__`;
+}
@@ -0,0 +1,127 @@
+import { babelParse, MagicString, parse as sfcParse } from "@vue/compiler-sfc";
+import type { Node, StringLiteral } from "@babel/types";
+import { dirname, extname, relative, resolve, sep } from "path";
+import type { ImportRewrite } from "./types";
+import { walk } from "./script/options-api";
+
+/** Extensions of the files that may import a converted component */
+export const IMPORTER_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".vue",
+];
+
+/**
+ * Rewrite the specifiers in `code` (the contents of `file`) that point at converted components.
+ * `outputs` maps each converted .vue file to the .tsx file it was converted to, both absolute.
+ *
+ * Static imports, `export ... from`, dynamic `import()` (including the loaders passed to
+ * `defineAsyncComponent`) and `require()` are rewritten. Only relative specifiers can be
+ * resolved; aliases such as `@/components/Foo.vue` are left alone.
+ */
+export function rewriteImporters(
+  code: string,
+  file: string,
+  outputs: Map<string, string>,
+): { code: string; rewrites: ImportRewrite[] } {
+  const s = new MagicString(code);
+  const rewrites: ImportRewrite[] = [];
+
+  for (const script of getScripts(code, file)) {
+    let program: Node;
+    try {
+      program = babelParse(script.content, {
+        sourceType: "module",
+        plugins: parserPlugins(script.lang),
+      }).program;
+    } catch {
+      continue;
+    }
+
+    walk(program, (node) => {
+      const literal = getSpecifierLiteral(node);
+      if (!literal) return;
+      const to = resolveSpecifier(literal.value, file, outputs);
+      if (!to) return;
+      const start = script.offset + literal.start! + 1;
+      s.overwrite(start, script.offset + literal.end! - 1, to);
+      rewrites.push({ line: lineAt(code, start), from: literal.value, to });
+    });
+  }
+
+  return { code: rewrites.length > 0 ? s.toString() : code, rewrites };
+}
+
+/** The script sources of a file, with their offset in the file */
+function getScripts(
+  code: string,
+  file: string,
+): { content: string; lang: string; offset: number }[] {
+  if (!file.endsWith(".vue")) {
+    return [{ content: code, lang: extname(file).slice(1), offset: 0 }];
+  }
+  const { descriptor } = sfcParse(code, { filename: file, sourceMap: false });
+  return [descriptor.script, descriptor.scriptSetup]
+    .filter((block) => block != null)
+    .map((block) => ({
+      content: block.content,
+      lang: block.lang ?? "js",
+      offset: block.loc.start.offset,
+    }));
+}
+
+/** The string literal holding the module specifier of an import, export or require */
+function getSpecifierLiteral(node: Node): StringLiteral | null {
+  let source: Node | null | undefined;
+  if (
+    node.type === "ImportDeclaration" ||
+    node.type === "ExportNamedDeclaration" ||
+    node.type === "ExportAllDeclaration"
+  ) {
+    source = node.source;
+  } else if (node.type === "ImportExpression") {
+    source = node.source;
+  } else if (
+    node.type === "CallExpression" &&
+    (node.callee.type === "Import" ||
+      (node.callee.type === "Identifier" && node.callee.name === "require"))
+  ) {
+    source = node.arguments[0];
+  }
+  return source?.type === "StringLiteral" ? source : null;
+}
+
+/** The new specifier for an import of a converted component, or null to leave it */
+function resolveSpecifier(
+  specifier: string,
+  file: string,
+  outputs: Map<string, string>,
+): string | null {
+  if (!specifier.endsWith(".vue") || !/^\.\.?\//.test(specifier)) return null;
+  const output = outputs.get(resolve(dirname(file), specifier));
+  if (!output) return null;
+  const path = relative(dirname(file), output.replace(/\.tsx$/, ""))
+    .split(sep)
+    .join("/");
+  return path.startsWith("../") ? path : `./${path}`;
+}
+
+function parserPlugins(lang: string): ("typescript" | "jsx")[] {
+  if (lang === "ts" || lang === "mts" || lang === "cts") return ["typescript"];
+  if (lang === "tsx") return ["typescript", "jsx"];
+  return ["jsx"];
+}
+
+function lineAt(code: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (code.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
@@ -1,13 +1,69 @@
-import type { ConvertResult, ConvertOptions, ImportInfo, JsxContext } from "./types";
+import type {
+  ConvertResult,
+  ConvertOptions,
+  ConvertWarning,
+  ImportInfo,
+  JsxContext,
+} from "./types";
 import { parseSFC } from "./parser";
 import { extractStyles, getStyleFilename } from "./style/index";
+import { getScopeId, getStyleHash } from "./style/scoped";
 import { templateToJsx } from "./template/index";
-import { scriptToDefineComponent, extractMacros } from "./script/index";
+import {
+  frameworkBindings,
+  frameworkGlobalSetup,
+  rewriteTemplateGlobals,
+  toPascalCase,
+} from "./template/utils";
+import { directiveIdentifier } from "./template/directives";
+import { NUXT_COMPONENTS } from "./template/components";
+import {
+  scriptToDefineComponent,
+  extractMacros,
+  convertOptionsApi,
+  registryImport,
+  addNamedImport,
+} from "./script/index";
 import { detectRefIdentifiers, parsePropTypes, detectLocalIdentifiers } from "./script/macros";
+import { NUXT_AUTO_IMPORTS } from "./script/auto-imports";
 import { generateFallbackComment, resolveFallbacks } from "./llm/index";
+import { buildSourceMap } from "./sourcemap";
+import {
+  createPluginHost,
+  runOutputTransforms,
+  runParsedTransforms,
+  runSourceTransforms,
+  runStyleTransforms,
+} from "./plugins";
+import { applyWarningOptions, createWarning } from "./warnings";
 
-export type { ConvertResult, ConvertOptions } from "./types";
+export type {
+  ConvertResult,
+  ConvertOptions,
+  ConvertWarning,
+  WarningSeverity,
+  VueToTsxPlugin,
+  PluginContext,
+  PluginDirective,
+  PluginElement,
+  PluginAttribute,
+  PluginAttributeResult,
+  PluginTemplateGlobal,
+  PluginMacroCall,
+  ConfigSettings,
+  RegistryImport,
+  ConfigOverride,
+  VueToTsxConfig,
+  VerifyInput,
+  VerifyOptions,
+  VerifyResult,
+} from "./types";
 export { parseSFC } from "./parser";
+export { definePlugin } from "./plugins";
+export { defineConfig } from "./config";
+export { WARNING_CODES, type WarningCode } from "./warnings";
+export { verify } from "./verify";
+export { scanComponentRegistry } from "./registry";
 
 /**
  * Convert a Vue Single File Component (.vue) to Vue TSX (.tsx + .css).
@@ -18,33 +74,99 @@ export { parseSFC } from "./parser";
  */
 export async function convert(source: string, options?: ConvertOptions): Promise<ConvertResult> {
   const componentName = options?.componentName ?? "Component";
+  const filename = options?.filename ?? `${componentName}.vue`;
+
+  // Plugins see every stage; their warnings are reported with the others
+  const plugins = options?.plugins?.length
+    ? createPluginHost(options.plugins, { componentName, filename })
+    : undefined;
 
   // 1. Parse SFC
-  const parsed = parseSFC(source);
+  const parsed = parseSFC(plugins ? runSourceTransforms(plugins, source) : source, filename);
 
   if (parsed.errors.length > 0) {
     return {
       tsx: "",
       css: null,
       cssFilename: null,
-      warnings: parsed.errors.map((e) => ({ message: e })),
+      moduleCss: null,
+      moduleCssFilename: null,
+      warnings: applyWarningOptions(
+        parsed.errors.map((e) => createWarning("VTT-PARSE-ERROR", e)),
+        options,
+      ),
       fallbacks: [],
     };
   }
 
+  if (plugins) {
+    runParsedTransforms(plugins, parsed);
+    parsed.styles = runStyleTransforms(plugins, parsed.styles);
+  }
+
   // 2. Extract styles → get classMap and CSS
-  const styleResult = extractStyles(parsed.styles, componentName);
+  // The scope attribute and v-bind() custom properties use a hash of the file, like Vue's
+  // production builds
+  const styleKey = `${filename}\n${source}`;
+  const scopeId =
+    options?.preserveScopedStyles && parsed.styles.some((s) => s.scoped && !s.module)
+      ? getScopeId(styleKey)
+      : undefined;
+  const styleResult = extractStyles(parsed.styles, componentName, {
+    scopeId,
+    cssVarsId: getStyleHash(styleKey),
+  });
   const classMap = styleResult?.classMap ?? new Map();
   const css = styleResult?.css ?? null;
-  const cssFilename = styleResult ? getStyleFilename(componentName, styleResult.lang) : null;
+  const cssFilename = css != null ? getStyleFilename(componentName, styleResult?.lang) : null;
+  const cssModule = styleResult?.cssModule ?? null;
+  const moduleCssFilename = cssModule
+    ? getStyleFilename(componentName, cssModule.lang, true)
+    : null;
   const styleWarnings = styleResult?.warnings ?? [];
 
   // 3. Detect ref identifiers and prop identifiers from script setup
   let refIdentifiers = new Set<string>();
   let propIdentifiers = new Set<string>();
+  // Custom directives for withDirectives: `vFoo` bindings in <script setup>, then global ones
+  const directives = new Map<string, ImportInfo | null>();
+  // Components by PascalCase name: the ones in scope in the script, then global ones
+  const components = new Map<string, ImportInfo | null>();
+  // Names the script binds, which template globals must not be bound to again
+  const scriptBindings = new Set<string>();
+  let scriptBody = "";
+  const scriptWarnings: ConvertWarning[] = [];
+  if (!parsed.scriptSetup && parsed.script) {
+    // Options API: data/computed become refs, props get the props. prefix
+    const converted = convertOptionsApi(parsed.script.content, parsed.script.lang, {
+      vue2: options?.vue2,
+    });
+    if (converted) {
+      refIdentifiers = converted.refIdentifiers;
+      propIdentifiers = converted.propIdentifiers;
+      for (const name of importedNames(converted.imports)) {
+        if (/^[A-Z]/.test(name)) components.set(name, null);
+        scriptBindings.add(name);
+      }
+      scriptBody = `${converted.preamble}\n${converted.setupBody}`;
+      for (const name of detectLocalIdentifiers(scriptBody)) scriptBindings.add(name);
+      // Warning lines are relative to the script block
+      const offset = (parsed.script.line ?? 1) - 1;
+      scriptWarnings.push(
+        ...converted.warnings.map((w) => (w.line ? { ...w, line: w.line + offset } : w)),
+      );
+    }
+  }
   if (parsed.scriptSetup) {
     const macros = extractMacros(parsed.scriptSetup.content, parsed.scriptSetup.lang);
     refIdentifiers = detectRefIdentifiers(macros.body, macros.models);
+    scriptBody = macros.body;
+    const bindings = [...importedNames(macros.imports), ...detectLocalIdentifiers(macros.body)];
+    for (const name of bindings) {
+      scriptBindings.add(name);
+      if (/^v[A-Z]/.test(name)) directives.set(name, null);
+      else if (/^[A-Z]/.test(name)) components.set(name, null);
+    }
 
     // Parse prop names from type-based or runtime defineProps
     let propNames: string[] = [];
@@ -71,6 +193,16 @@ export async function convert(source: string, options?: ConvertOptions): Promise
     }
   }
 
+  for (const [name, source] of Object.entries(options?.directives ?? {})) {
+    const local = directiveIdentifier(name);
+    if (!directives.has(local)) directives.set(local, registryImport(local, source));
+  }
+  const componentRegistry = { ...(options?.nuxt ? NUXT_COMPONENTS : {}), ...options?.components };
+  for (const [name, source] of Object.entries(componentRegistry)) {
+    const local = toPascalCase(name);
+    if (!components.has(local)) components.set(local, registryImport(local, source));
+  }
+
   // 4. Create JsxContext
   const ctx: JsxContext = {
     indent: 0,
@@ -83,6 +215,18 @@ export async function convert(source: string, options?: ConvertOptions): Promise
     propIdentifiers,
     hasVFor: false,
     usedBuiltins: new Set(),
+    lowerVModel: options?.lowerVModel,
+    sourceMap: options?.sourceMap,
+    cssModules: cssModule ? new Set(cssModule.names) : undefined,
+    scopeId,
+    vue2: options?.vue2,
+    plugins,
+    directives,
+    usedDirectives: new Set(),
+    components,
+    usedComponents: new Set(),
+    frameworkBindings: frameworkBindings(scriptBody, scriptBindings),
+    usedFrameworkBindings: new Map(),
   };
 
   // 4. Generate JSX body from template
@@ -100,6 +244,14 @@ export async function convert(source: string, options?: ConvertOptions): Promise
       typeOnly: false,
     });
   }
+  if (moduleCssFilename) {
+    additionalImports.push({
+      source: `./${moduleCssFilename}`,
+      defaultImport: "styles",
+      namedImports: [],
+      typeOnly: false,
+    });
+  }
 
   // 6. Add imports for Vue built-in components used in template (Teleport, KeepAlive, etc.)
   if (ctx.usedBuiltins.size > 0) {
@@ -112,15 +264,82 @@ export async function convert(source: string, options?: ConvertOptions): Promise
     }
   }
 
+  // Custom directives applied with withDirectives, and the global ones' imports
+  if (ctx.usedDirectives!.size > 0) {
+    additionalImports.push({
+      source: "vue",
+      namedImports: [{ imported: "withDirectives", local: "withDirectives" }],
+      typeOnly: false,
+    });
+    for (const local of ctx.usedDirectives!) {
+      const directiveImport = directives.get(local);
+      if (directiveImport) additionalImports.push(directiveImport);
+    }
+  }
+
+  // Global components rendered by the template
+  for (const name of ctx.usedComponents!) {
+    additionalImports.push(components.get(name)!);
+  }
+
+  // v-bind() in styles: bound expressions resolve like template expressions (refs, props)
+  const cssVars = (styleResult?.cssVars ?? []).map((v) => ({
+    ...v,
+    expression: rewriteTemplateGlobals(v.expression, ctx),
+  }));
+  if (cssVars.length > 0) {
+    additionalImports.push({
+      source: "vue",
+      namedImports: [{ imported: "useCssVars", local: "useCssVars" }],
+      typeOnly: false,
+    });
+  }
+
+  // Imports requested by plugin handlers (e.g. for a template global's composable)
+  if (plugins) {
+    additionalImports.push(...plugins.imports);
+  }
+
+  // $t, $route, ... rewritten in the template: bind them in setup and import their composables,
+  // unless the project auto-imports them
+  const autoImports = { ...(options?.nuxt ? NUXT_AUTO_IMPORTS : {}), ...options?.autoImports };
+  const framework = frameworkGlobalSetup(ctx.usedFrameworkBindings!, ctx.frameworkBindings!);
+  const routerSource = options?.routerSource ?? "vue-router";
+  const composableSources: Record<string, string> = {
+    useI18n: options?.i18nSource ?? "vue-i18n",
+    useRoute: routerSource,
+    useRouter: routerSource,
+  };
+  for (const composable of framework.composables) {
+    if (scriptBindings.has(composable)) continue;
+    const autoImport = autoImports[composable];
+    if (autoImport === undefined) {
+      addNamedImport(additionalImports, composableSources[composable]!, composable);
+    } else if (options?.explicitAutoImports) {
+      const source =
+        typeof autoImport === "string" ? { from: autoImport, import: composable } : autoImport;
+      additionalImports.push(registryImport(composable, source));
+    }
+  }
+
   // 7. Generate the full TSX output via script module
   let tsx = scriptToDefineComponent(parsed, jsxBody, additionalImports, ctx.usedContextMembers, {
     hasVFor: ctx.hasVFor,
+    sourceMap: options?.sourceMap,
+    cssModule: cssModule !== null,
+    cssVars,
+    vue2: options?.vue2,
+    setupStatements: [...framework.setup, ...(plugins?.setup ?? [])],
+    autoImports,
+    explicitAutoImports: options?.explicitAutoImports,
   });
 
   // 8. LLM fallback resolution (if enabled and there are fallbacks)
   if (options?.llm && ctx.fallbacks.length > 0) {
     const replacements = await resolveFallbacks(ctx.fallbacks, componentName, {
       model: options.llmModel,
+      generate: options.llmGenerate,
+      cache: options.llmCache,
     });
     for (const [originalSource, replacement] of replacements) {
       const comment = generateFallbackComment({
@@ -131,11 +350,39 @@ export async function convert(source: string, options?: ConvertOptions): Promise
     }
   }
 
-  return {
+  // 9. Turn source position markers into a source map
+  let map: ConvertResult["map"];
+  if (options?.sourceMap) {
+    ({ code: tsx, map } = buildSourceMap(tsx, {
+      file: `${componentName}.tsx`,
+      source: filename,
+      sourceContent: source,
+    }));
+  }
+
+  const result: ConvertResult = {
     tsx,
+    map,
     css,
     cssFilename,
-    warnings: [...styleWarnings.map((msg) => ({ message: msg })), ...ctx.warnings],
+    moduleCss: cssModule?.css ?? null,
+    moduleCssFilename,
+    warnings: [...styleWarnings, ...scriptWarnings, ...ctx.warnings, ...(plugins?.warnings ?? [])],
     fallbacks: ctx.fallbacks,
   };
+
+  // 10. Let plugins post-process the output
+  const output = plugins ? runOutputTransforms(plugins, result) : result;
+
+  // 11. Promote or suppress warnings by code
+  return { ...output, warnings: applyWarningOptions(output.warnings, options) };
+}
+
+/** Local names bound by value imports */
+function importedNames(imports: ImportInfo[]): string[] {
+  return imports.filter((i) => !i.typeOnly).flatMap((i) => [
+    ...(i.defaultImport ? [i.defaultImport] : []),
+    ...(i.namespaceImport ? [i.namespaceImport] : []),
+    ...i.namedImports.map((n) => n.local),
+  ]);
 }
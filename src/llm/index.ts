@@ -1,4 +1,4 @@
-import type { FallbackItem } from "../types";
+import type { FallbackItem, LlmCache, LlmGenerate } from "../types";
 
 /**
  * Generate a TODO comment for a fallback item.
@@ -34,53 +34,94 @@ export function detectProvider(): Provider | null {
  * Resolve fallback items using LLM.
  * Batches all items into a single prompt and returns a map of source → JSX replacement.
  * Returns empty map if no API key is set or no fallbacks provided.
+ * The prompt is sent with `options.generate` when given, e.g. to share a rate limit.
+ * Items found in `options.cache` are not sent at all, and new replacements are added to it.
  */
 export async function resolveFallbacks(
   fallbacks: FallbackItem[],
   componentName: string,
-  options?: { model?: string },
+  options?: { model?: string; generate?: LlmGenerate; cache?: LlmCache },
 ): Promise<Map<string, string>> {
   const result = new Map<string, string>();
+  const pending: FallbackItem[] = [];
 
-  if (fallbacks.length === 0) return result;
+  // Cache entries are keyed on the provider and model the prompt actually goes to
+  const resolved = resolveModel(options?.model);
+  const cacheModel = resolved ? `${resolved.provider}:${resolved.model}` : options?.model;
 
-  const provider = detectProvider();
-  if (!provider) {
-    console.warn(
-      "vue-to-tsx: No LLM API key found. Set ANTHROPIC_API_KEY or OPENAI_API_KEY to enable LLM fallback.",
-    );
-    return result;
+  for (const item of fallbacks) {
+    const cached = await options?.cache?.get(item, cacheModel);
+    if (cached === undefined) pending.push(item);
+    else result.set(item.source, cached);
   }
 
-  const model = options?.model ?? process.env.VUE_TO_TSX_LLM_MODEL ?? DEFAULT_MODELS[provider];
-
-  const { generateText } = await import("ai");
+  if (pending.length === 0) return result;
 
-  const prompt = buildPrompt(fallbacks, componentName);
+  const generate = options?.generate ?? generateWithProvider;
+  const prompt = buildPrompt(pending, componentName);
 
   try {
-    let modelInstance: Parameters<typeof generateText>[0]["model"];
-
-    if (provider === "anthropic") {
-      const { anthropic } = await import("@ai-sdk/anthropic");
-      modelInstance = anthropic(model);
-    } else {
-      const { openai } = await import("@ai-sdk/openai");
-      modelInstance = openai(model);
+    const text = await generate(prompt, options?.model);
+    if (text == null) return result;
+    for (const [source, replacement] of parseResponse(text, pending)) {
+      result.set(source, replacement);
+      const item = pending.find((p) => p.source === source)!;
+      await options?.cache?.set(item, cacheModel, replacement);
     }
-
-    const { text } = await generateText({
-      model: modelInstance,
-      prompt,
-    });
-
-    return parseResponse(text, fallbacks);
+    return result;
   } catch (error) {
     console.warn("vue-to-tsx: LLM fallback resolution failed:", error);
     return result;
   }
 }
 
+/**
+ * Resolve the provider and model a prompt is sent to: `modelOverride`, else
+ * VUE_TO_TSX_LLM_MODEL, else the provider's default. Returns null if no API key is set.
+ */
+export function resolveModel(modelOverride?: string): { provider: Provider; model: string } | null {
+  const provider = detectProvider();
+  if (!provider) return null;
+  const model = modelOverride ?? process.env.VUE_TO_TSX_LLM_MODEL ?? DEFAULT_MODELS[provider];
+  return { provider, model };
+}
+
+/**
+ * Send a prompt to the detected provider and return the response text.
+ * Returns null (with a warning) if no API key is set.
+ */
+export async function generateWithProvider(
+  prompt: string,
+  modelOverride?: string,
+): Promise<string | null> {
+  const resolved = resolveModel(modelOverride);
+  if (!resolved) {
+    console.warn(
+      "vue-to-tsx: No LLM API key found. Set ANTHROPIC_API_KEY or OPENAI_API_KEY to enable LLM fallback.",
+    );
+    return null;
+  }
+  const { provider, model } = resolved;
+
+  const { generateText } = await import("ai");
+
+  let modelInstance: Parameters<typeof generateText>[0]["model"];
+
+  if (provider === "anthropic") {
+    const { anthropic } = await import("@ai-sdk/anthropic");
+    modelInstance = anthropic(model);
+  } else {
+    const { openai } = await import("@ai-sdk/openai");
+    modelInstance = openai(model);
+  }
+
+  const { text } = await generateText({
+    model: modelInstance,
+    prompt,
+  });
+  return text;
+}
+
 /**
  * Build the prompt for the LLM with all fallback items.
  */
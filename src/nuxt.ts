@@ -0,0 +1,99 @@
+import { existsSync } from "fs";
+import { basename, dirname, join, relative, resolve } from "path";
+import type { RegistryImport } from "./types";
+import { scanAutoImports } from "./registry";
+import { toPascalCase } from "./template/utils";
+
+/** What a Nuxt app provides to its components without imports */
+export interface NuxtProject {
+  /** Auto-imported identifiers, all exported by `#imports` */
+  autoImports: Record<string, RegistryImport>;
+  /** Auto-registered components, all imported from `#components` in render functions */
+  components: Record<string, RegistryImport>;
+}
+
+/** `Name: typeof import(...)` or `'Name': LazyComponent<typeof import(...)>` in `.nuxt/components.d.ts` */
+const COMPONENT_RE = /^\s*(['"]?)(\w+)\1\s*:\s*(?:\w+<)?typeof import\(/gm;
+
+/** Exported functions and constants of a composable or util file */
+const NAMED_EXPORT_RE = /^export\s+(?:async\s+)?(?:function\*?|const|let)\s+(\w+)/gm;
+
+/**
+ * Read the auto-imports and components of the Nuxt app in `root`. The declarations Nuxt
+ * generates in `.nuxt/imports.d.ts` and `.nuxt/components.d.ts` are used when they exist
+ * (after `nuxi prepare` or a dev build); otherwise the exports of `composables/` and `utils/`
+ * and the `.vue` files in `components/` are scanned with Nuxt's naming rules. Vue's and
+ * Nuxt's own auto-imports and built-in components are added by `convert()` in Nuxt mode.
+ */
+export async function loadNuxtProject(root: string): Promise<NuxtProject> {
+  const buildDir = join(root, ".nuxt");
+
+  const names = new Set<string>();
+  const importsFile = join(buildDir, "imports.d.ts");
+  if (existsSync(importsFile)) {
+    for (const name of Object.keys(await scanAutoImports(importsFile))) names.add(name);
+  } else {
+    for (const dir of ["composables", "utils"]) {
+      for (const file of await scan(join(root, dir), "*.{ts,js,mjs}")) {
+        const source = await Bun.file(file).text();
+        for (const [, name] of source.matchAll(NAMED_EXPORT_RE)) names.add(name!);
+        if (/^export\s+default\b/m.test(source)) {
+          const name = toPascalCase(basename(file).replace(/\.\w+$/, ""));
+          names.add(name.charAt(0).toLowerCase() + name.slice(1));
+        }
+      }
+    }
+  }
+  // Nuxt re-exports every auto-import from `#imports`
+  const autoImports = Object.fromEntries([...names].map((name) => [name, "#imports"]));
+
+  const components: Record<string, RegistryImport> = {};
+  const add = (name: string) => {
+    components[name] = { from: "#components", import: name };
+  };
+  const componentsFile = Bun.file(join(buildDir, "components.d.ts"));
+  if (await componentsFile.exists()) {
+    for (const [, , name] of (await componentsFile.text()).matchAll(COMPONENT_RE)) add(name!);
+  } else {
+    const componentsDir = join(root, "components");
+    for (const file of await scan(componentsDir, "**/*.vue")) {
+      const name = nuxtComponentName(relative(componentsDir, file));
+      add(name);
+      add(`Lazy${name}`);
+    }
+  }
+
+  return { autoImports, components };
+}
+
+/**
+ * Nuxt's name for a component file under `components/`: its directories and file name in
+ * PascalCase, without repeating a directory prefix the file name already has
+ * (`base/foo/Button.vue` → `BaseFooButton`, `base/BaseInput.vue` → `BaseInput`, `form/index.vue` → `Form`)
+ */
+export function nuxtComponentName(path: string): string {
+  const parts = path.replace(/\.vue$/, "").split(/[\\/]/);
+  if (parts.length > 1 && parts[parts.length - 1] === "index") parts.pop();
+  const file = toPascalCase(parts.pop()!);
+  const prefix = parts.map(toPascalCase).join("");
+  return file.startsWith(prefix) ? file : `${prefix}${file}`;
+}
+
+async function scan(dir: string, pattern: string): Promise<string[]> {
+  if (!existsSync(dir)) return [];
+  const files: string[] = [];
+  for await (const file of new Bun.Glob(pattern).scan({ cwd: dir, absolute: true })) {
+    files.push(file);
+  }
+  return files.sort();
+}
+
+/** The directory of the closest `nuxt.config.*` above `file`, if any */
+export function findNuxtRoot(file: string): string | null {
+  for (let dir = dirname(resolve(file)); ; dir = dirname(dir)) {
+    if (["ts", "js", "mjs"].some((ext) => existsSync(join(dir, `nuxt.config.${ext}`)))) {
+      return dir;
+    }
+    if (dirname(dir) === dir) return null;
+  }
+}
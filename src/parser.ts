@@ -19,6 +19,7 @@ export function parseSFC(source: string, filename = "anonymous.vue"): ParsedSFC
           content: descriptor.scriptSetup.content,
           lang: descriptor.scriptSetup.lang,
           setup: true,
+          line: descriptor.scriptSetup.loc.start.line,
         }
       : null,
     script: descriptor.script
@@ -26,12 +27,15 @@ export function parseSFC(source: string, filename = "anonymous.vue"): ParsedSFC
           content: descriptor.script.content,
           lang: descriptor.script.lang,
           setup: false,
+          line: descriptor.script.loc.start.line,
         }
       : null,
     styles: descriptor.styles.map((s) => ({
       content: s.content,
+      line: s.loc.start.line,
       scoped: s.scoped ?? false,
       lang: s.lang,
+      module: s.module,
     })),
     errors: errors.map((e) => (typeof e === "string" ? e : e.message)),
   };
@@ -0,0 +1,172 @@
+import type {
+  ConvertResult,
+  ParsedSFC,
+  PluginAttribute,
+  PluginAttributeResult,
+  PluginDirective,
+  PluginElement,
+  PluginHost,
+  PluginTemplateGlobal,
+  StyleBlock,
+  VueToTsxPlugin,
+} from "./types";
+import { replaceMacroCalls } from "./script/macros";
+import { createWarning } from "./warnings";
+
+/**
+ * Define a plugin with type checking. Plugins are passed to `convert()` via `plugins`,
+ * or listed in the CLI config file.
+ */
+export function definePlugin(plugin: VueToTsxPlugin): VueToTsxPlugin {
+  return plugin;
+}
+
+/**
+ * Create the plugin host for one conversion. Warnings, imports and setup statements
+ * requested through the plugin context are collected on the host.
+ */
+export function createPluginHost(
+  plugins: VueToTsxPlugin[],
+  info: { componentName: string; filename: string },
+): PluginHost {
+  const host: PluginHost = {
+    plugins,
+    warnings: [],
+    imports: [],
+    setup: [],
+    context: {
+      ...info,
+      warn: (message, { code, ...details } = {}) => {
+        const warning = createWarning("VTT-PLUGIN", message, details);
+        host.warnings.push(code ? { ...warning, code } : warning);
+      },
+      addImport: (source, names) => {
+        host.imports.push({
+          source,
+          namedImports: names.map((name) => ({ imported: name, local: name })),
+          typeOnly: false,
+        });
+      },
+      addSetup: (statement) => {
+        if (!host.setup.includes(statement)) host.setup.push(statement);
+      },
+    },
+  };
+  return host;
+}
+
+/** Run the handlers for a custom directive; undefined if no plugin handles it */
+export function runDirectivePlugins(
+  host: PluginHost,
+  directive: PluginDirective,
+): PluginAttributeResult {
+  for (const plugin of host.plugins) {
+    const result = plugin.directives?.[directive.name]?.(directive, host.context);
+    if (result !== undefined) return result;
+  }
+  return undefined;
+}
+
+/** Run the handlers for an attribute; undefined if no plugin handles it */
+export function runAttributePlugins(
+  host: PluginHost,
+  attribute: PluginAttribute,
+): PluginAttributeResult {
+  for (const plugin of host.plugins) {
+    const result = plugin.attributes?.[attribute.name]?.(attribute, host.context);
+    if (result !== undefined) return result;
+  }
+  return undefined;
+}
+
+/** Run the handlers for an element tag; undefined if no plugin handles it */
+export function runElementPlugins(host: PluginHost, element: PluginElement): string | undefined {
+  for (const plugin of host.plugins) {
+    const result = plugin.elements?.[element.tag]?.(element, host.context);
+    if (typeof result === "string") return result;
+  }
+  return undefined;
+}
+
+/** Normalise a handler result into a list of JSX attribute strings */
+export function toAttributeList(result: string | string[] | false): string[] {
+  if (result === false) return [];
+  return Array.isArray(result) ? result : [result];
+}
+
+/** Template globals provided by all plugins; earlier plugins win */
+export function getPluginGlobals(host: PluginHost): Map<string, PluginTemplateGlobal> {
+  const globals = new Map<string, PluginTemplateGlobal>();
+  for (const plugin of host.plugins) {
+    for (const [name, global] of Object.entries(plugin.templateGlobals ?? {})) {
+      if (!globals.has(name)) globals.set(name, global);
+    }
+  }
+  return globals;
+}
+
+/** Add the setup statement and imports a template global needs */
+export function useTemplateGlobal(host: PluginHost, global: PluginTemplateGlobal): void {
+  if (global.setup) host.context.addSetup(global.setup);
+  for (const [source, names] of Object.entries(global.imports ?? {})) {
+    host.context.addImport(source, names);
+  }
+}
+
+/** Parse stage: apply every plugin's source transform */
+export function runSourceTransforms(host: PluginHost, source: string): string {
+  let result = source;
+  for (const plugin of host.plugins) {
+    result = plugin.transformSource?.(result, host.context) ?? result;
+  }
+  return result;
+}
+
+/** Parse stage: let plugins modify the parsed SFC, then apply their script macro handlers */
+export function runParsedTransforms(host: PluginHost, sfc: ParsedSFC): void {
+  for (const plugin of host.plugins) {
+    plugin.transformParsed?.(sfc, host.context);
+  }
+  for (const block of [sfc.scriptSetup, sfc.script]) {
+    if (block) block.content = applyPluginMacros(host, block.content);
+  }
+}
+
+/** Style stage: apply every plugin's style transform to each block */
+export function runStyleTransforms(host: PluginHost, styles: StyleBlock[]): StyleBlock[] {
+  return styles.map((block) => {
+    let content = block.content;
+    for (const plugin of host.plugins) {
+      content = plugin.transformStyle?.(content, block, host.context) ?? content;
+    }
+    return { ...block, content };
+  });
+}
+
+/** Output stage: apply every plugin's output transform */
+export function runOutputTransforms(host: PluginHost, result: ConvertResult): ConvertResult {
+  const reported = host.warnings.length;
+  let output = result;
+  for (const plugin of host.plugins) {
+    output = plugin.transformOutput?.(output, host.context) ?? output;
+  }
+  // Warnings reported while post-processing still belong in the result
+  const late = host.warnings.slice(reported);
+  return late.length > 0 ? { ...output, warnings: [...output.warnings, ...late] } : output;
+}
+
+/** Script stage: apply every plugin's macro handlers to a script block */
+function applyPluginMacros(host: PluginHost, content: string): string {
+  let result = content;
+  for (const plugin of host.plugins) {
+    if (!plugin.macros) continue;
+    const handlers = Object.fromEntries(
+      Object.entries(plugin.macros).map(([name, handler]) => [
+        name,
+        (call: Parameters<typeof handler>[0]) => handler(call, host.context),
+      ]),
+    );
+    result = replaceMacroCalls(result, handlers);
+  }
+  return result;
+}
@@ -0,0 +1,95 @@
+import { babelParse } from "@vue/compiler-sfc";
+import type { ImportDeclaration } from "@babel/types";
+import { dirname, resolve } from "path";
+import type { RegistryImport } from "./types";
+import { walk } from "./script/options-api";
+import { toPascalCase } from "./template/utils";
+
+/** `Name: typeof import('source')['export']` in a `GlobalComponents` interface */
+const GLOBAL_COMPONENT_RE =
+  /^\s*(['"]?)(\w+)\1\s*:\s*typeof import\(\s*(['"])(.+?)\3\s*\)\[(['"])(\w+)\5\]/gm;
+
+/** `const name: typeof import('source')['export']` in unplugin-auto-import's declarations */
+const GLOBAL_CONST_RE =
+  /^\s*const\s+([\w$]+)\s*:\s*typeof import\(\s*(['"])(.+?)\2\s*\)\[(['"])([\w$]+)\4\]/gm;
+
+/** `export { a, b as c } from 'source'` in Nuxt's `.nuxt/imports.d.ts` */
+const EXPORT_FROM_RE = /^export\s*\{([^}]*)\}\s*from\s*(['"])(.+?)\2/gm;
+
+/**
+ * Read the global components registered in a file. A `.d.ts` file is read as the
+ * `components.d.ts` generated by unplugin-vue-components (`GlobalComponents` entries); any
+ * other file is searched for `app.component('Name', Component)` calls, with `Component`
+ * resolved through the file's imports. Relative import paths are made absolute.
+ */
+export async function scanComponentRegistry(file: string): Promise<Record<string, RegistryImport>> {
+  const source = await Bun.file(file).text();
+  const absolute = (specifier: string) =>
+    specifier.startsWith(".") ? resolve(dirname(file), specifier) : specifier;
+  const registry: Record<string, RegistryImport> = {};
+
+  if (file.endsWith(".d.ts")) {
+    for (const [, , name, , specifier, , exported] of source.matchAll(GLOBAL_COMPONENT_RE)) {
+      const from = absolute(specifier!);
+      registry[name!] = exported === "default" ? from : { from, import: exported! };
+    }
+    return registry;
+  }
+
+  const { program } = babelParse(source, {
+    sourceType: "module",
+    plugins: ["typescript", "jsx"],
+  });
+  const imports = new Map<string, RegistryImport>();
+  for (const node of program.body) {
+    if (node.type !== "ImportDeclaration" || node.importKind === "type") continue;
+    const from = absolute((node as ImportDeclaration).source.value);
+    for (const spec of node.specifiers) {
+      if (spec.type === "ImportDefaultSpecifier") {
+        imports.set(spec.local.name, from);
+      } else if (spec.type === "ImportSpecifier") {
+        const imported =
+          spec.imported.type === "Identifier" ? spec.imported.name : spec.imported.value;
+        imports.set(spec.local.name, imported === "default" ? from : { from, import: imported });
+      }
+    }
+  }
+
+  walk(program, (node) => {
+    if (node.type !== "CallExpression" || node.callee.type !== "MemberExpression") return;
+    const { property } = node.callee;
+    const [name, component] = node.arguments;
+    if (property.type !== "Identifier" || property.name !== "component") return;
+    if (name?.type !== "StringLiteral" || component?.type !== "Identifier") return;
+    const source = imports.get(component.name);
+    if (source) registry[toPascalCase(name.value)] = source;
+  });
+  return registry;
+}
+
+/**
+ * Read the auto-imports declared in a `.d.ts` file: the global `const` declarations in the
+ * `auto-imports.d.ts` generated by unplugin-auto-import, or the `export ... from` statements
+ * in Nuxt's `.nuxt/imports.d.ts`. Relative import paths are made absolute.
+ */
+export async function scanAutoImports(file: string): Promise<Record<string, RegistryImport>> {
+  const source = await Bun.file(file).text();
+  const absolute = (specifier: string) =>
+    specifier.startsWith(".") ? resolve(dirname(file), specifier) : specifier;
+  const autoImports: Record<string, RegistryImport> = {};
+  const add = (name: string, from: string, exported: string) => {
+    autoImports[name] = exported === name ? from : { from, import: exported };
+  };
+
+  for (const [, name, , specifier, , exported] of source.matchAll(GLOBAL_CONST_RE)) {
+    add(name!, absolute(specifier!), exported!);
+  }
+  for (const [, specs, , specifier] of source.matchAll(EXPORT_FROM_RE)) {
+    for (const spec of specs!.split(",")) {
+      // `a` or `b as c`; type exports aren't values
+      const match = /^\s*([\w$]+)(?:\s+as\s+([\w$]+))?\s*$/.exec(spec);
+      if (match) add(match[2] ?? match[1]!, absolute(specifier!), match[1]!);
+    }
+  }
+  return autoImports;
+}
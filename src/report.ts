@@ -0,0 +1,129 @@
+import { pathToFileURL } from "url";
+import { version } from "../package.json";
+import type {
+  ConversionReport,
+  ConvertWarning,
+  FallbackItem,
+  ReportFile,
+  ReportIssue,
+} from "./types";
+import { WARNING_CODES } from "./warnings";
+
+/** Formats `--report` can write */
+export const REPORT_FORMATS = ["json", "sarif"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/** Rule id of fallbacks */
+export const FALLBACK_RULE = "VTT-FALLBACK";
+
+/** Rule id of files that failed to convert */
+export const CONVERT_ERROR_RULE = "VTT-CONVERT-ERROR";
+
+/** Descriptions of the rules issues are reported under */
+const RULES: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(WARNING_CODES).map(([code, w]) => [code, w.description])),
+  [FALLBACK_RULE]: "A pattern could not be converted deterministically",
+  [CONVERT_ERROR_RULE]: "The file could not be converted",
+};
+
+/** Build the report from the per-file entries collected by the CLI */
+export function createReport(root: string, files: ReportFile[]): ConversionReport {
+  const count = (match: (ruleId: string) => boolean) =>
+    files.reduce((n, f) => n + f.issues.filter((i) => match(i.ruleId)).length, 0);
+  return {
+    root,
+    files,
+    summary: {
+      files: files.length,
+      converted: files.filter((f) => f.status === "converted").length,
+      errors: files.filter((f) => f.status === "error").length,
+      warnings: count((id) => id !== FALLBACK_RULE && id !== CONVERT_ERROR_RULE),
+      fallbacks: count((id) => id === FALLBACK_RULE),
+      durationMs: files.reduce((n, f) => n + f.durationMs, 0),
+    },
+  };
+}
+
+/** Issue for a conversion warning */
+export function warningIssue(warning: ConvertWarning): ReportIssue {
+  return {
+    ruleId: warning.code,
+    severity: warning.severity === "info" ? "note" : warning.severity,
+    message: warning.message,
+    line: warning.line,
+    column: warning.column,
+    ...(warning.fix ? { fix: warning.fix } : {}),
+  };
+}
+
+/**
+ * Issue for a fallback. Without the LLM the output keeps a TODO comment, so it is an error;
+ * with it the generated code is only worth reviewing.
+ */
+export function fallbackIssue(fallback: FallbackItem, llm: boolean): ReportIssue {
+  return {
+    ruleId: FALLBACK_RULE,
+    severity: llm ? "note" : "error",
+    message: `${fallback.reason}: ${fallback.source}`,
+    line: fallback.line,
+    column: fallback.column,
+  };
+}
+
+/** Serialize a report in the given format */
+export function formatReport(report: ConversionReport, format: ReportFormat): string {
+  const data = format === "sarif" ? toSarif(report) : { version, ...report };
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+/** SARIF 2.1.0, as accepted by GitHub code scanning */
+function toSarif(report: ConversionReport) {
+  // Plugins can report warnings under codes of their own
+  const used = report.files.flatMap((file) => file.issues.map((issue) => issue.ruleId));
+  const ruleIds = [...new Set([...Object.keys(RULES), ...used])];
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "vue-to-tsx",
+            version,
+            informationUri: "https://github.com/NikhilVerma/vue-sfc-to-tsx",
+            rules: ruleIds.map((id) => ({
+              id,
+              shortDescription: { text: RULES[id] ?? RULES["VTT-PLUGIN"] },
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: pathToFileURL(`${report.root}/`).href },
+        },
+        results: report.files.flatMap((file) =>
+          file.issues.map((issue) => ({
+            ruleId: issue.ruleId,
+            ruleIndex: ruleIds.indexOf(issue.ruleId),
+            level: issue.severity,
+            message: {
+              text: issue.fix ? `${issue.message} Suggested fix: ${issue.fix}` : issue.message,
+            },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: file.file, uriBaseId: "SRCROOT" },
+                  region: {
+                    startLine: issue.line ?? 1,
+                    ...(issue.column ? { startColumn: issue.column } : {}),
+                  },
+                },
+              },
+            ],
+          })),
+        ),
+        invocations: [{ executionSuccessful: report.summary.errors === 0 }],
+      },
+    ],
+  };
+}
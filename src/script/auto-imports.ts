@@ -1,4 +1,4 @@
-import type { ImportInfo } from "../types";
+import type { RegistryImport, ImportInfo } from "../types";
 
 /** Known auto-imports: map of identifier to source module */
 const VUE_AUTO_IMPORTS: Record<string, string> = {
@@ -52,17 +52,72 @@ const VUE_AUTO_IMPORTS: Record<string, string> = {
   useRouter: "vue-router",
 };
 
+/** Nuxt's auto-imports besides Vue's: composables, helpers and macros, all from `#imports` */
+const NUXT_COMPOSABLES = [
+  "abortNavigation",
+  "addRouteMiddleware",
+  "clearError",
+  "clearNuxtData",
+  "createError",
+  "defineNuxtComponent",
+  "defineNuxtRouteMiddleware",
+  "definePageMeta",
+  "defineRouteRules",
+  "navigateTo",
+  "refreshNuxtData",
+  "showError",
+  "useAppConfig",
+  "useAsyncData",
+  "useCookie",
+  "useError",
+  "useFetch",
+  "useHead",
+  "useHydration",
+  "useLazyAsyncData",
+  "useLazyFetch",
+  "useNuxtApp",
+  "useNuxtData",
+  "useRequestEvent",
+  "useRequestFetch",
+  "useRequestHeaders",
+  "useRequestURL",
+  "useRoute",
+  "useRouter",
+  "useRuntimeConfig",
+  "useSeoMeta",
+  "useServerSeoMeta",
+  "useState",
+];
+
+/**
+ * What a Nuxt app auto-imports when its generated `.nuxt/imports.d.ts` isn't available:
+ * Vue's APIs, and Nuxt's composables (including its own `useRoute` / `useRouter`).
+ */
+export const NUXT_AUTO_IMPORTS: Record<string, RegistryImport> = {
+  ...Object.fromEntries(Object.entries(VUE_AUTO_IMPORTS).filter(([, source]) => source === "vue")),
+  ...Object.fromEntries(NUXT_COMPOSABLES.map((name) => [name, "#imports"])),
+};
+
 /**
  * Detect auto-imported identifiers used in script body or template JSX
- * that have no explicit import.
+ * that have no explicit import. Identifiers in the project's `autoImports`
+ * are provided by its build, so they are left without one unless `explicit`.
  */
 export function detectAutoImports(
   scriptBody: string,
   templateJsx: string,
   existingImports: ImportInfo[],
+  options: {
+    /** Identifiers the project auto-imports */
+    autoImports?: Record<string, RegistryImport>;
+    /** Import the project's auto-imports too */
+    explicit?: boolean;
+    /** Names declared in the script, which shadow auto-imports */
+    declared?: Set<string>;
+  } = {},
 ): ImportInfo[] {
   // Build set of already-imported identifiers
-  const alreadyImported = new Set<string>();
+  const alreadyImported = new Set<string>(options.declared);
   for (const imp of existingImports) {
     if (imp.defaultImport) alreadyImported.add(imp.defaultImport);
     for (const named of imp.namedImports) {
@@ -72,32 +127,32 @@ export function detectAutoImports(
 
   const combined = scriptBody + "\n" + templateJsx;
 
+  const known: Record<string, RegistryImport> = options.explicit
+    ? { ...VUE_AUTO_IMPORTS, ...options.autoImports }
+    : VUE_AUTO_IMPORTS;
+
   // Group missing imports by source module
-  const missing = new Map<string, string[]>();
+  const missing = new Map<string, ImportInfo>();
 
-  for (const [identifier, source] of Object.entries(VUE_AUTO_IMPORTS)) {
+  for (const [identifier, source] of Object.entries(known)) {
     if (alreadyImported.has(identifier)) continue;
+    if (!options.explicit && options.autoImports && identifier in options.autoImports) continue;
 
-    const re = new RegExp(`\\b${identifier}\\b`);
-    if (re.test(combined)) {
-      const list = missing.get(source);
-      if (list) {
-        list.push(identifier);
-      } else {
-        missing.set(source, [identifier]);
-      }
-    }
-  }
+    // Bare uses only: not `obj.name` or a `name:` key, but `...name` is fine
+    const escaped = identifier.replace(/\$/g, "\\$");
+    const re = new RegExp(`(?<![\\w$])(?<![^.]\\.)${escaped}(?![\\w$]|\\s*:)`);
+    if (!re.test(combined)) continue;
 
-  // Convert to ImportInfo[]
-  const result: ImportInfo[] = [];
-  for (const [source, identifiers] of missing) {
-    result.push({
-      source,
-      namedImports: identifiers.map((id) => ({ imported: id, local: id })),
-      typeOnly: false,
-    });
+    const from = typeof source === "string" ? source : source.from;
+    const imported = typeof source === "string" ? identifier : source.import;
+    let info = missing.get(from);
+    if (!info) {
+      info = { source: from, namedImports: [], typeOnly: false };
+      missing.set(from, info);
+    }
+    if (imported === "default") info.defaultImport = identifier;
+    else info.namedImports.push({ imported, local: identifier });
   }
 
-  return result;
+  return [...missing.values()];
 }
@@ -1,4 +1,4 @@
-import type { ImportInfo } from "../types";
+import type { ImportInfo, RegistryImport } from "../types";
 
 /**
  * Merge two arrays of imports, combining imports from the same source module.
@@ -112,14 +112,33 @@ export function addVueImport(imports: ImportInfo[], name: string, typeOnly?: boo
     return;
   }
 
-  let vueImport = imports.find((i) => i.source === "vue" && !i.typeOnly);
-  if (!vueImport) {
-    vueImport = { source: "vue", namedImports: [], typeOnly: false };
-    imports.push(vueImport);
+  addNamedImport(imports, "vue", name);
+}
+
+/**
+ * Ensure a named export of `source` is imported under its own name.
+ * Mutates the imports array in place.
+ */
+export function addNamedImport(imports: ImportInfo[], source: string, name: string): void {
+  let sourceImport = imports.find((i) => i.source === source && !i.typeOnly);
+  if (!sourceImport) {
+    sourceImport = { source, namedImports: [], typeOnly: false };
+    imports.push(sourceImport);
   }
 
-  const exists = vueImport.namedImports.some((n) => n.imported === name);
+  const exists = sourceImport.namedImports.some((n) => n.imported === name);
   if (!exists) {
-    vueImport.namedImports.push({ imported: name, local: name });
+    sourceImport.namedImports.push({ imported: name, local: name });
   }
 }
+
+/** The import of a global component or directive from a registry, bound to `local` */
+export function registryImport(local: string, source: RegistryImport): ImportInfo {
+  return typeof source === "string"
+    ? { source, defaultImport: local, namedImports: [], typeOnly: false }
+    : {
+        source: source.from,
+        namedImports: [{ imported: source.import, local }],
+        typeOnly: false,
+      };
+}
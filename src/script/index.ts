@@ -1,11 +1,57 @@
-import type { ParsedSFC, ImportInfo, ExtractedMacros } from "../types";
-import { extractMacros, parsePropTypes } from "./macros";
+import type {
+  ParsedSFC,
+  ImportInfo,
+  ExtractedMacros,
+  OptionsApiResult,
+  CssVar,
+  RegistryImport,
+} from "../types";
+import { extractMacros, parsePropTypes, detectLocalIdentifiers } from "./macros";
 import { mergeImports, generateImportStatements, addVueImport } from "./imports";
 import { detectAutoImports } from "./auto-imports";
+import { convertOptionsApi } from "./options-api";
+import { markLines } from "../sourcemap";
 
 export { extractMacros } from "./macros";
-export { mergeImports, generateImportStatements, addVueImport } from "./imports";
+export {
+  mergeImports,
+  generateImportStatements,
+  addVueImport,
+  addNamedImport,
+  registryImport,
+} from "./imports";
 export { detectAutoImports } from "./auto-imports";
+export { convertOptionsApi } from "./options-api";
+
+/** Generation options passed down from convert() */
+interface DefineComponentOptions {
+  /** The template used v-for, so the _renderList helper is needed */
+  hasVFor?: boolean;
+  /** Embed source position markers in the setup body */
+  sourceMap?: boolean;
+  /** `<style module>` blocks exist and are imported as `styles` */
+  cssModule?: boolean;
+  /** Custom properties for `v-bind()` in styles, set via `useCssVars()` */
+  cssVars?: CssVar[];
+  /** Vue 2 mode: `$listeners` comes from the setup context */
+  vue2?: boolean;
+  /** Statements plugins added to the top of setup() */
+  setupStatements?: string[];
+  /** Identifiers the project auto-imports, which are left without an import */
+  autoImports?: Record<string, RegistryImport>;
+  /** Give the project's auto-imports explicit imports too */
+  explicitAutoImports?: boolean;
+}
+
+/**
+ * Build the `useCssVars()` call that sets the custom properties `v-bind()` in styles was
+ * replaced with. Returns null when there are none.
+ */
+function cssVarsStatement(cssVars: CssVar[] | undefined): string | null {
+  if (!cssVars || cssVars.length === 0) return null;
+  const entries = cssVars.map((v) => `  '${v.name}': ${v.expression},`);
+  return ["useCssVars(() => ({", ...entries, "}))"].join("\n");
+}
 
 /** Runtime helper for v-for that handles arrays, objects, and numbers */
 const RENDER_LIST_HELPER = `function _renderList(source: any, renderItem: (...args: any[]) => any): any[] {
@@ -222,14 +268,14 @@ export function scriptToDefineComponent(
   jsxBody: string,
   additionalImports: ImportInfo[] = [],
   usedContextMembers: Set<string> = new Set(),
-  options: { hasVFor?: boolean } = {},
+  options: DefineComponentOptions = {},
 ): string {
   if (parsed.scriptSetup) {
     return fromScriptSetup(parsed, jsxBody, additionalImports, usedContextMembers, options);
   }
 
   if (parsed.script) {
-    return fromRegularScript(parsed, jsxBody, additionalImports, options);
+    return fromRegularScript(parsed, jsxBody, additionalImports, usedContextMembers, options);
   }
 
   // No script at all - create a minimal functional component
@@ -246,6 +292,15 @@ export function scriptToDefineComponent(
     lines.push(indentStr(RENDER_LIST_HELPER, 4));
     lines.push("");
   }
+  if (options.setupStatements?.length) {
+    lines.push(indentStr(options.setupStatements.join("\n"), 4));
+    lines.push("");
+  }
+  const cssVars = cssVarsStatement(options.cssVars);
+  if (cssVars) {
+    lines.push(indentStr(cssVars, 4));
+    lines.push("");
+  }
   lines.push("    return () => (");
   lines.push(indentStr(ensureValidJsxReturn(jsxBody), 6));
   lines.push("    )");
@@ -260,17 +315,33 @@ function fromScriptSetup(
   jsxBody: string,
   additionalImports: ImportInfo[],
   usedContextMembers: Set<string> = new Set(),
-  options: { hasVFor?: boolean } = {},
+  options: DefineComponentOptions = {},
 ): string {
   const macros = extractMacros(parsed.scriptSetup!.content, parsed.scriptSetup!.lang);
 
+  // useCssModule() / useCssModule('name') → the imported CSS Modules object
+  if (options.cssModule) {
+    macros.body = macros.body.replace(/\buseCssModule\(\s*(?:(['"])[\w$-]*\1)?\s*\)/g, "styles");
+  }
+
   // Detect auto-imported APIs (e.g., ref, computed used without explicit import)
-  // Include runtime props/emits strings since they may reference PropType etc.
+  // Include runtime props/emits strings since they may reference PropType etc., and the
+  // module-scope page macros (definePageMeta is an auto-import in Nuxt)
   const extraScanSources = [
     macros.props?.runtime ?? '',
     macros.emits?.runtime ?? '',
+    ...macros.moduleMacros,
   ].filter(Boolean).join('\n');
-  const autoImported = detectAutoImports(macros.body + '\n' + extraScanSources, jsxBody, macros.imports);
+  const autoImported = detectAutoImports(
+    macros.body + '\n' + extraScanSources,
+    jsxBody,
+    macros.imports,
+    {
+      autoImports: options.autoImports,
+      explicit: options.explicitAutoImports,
+      declared: detectLocalIdentifiers(macros.body),
+    },
+  );
 
   // Build imports
   const allImports = [...macros.imports, ...autoImported];
@@ -287,6 +358,9 @@ function fromScriptSetup(
     "defineModel",
     "withDefaults",
   ]);
+  if (options.cssModule) {
+    vueMacroNames.add("useCssModule");
+  }
   for (const imp of merged) {
     if (imp.source === "vue") {
       imp.namedImports = imp.namedImports.filter((n) => !vueMacroNames.has(n.imported));
@@ -339,6 +413,7 @@ function fromScriptSetup(
   if (hasEmits || usedContextMembers.has("emit")) ctxParts.push("emit");
   if (macros.expose) ctxParts.push("expose");
   if (usedContextMembers.has("attrs")) ctxParts.push("attrs");
+  if (usedContextMembers.has("listeners")) ctxParts.push("listeners");
 
   // Build the setup function signature
   let setupSig: string;
@@ -361,6 +436,10 @@ function fromScriptSetup(
     bodyLines.push(RENDER_LIST_HELPER);
     bodyLines.push("");
   }
+  if (options.setupStatements?.length) {
+    bodyLines.push(options.setupStatements.join("\n"));
+    bodyLines.push("");
+  }
 
   // Generate computed get/set for each defineModel
   for (const model of macros.models) {
@@ -373,7 +452,13 @@ function fromScriptSetup(
   }
 
   if (macros.body) {
-    bodyLines.push(macros.body);
+    // Mark body lines with their original .vue lines for source map generation
+    const blockLine = parsed.scriptSetup!.line;
+    bodyLines.push(
+      options.sourceMap && blockLine
+        ? markLines(macros.body, macros.bodyLineOrigins, blockLine)
+        : macros.body,
+    );
   }
 
   // Emit expose() call if defineExpose was used
@@ -381,6 +466,12 @@ function fromScriptSetup(
     bodyLines.push(`\nexpose(${macros.expose.runtime})`);
   }
 
+  // Set custom properties for v-bind() in styles
+  const cssVars = cssVarsStatement(options.cssVars);
+  if (cssVars) {
+    bodyLines.push(`\n${cssVars}`);
+  }
+
   bodyLines.push("");
   bodyLines.push("return () => (");
   bodyLines.push(indentStr(ensureValidJsxReturn(jsxBody), 2));
@@ -404,6 +495,12 @@ function fromScriptSetup(
     lines.push("");
   }
 
+  // Page macros like definePageMeta() run at module scope
+  if (macros.moduleMacros.length > 0) {
+    lines.push(macros.moduleMacros.join("\n"));
+    lines.push("");
+  }
+
   lines.push("export default defineComponent({");
   for (const opt of componentOptions) {
     lines.push(opt);
@@ -426,8 +523,16 @@ function fromRegularScript(
   parsed: ParsedSFC,
   jsxBody: string,
   additionalImports: ImportInfo[],
-  options: { hasVFor?: boolean } = {},
+  usedContextMembers: Set<string> = new Set(),
+  options: DefineComponentOptions = {},
 ): string {
+  const converted = convertOptionsApi(parsed.script!.content, parsed.script!.lang, {
+    vue2: options.vue2,
+  });
+  if (converted) {
+    return fromOptionsApi(converted, jsxBody, additionalImports, usedContextMembers, options);
+  }
+
   const content = parsed.script!.content.trim();
 
   // Try to find `export default { ... }` and wrap it
@@ -471,6 +576,15 @@ function fromRegularScript(
     lines.push(indentStr(RENDER_LIST_HELPER, 4));
     lines.push("");
   }
+  if (options.setupStatements?.length) {
+    lines.push(indentStr(options.setupStatements.join("\n"), 4));
+    lines.push("");
+  }
+  const cssVars = cssVarsStatement(options.cssVars);
+  if (cssVars) {
+    lines.push(indentStr(cssVars, 4));
+    lines.push("");
+  }
   lines.push("    return () => (");
   lines.push(indentStr(ensureValidJsxReturn(jsxBody), 6));
   lines.push("    )");
@@ -479,3 +593,84 @@ function fromRegularScript(
 
   return lines.join("\n");
 }
+
+/**
+ * Build a Composition API defineComponent from a converted Options API script.
+ */
+function fromOptionsApi(
+  converted: OptionsApiResult,
+  jsxBody: string,
+  additionalImports: ImportInfo[],
+  usedContextMembers: Set<string>,
+  options: DefineComponentOptions = {},
+): string {
+  const allImports = [...converted.imports];
+  for (const name of converted.vueImports) {
+    addVueImport(allImports, name);
+  }
+  addVueImport(allImports, "defineComponent");
+  const merged = mergeImports(allImports, additionalImports);
+
+  // Determine setup parameters
+  const used = new Set([...usedContextMembers, ...converted.usedContextMembers]);
+  const ctxParts: string[] = [];
+  if (used.has("slots")) ctxParts.push("slots");
+  if (used.has("emit")) ctxParts.push("emit");
+  if (used.has("expose")) ctxParts.push("expose");
+  if (used.has("attrs")) ctxParts.push("attrs");
+  if (used.has("listeners")) ctxParts.push("listeners");
+
+  const propsParam = converted.hasProps ? "props" : "_props";
+  let setupSig: string;
+  if (ctxParts.length > 0) {
+    setupSig = `setup(${propsParam}, { ${ctxParts.join(", ")} })`;
+  } else if (converted.hasProps) {
+    setupSig = "setup(props)";
+  } else {
+    setupSig = "setup()";
+  }
+
+  // Build setup body
+  const bodyLines: string[] = [];
+  if (options.hasVFor) {
+    bodyLines.push(RENDER_LIST_HELPER);
+    bodyLines.push("");
+  }
+  if (options.setupStatements?.length) {
+    bodyLines.push(options.setupStatements.join("\n"));
+    bodyLines.push("");
+  }
+  if (converted.setupBody) {
+    bodyLines.push(converted.setupBody);
+    bodyLines.push("");
+  }
+  const cssVars = cssVarsStatement(options.cssVars);
+  if (cssVars) {
+    bodyLines.push(cssVars);
+    bodyLines.push("");
+  }
+  bodyLines.push("return () => (");
+  bodyLines.push(indentStr(ensureValidJsxReturn(jsxBody), 2));
+  bodyLines.push(")");
+
+  const lines: string[] = [];
+  const importStr = generateImportStatements(merged);
+  if (importStr) {
+    lines.push(importStr);
+  }
+  if (converted.preamble) {
+    lines.push("");
+    lines.push(converted.preamble);
+  }
+  lines.push("");
+  lines.push("export default defineComponent({");
+  for (const opt of converted.options) {
+    lines.push(`${indentStr(opt, 2)},`);
+  }
+  lines.push(`  ${setupSig} {`);
+  lines.push(indentStr(bodyLines.join("\n"), 4));
+  lines.push("  }");
+  lines.push("})");
+
+  return lines.join("\n");
+}
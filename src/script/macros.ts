@@ -1,5 +1,6 @@
 import MagicString from "magic-string";
-import type { ExtractedMacros, ImportInfo, ModelMacro, PropInfo } from "../types";
+import type { ExtractedMacros, ImportInfo, ModelMacro, PluginMacroCall, PropInfo } from "../types";
+import { lineOrigins } from "../sourcemap";
 
 /**
  * Match balanced content starting from a given character (e.g. `<` / `>` or `(` / `)`).
@@ -207,6 +208,51 @@ function findMacro(
   return null;
 }
 
+/**
+ * Replace calls to the given functions (`name(...)` or `name<T>(...)`) with the code their
+ * handler returns. Member calls (`obj.name()`) are left alone, as are calls whose handler
+ * returns undefined. Used for plugin-defined script macros.
+ */
+export function replaceMacroCalls(
+  content: string,
+  handlers: Record<string, (call: PluginMacroCall) => string | void>,
+): string {
+  const names = Object.keys(handlers);
+  if (names.length === 0) return content;
+
+  const escaped = names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const re = new RegExp(`(?<![\\w$.])(${escaped.join("|")})(?=[<(])`, "g");
+  const s = new MagicString(content);
+  let lastEnd = 0;
+
+  for (const m of content.matchAll(re)) {
+    // Calls nested in an already replaced call are part of its source
+    if (m.index < lastEnd) continue;
+    const name = m[1]!;
+    let pos = m.index + name.length;
+
+    let typeArgs: string | undefined;
+    if (content[pos] === "<") {
+      const balanced = matchBalanced(content, pos, "<", ">");
+      if (!balanced) continue;
+      typeArgs = balanced.content;
+      pos = balanced.end + 1;
+    }
+    const args = matchBalanced(content, pos, "(", ")");
+    if (!args) continue;
+
+    const end = args.end + 1;
+    const source = content.slice(m.index, end);
+    const replacement = handlers[name]!({ name, typeArgs, args: args.content.trim(), source });
+    if (replacement === undefined) continue;
+    if (replacement) s.overwrite(m.index, end, replacement);
+    else s.remove(m.index, end);
+    lastEnd = end;
+  }
+
+  return s.toString();
+}
+
 /**
  * Find withDefaults(defineProps<T>(), { ... }) pattern.
  */
@@ -343,6 +389,9 @@ function findDefineModels(content: string): { start: number; end: number; model:
   return results;
 }
 
+/** Nuxt macros that must be called at module scope */
+const MODULE_MACROS = ["definePageMeta", "defineRouteRules"];
+
 /**
  * Extract Vue macros and imports from script setup content.
  */
@@ -357,9 +406,11 @@ export function extractMacros(scriptContent: string, _lang?: string): ExtractedM
     options: null,
     models: [],
     body: "",
+    bodyLineOrigins: [],
     imports: [],
     rawImports: [],
     rawExports: [],
+    moduleMacros: [],
   };
 
   // Extract imports first
@@ -420,6 +471,15 @@ export function extractMacros(scriptContent: string, _lang?: string): ExtractedM
     s.remove(dopt.start, dopt.end);
   }
 
+  // Page macros are read from module scope at build time, so they can't stay in setup()
+  for (const name of MODULE_MACROS) {
+    const macro = findMacro(scriptContent, name);
+    if (macro) {
+      result.moduleMacros.push(scriptContent.slice(macro.start, macro.end).trim());
+      s.remove(macro.start, macro.end);
+    }
+  }
+
   // Extract defineModel (can appear multiple times)
   const models = findDefineModels(scriptContent);
   for (const { start, end, model } of models) {
@@ -510,16 +570,27 @@ export function extractMacros(scriptContent: string, _lang?: string): ExtractedM
   }
 
   // Remove extracted side-effect imports and exports from body using a new MagicString
+  let s2: MagicString | null = null;
+  let untrimmed = currentBody;
   if (sideEffectRanges.length > 0 || exportRanges.length > 0) {
-    const s2 = new MagicString(currentBody);
+    s2 = new MagicString(currentBody);
     for (const [start, end] of [...sideEffectRanges, ...exportRanges]) {
       s2.remove(start, end);
     }
-    result.body = s2.toString().trim();
-  } else {
-    // Clean up remaining body
-    result.body = currentBody.trim();
+    untrimmed = s2.toString();
   }
+  // Clean up remaining body
+  result.body = untrimmed.trim();
+
+  // Map each body line back through both MagicStrings to its line in the script content
+  const outer = lineOrigins(s);
+  const inner = s2 ? lineOrigins(s2) : outer.map((_, i) => i);
+  const leadingLines =
+    untrimmed.slice(0, untrimmed.length - untrimmed.trimStart().length).split("\n").length - 1;
+  result.bodyLineOrigins = result.body.split("\n").map((_, i) => {
+    const line = inner[i + leadingLines] ?? -1;
+    return line >= 0 ? (outer[line] ?? -1) : -1;
+  });
 
   return result;
 }
@@ -534,6 +605,9 @@ const REF_CREATORS = new Set([
   "shallowComputed",
 ]);
 
+/** Composables returning a plain or reactive object rather than a Ref */
+const NON_REF_COMPOSABLES = new Set(["useRoute", "useRouter", "useI18n"]);
+
 /**
  * Detect variable names that are refs/computed from script setup body.
  * These need `.value` appended when used in JSX (Vue templates auto-unwrap, JSX doesn't).
@@ -547,7 +621,8 @@ export function detectRefIdentifiers(body: string, models: ModelMacro[]): Set<st
   while ((m = re.exec(body)) !== null) {
     const varName = m[1];
     const fnName = m[2];
-    if (REF_CREATORS.has(fnName) || /^use[A-Z]/.test(fnName)) {
+    const composable = /^use[A-Z]/.test(fnName) && !NON_REF_COMPOSABLES.has(fnName);
+    if (REF_CREATORS.has(fnName) || composable) {
       refs.add(varName);
     }
   }
@@ -0,0 +1,969 @@
+import {
+  babelParse,
+  extractIdentifiers,
+  isStaticProperty,
+  MagicString,
+  walkIdentifiers,
+} from "@vue/compiler-sfc";
+import type {
+  BlockStatement,
+  Expression,
+  Identifier,
+  Node,
+  ObjectExpression,
+  ObjectMethod,
+  ObjectProperty,
+  Statement,
+} from "@babel/types";
+import type { ImportInfo, OptionsApiResult } from "../types";
+import { createWarning, type WarningCode } from "../warnings";
+import { indent } from "../template/utils";
+import { detectRefIdentifiers } from "./macros";
+
+/** Options kept verbatim on the defineComponent call */
+const KEPT_OPTIONS = new Set([
+  "name",
+  "components",
+  "directives",
+  "props",
+  "emits",
+  "inheritAttrs",
+  "expose",
+  "mixins",
+  "extends",
+  "model",
+  "compilerOptions",
+]);
+
+/** Options API lifecycle hooks → Composition API equivalents */
+const LIFECYCLE_HOOKS: Record<string, string> = {
+  beforeMount: "onBeforeMount",
+  mounted: "onMounted",
+  beforeUpdate: "onBeforeUpdate",
+  updated: "onUpdated",
+  beforeUnmount: "onBeforeUnmount",
+  beforeDestroy: "onBeforeUnmount",
+  unmounted: "onUnmounted",
+  destroyed: "onUnmounted",
+  activated: "onActivated",
+  deactivated: "onDeactivated",
+  errorCaptured: "onErrorCaptured",
+  serverPrefetch: "onServerPrefetch",
+  renderTracked: "onRenderTracked",
+  renderTriggered: "onRenderTriggered",
+};
+
+/** Instance properties rewritten to setup context members */
+const CONTEXT_PROPERTIES: Record<string, string> = {
+  $emit: "emit",
+  $attrs: "attrs",
+  $slots: "slots",
+};
+
+/** Instance methods rewritten to Vue imports */
+const VUE_INSTANCE_METHODS: Record<string, string> = {
+  $nextTick: "nextTick",
+  $watch: "watch",
+};
+
+/** A function-valued option entry (method, hook, computed getter, watch handler) */
+interface FunctionInfo {
+  async: boolean;
+  params: string;
+  /** Dedented body text: statements for block bodies, an expression otherwise */
+  body: string;
+  expression: boolean;
+  /** Whether the original was an arrow function property */
+  arrow: boolean;
+}
+
+/** Node types that rebind `this` — rewriting stops at their boundary */
+const THIS_BOUNDARIES = new Set([
+  "FunctionExpression",
+  "FunctionDeclaration",
+  "ObjectMethod",
+  "ClassMethod",
+  "ClassPrivateMethod",
+  "ClassProperty",
+]);
+
+/**
+ * Convert an Options API `<script>` (`export default { data, computed, methods, ... }`)
+ * into the pieces of a Composition API `defineComponent` with a `setup()` function.
+ *
+ * - `data()` properties → `const x = ref(...)`
+ * - `computed` → `computed(() => ...)` (or `computed({ get, set })`)
+ * - `methods` → function declarations (and `filters` too with `vue2`, as templates call them)
+ * - `watch` → `watch(source, handler, options)`
+ * - lifecycle hooks → `onMounted(() => ...)` etc. (`created` / `beforeCreate` are inlined)
+ * - `this.x` → `x.value` / `props.x` / `x`, `this.$emit` → `emit`, `this.$refs.x` → `x.value`
+ *   (and `this.$listeners` → `listeners` with `vue2`)
+ *
+ * Returns null if the script has no `export default { ... }` object to convert.
+ */
+export function convertOptionsApi(
+  content: string,
+  lang?: string,
+  options: { vue2?: boolean } = {},
+): OptionsApiResult | null {
+  let program: Statement[];
+  try {
+    program = babelParse(content, {
+      sourceType: "module",
+      plugins: parserPlugins(lang),
+    }).program.body;
+  } catch {
+    return null;
+  }
+
+  const exportDefault = program.find((stmt) => stmt.type === "ExportDefaultDeclaration");
+  const definition = exportDefault ? getComponentObject(exportDefault.declaration as Node) : null;
+  if (!exportDefault || !definition) return null;
+
+  const s = new MagicString(content);
+  const text = (node: Node) => content.slice(node.start!, node.end!);
+  const rewritten = (node: Node) => s.slice(node.start!, node.end!);
+  const warn = (code: WarningCode, node: Node, message: string, fix?: string) => {
+    const loc = node.loc?.start;
+    result.warnings.push(
+      createWarning(code, message, {
+        ...(loc ? { line: loc.line, column: loc.column + 1 } : {}),
+        ...(fix ? { fix } : {}),
+      }),
+    );
+  };
+
+  const result: OptionsApiResult = {
+    options: [],
+    setupBody: "",
+    imports: [],
+    vueImports: [],
+    preamble: "",
+    refIdentifiers: new Set(),
+    propIdentifiers: new Set(),
+    usedContextMembers: new Set(),
+    hasProps: false,
+    warnings: [],
+  };
+  const vueImports = new Set<string>();
+
+  // Module-level imports and other statements
+  const preamble: string[] = [];
+  for (const stmt of program) {
+    if (stmt.type === "ImportDeclaration") {
+      result.imports.push(importInfoFromDeclaration(stmt));
+    } else if (stmt !== exportDefault) {
+      preamble.push(text(stmt));
+    }
+  }
+  result.preamble = preamble.join("\n");
+
+  // Pass 1: collect the names each option contributes to `this`
+  const dataKeys: string[] = [];
+  const computedKeys: string[] = [];
+  const methodKeys: string[] = [];
+  const injectKeys: string[] = [];
+  const setupBindings = new Set<string>();
+  const setupRefs = new Set<string>();
+  const templateRefs = new Set<string>();
+  const entries = new Map<string, ObjectMethod | ObjectProperty>();
+
+  for (const prop of definition.properties) {
+    if (prop.type === "SpreadElement") {
+      warn(
+        "VTT-OPTIONS-SPREAD",
+        prop,
+        `Spread '${text(prop)}' in component options cannot be converted to Composition API.`,
+      );
+      continue;
+    }
+    const key = propertyKey(prop);
+    if (!key) continue;
+    entries.set(key, prop);
+
+    const value = prop.type === "ObjectProperty" ? (prop.value as Node) : null;
+    if (key === "props" && value) {
+      result.hasProps = true;
+      for (const name of collectKeys(value)) result.propIdentifiers.add(name);
+    } else if (key === "data") {
+      const returned = getReturnedObject(prop);
+      if (returned) dataKeys.push(...objectKeys(returned));
+    } else if (key === "computed" && value?.type === "ObjectExpression") {
+      computedKeys.push(...objectKeys(value));
+    } else if (
+      (key === "methods" || (key === "filters" && options.vue2)) &&
+      value?.type === "ObjectExpression"
+    ) {
+      methodKeys.push(...objectKeys(value));
+    } else if (key === "inject" && value) {
+      injectKeys.push(...collectKeys(value));
+    } else if (key === "setup") {
+      const returned = getReturnedObject(prop);
+      if (returned) for (const name of objectKeys(returned)) setupBindings.add(name);
+    }
+  }
+
+  const refs = new Set([...dataKeys, ...computedKeys]);
+  const locals = new Set([...methodKeys, ...injectKeys]);
+  const warned = new Set<string>();
+  const warnOnce = (key: string, node: Node, message: string) => {
+    if (warned.has(key)) return;
+    warned.add(key);
+    warn("VTT-OPTIONS-THIS", node, message);
+  };
+
+  /** Map a `this.<name>` access to its Composition API equivalent */
+  const resolveThisMember = (name: string): string | null => {
+    if (refs.has(name)) return `${name}.value`;
+    if (result.propIdentifiers.has(name)) return `props.${name}`;
+    if (locals.has(name)) return name;
+    if (setupBindings.has(name)) return setupRefs.has(name) ? `${name}.value` : name;
+    if (name === "$props") {
+      result.hasProps = true;
+      return "props";
+    }
+    // Vue 2.7's setup context still carries listeners separately from attrs
+    if (name === "$listeners" && options.vue2) {
+      result.usedContextMembers.add("listeners");
+      return "listeners";
+    }
+    if (CONTEXT_PROPERTIES[name]) {
+      result.usedContextMembers.add(CONTEXT_PROPERTIES[name]);
+      return CONTEXT_PROPERTIES[name];
+    }
+    // CSS module classes come from the `styles` import generated for <style module>
+    if (name === "$style") return "styles";
+    if (VUE_INSTANCE_METHODS[name]) {
+      vueImports.add(VUE_INSTANCE_METHODS[name]);
+      return VUE_INSTANCE_METHODS[name];
+    }
+    return null;
+  };
+
+  /**
+   * Rewrite `this.x` accesses inside a function body or expression. With `throughFunctions`,
+   * `function` expressions are entered too, for wrappers that call them with the caller's
+   * `this` (`debounce(function () { this.save() })`).
+   */
+  const rewriteThis = (root: Node, throughFunctions = false) => {
+    walk(root, (node) => {
+      if (THIS_BOUNDARIES.has(node.type)) {
+        if (!throughFunctions || node.type !== "FunctionExpression") return false;
+      }
+
+      if (node.type === "MemberExpression" || node.type === "OptionalMemberExpression") {
+        // this.$refs.name → name.value
+        const inner = node.object;
+        if (
+          (inner.type === "MemberExpression" || inner.type === "OptionalMemberExpression") &&
+          inner.object.type === "ThisExpression" &&
+          memberName(inner) === "$refs"
+        ) {
+          const refName = memberName(node);
+          if (refName) {
+            templateRefs.add(refName);
+            s.overwrite(node.start!, node.end!, `${refName}.value`);
+            return false;
+          }
+        }
+
+        if (node.object.type !== "ThisExpression") return;
+        const name = memberName(node);
+        if (!name) {
+          warnOnce("this[]", node, `Dynamic 'this[...]' access cannot be converted: ${text(node)}`);
+          return false;
+        }
+        const replacement = resolveThisMember(name);
+        if (replacement) {
+          s.overwrite(node.start!, node.end!, replacement);
+        } else {
+          warnOnce(
+            name,
+            node,
+            `'this.${name}' could not be resolved to a Composition API equivalent. Review it manually.`,
+          );
+        }
+        return false;
+      }
+
+      if (node.type === "ThisExpression") {
+        warnOnce("this", node, "Bare 'this' reference cannot be converted to Composition API.");
+      }
+    });
+  };
+
+  /**
+   * Rename the top-level locals of an inlined hook body that shadow a setup binding the body
+   * also reaches through `this` (`const count = this.count + 1`), which would otherwise read
+   * the local before it is initialized.
+   */
+  const renameShadowedLocals = (prop: Node) => {
+    const body = functionBodyNode(prop);
+    if (body?.type !== "BlockStatement") return;
+    const declared = new Set(topLevelDeclarations(body).map((id) => id.name));
+    if (declared.size === 0) return;
+
+    const reached = new Set<string>();
+    walk(body, (node) => {
+      if (THIS_BOUNDARIES.has(node.type)) return false;
+      if (node.type !== "MemberExpression" && node.type !== "OptionalMemberExpression") return;
+      if (node.object.type !== "ThisExpression") return;
+      const name = memberName(node);
+      const root = name ? /^[\w$]+/.exec(resolveThisMember(name) ?? "")?.[0] : undefined;
+      if (root && declared.has(root)) reached.add(root);
+    });
+    if (reached.size === 0) return;
+
+    const taken = new Set([...refs, ...locals, ...setupBindings, ...text(body).match(/[\w$]+/g)!]);
+    const renames = new Map<string, string>();
+    for (const name of reached) {
+      let local = `${name}Local`;
+      for (let i = 2; taken.has(local); i++) local = `${name}Local${i}`;
+      taken.add(local);
+      renames.set(name, local);
+    }
+    walkIdentifiers(
+      body,
+      (id, parent) => {
+        const local = renames.get(id.name);
+        if (!local || !parent) return;
+        if (
+          (parent.type === "MemberExpression" || parent.type === "OptionalMemberExpression") &&
+          parent.property === id &&
+          !parent.computed
+        ) {
+          return;
+        }
+        if (isStaticProperty(parent) && parent.key === id) return;
+        const shorthand = isStaticProperty(parent) && parent.shorthand;
+        s.overwrite(id.start!, id.end!, shorthand ? `${id.name}: ${local}` : local);
+      },
+      true,
+    );
+  };
+
+  const fn = (prop: Node): FunctionInfo | null => functionInfo(prop, s, rewriteThis);
+
+  // Pass 2: convert each option into setup statements
+  const sections: Record<
+    | "setup"
+    | "inject"
+    | "data"
+    | "computed"
+    | "methods"
+    | "watch"
+    | "provide"
+    | "created"
+    | "hooks",
+    string[]
+  > = {
+    setup: [],
+    inject: [],
+    data: [],
+    computed: [],
+    methods: [],
+    watch: [],
+    provide: [],
+    created: [],
+    hooks: [],
+  };
+
+  // setup() is converted first so its ref bindings are known before rewriting `this`
+  const setupProp = entries.get("setup");
+  if (setupProp) {
+    convertSetupOption(setupProp, sections.setup, setupRefs);
+  }
+
+  for (const [key, prop] of entries) {
+    const value = prop.type === "ObjectProperty" ? (prop.value as Node) : null;
+
+    if (KEPT_OPTIONS.has(key)) {
+      if (key === "mixins" || key === "extends") {
+        warn(
+          "VTT-OPTIONS-KEPT",
+          prop,
+          `Option '${key}' is kept as-is; members it provides are not available as setup() locals.`,
+          key === "mixins"
+            ? "Rewrite the mixin as a composable and call it in setup()."
+            : undefined,
+        );
+      }
+      result.options.push(dedent(text(prop)));
+      continue;
+    }
+
+    // Vue 2 filters are plain functions the template calls, just like methods
+    switch (key === "filters" && options.vue2 ? "methods" : key) {
+      case "setup":
+        break;
+
+      case "data": {
+        const returned = getReturnedObject(prop);
+        if (!returned) {
+          warn(
+            "VTT-OPTIONS-KEPT",
+            prop,
+            "data() does not return an object literal and was kept as a component option.",
+            "Return an object literal from data() so each key can become a ref.",
+          );
+          result.options.push(dedent(text(prop)));
+          break;
+        }
+        // Statements before `return { ... }` are kept
+        const body = functionBodyNode(prop);
+        if (body?.type === "BlockStatement") {
+          for (const stmt of body.body) {
+            if (stmt.type === "ReturnStatement") break;
+            rewriteThis(stmt);
+            sections.data.push(dedent(rewritten(stmt)));
+          }
+        }
+        rewriteThis(returned);
+        for (const entry of returned.properties) {
+          const name = entry.type === "SpreadElement" ? null : propertyKey(entry);
+          if (!name || entry.type !== "ObjectProperty") continue;
+          vueImports.add("ref");
+          sections.data.push(`const ${name} = ref(${dedent(rewritten(entry.value))})`);
+        }
+        break;
+      }
+
+      case "computed": {
+        if (value?.type !== "ObjectExpression") break;
+        for (const entry of value.properties) {
+          if (entry.type === "SpreadElement") {
+            warn(
+              "VTT-OPTIONS-SPREAD",
+              entry,
+              `Computed spread '${text(entry)}' cannot be converted.`,
+            );
+            continue;
+          }
+          const name = propertyKey(entry);
+          if (!name) continue;
+          vueImports.add("computed");
+          const getter = fn(entry);
+          if (getter) {
+            sections.computed.push(`const ${name} = computed(${toArrow(getter)})`);
+            continue;
+          }
+          if (entry.type === "ObjectProperty" && entry.value.type === "ObjectExpression") {
+            const accessors: string[] = [];
+            for (const accessor of entry.value.properties) {
+              if (accessor.type === "SpreadElement") continue;
+              const accessorName = propertyKey(accessor);
+              const accessorFn = fn(accessor);
+              if (accessorName && accessorFn) {
+                accessors.push(`${accessorName}: ${toArrow(accessorFn)}`);
+              }
+            }
+            sections.computed.push(
+              `const ${name} = computed({\n${indent(accessors.join(",\n"), 1)}\n})`,
+            );
+          }
+        }
+        break;
+      }
+
+      case "methods": {
+        if (value?.type !== "ObjectExpression") break;
+        for (const entry of value.properties) {
+          if (entry.type === "SpreadElement") {
+            warn(
+              "VTT-OPTIONS-SPREAD",
+              entry,
+              `Method spread '${text(entry)}' cannot be converted.`,
+            );
+            continue;
+          }
+          const name = propertyKey(entry);
+          const method = fn(entry);
+          if (!name) continue;
+          if (!method) {
+            // e.g. `debounced: debounce(function () { ... }, 300)`
+            if (entry.type === "ObjectProperty") {
+              rewriteThis(entry.value, true);
+              sections.methods.push(`const ${name} = ${dedent(rewritten(entry.value))}`);
+            }
+            continue;
+          }
+          sections.methods.push(
+            method.arrow
+              ? `const ${name} = ${toArrow(method)}`
+              : toFunctionDeclaration(name, method),
+          );
+        }
+        break;
+      }
+
+      case "watch": {
+        if (value?.type !== "ObjectExpression") break;
+        for (const entry of value.properties) {
+          if (entry.type === "SpreadElement") continue;
+          const path = propertyKey(entry);
+          if (!path) continue;
+          vueImports.add("watch");
+          const source = watchSource(path);
+          const handlers =
+            entry.type === "ObjectProperty" && entry.value.type === "ArrayExpression"
+              ? entry.value.elements.filter((el): el is Expression => el != null)
+              : [entry];
+          for (const handler of handlers) {
+            const call = watchCall(source, handler);
+            if (call) sections.watch.push(call);
+          }
+        }
+        break;
+      }
+
+      case "inject": {
+        if (!value) break;
+        vueImports.add("inject");
+        sections.inject.push(...injectStatements(value));
+        break;
+      }
+
+      case "provide": {
+        const provided =
+          getReturnedObject(prop) ?? (value?.type === "ObjectExpression" ? value : null);
+        if (!provided) {
+          warn(
+            "VTT-OPTIONS-PROVIDE",
+            prop,
+            "provide could not be converted: expected an object literal.",
+          );
+          break;
+        }
+        rewriteThis(provided);
+        for (const entry of provided.properties) {
+          if (entry.type !== "ObjectProperty") continue;
+          const providedKey = entry.computed
+            ? rewritten(entry.key)
+            : `'${propertyKey(entry) ?? ""}'`;
+          vueImports.add("provide");
+          sections.provide.push(`provide(${providedKey}, ${dedent(rewritten(entry.value))})`);
+        }
+        break;
+      }
+
+      case "beforeCreate":
+      case "created": {
+        renameShadowedLocals(prop);
+        const hook = fn(prop);
+        if (!hook) break;
+        // A `return` or `var` would leave or leak into setup(), so those bodies run in their
+        // own function; other locals get a block so they cannot clash with data or computed
+        if (hook.async || hasFunctionScopedStatement(prop)) {
+          sections.created.push(`void (${toArrow(hook)})()`);
+        } else if (hasTopLevelDeclaration(prop)) {
+          sections.created.push(block(hook.body));
+        } else {
+          sections.created.push(hook.body);
+        }
+        break;
+      }
+
+      default: {
+        const hookName = LIFECYCLE_HOOKS[key];
+        const hook = hookName ? fn(prop) : null;
+        if (hookName && hook) {
+          vueImports.add(hookName);
+          sections.hooks.push(`${hookName}(${toArrow(hook)})`);
+          break;
+        }
+        warn(
+          "VTT-OPTIONS-KEPT",
+          prop,
+          `Option '${key}' has no Composition API equivalent and was kept as-is.`,
+        );
+        result.options.push(dedent(text(prop)));
+      }
+    }
+  }
+
+  // Template refs accessed via this.$refs become refs of their own
+  const templateRefDecls: string[] = [];
+  for (const name of templateRefs) {
+    if (refs.has(name) || locals.has(name)) continue;
+    vueImports.add("ref");
+    templateRefDecls.push(`const ${name} = ref<any>(null)`);
+    result.refIdentifiers.add(name);
+  }
+
+  for (const name of [...refs, ...setupRefs]) result.refIdentifiers.add(name);
+
+  result.setupBody = [
+    sections.setup.join("\n"),
+    sections.inject.join("\n"),
+    [...sections.data, ...templateRefDecls].join("\n"),
+    sections.computed.join("\n"),
+    sections.methods.join("\n\n"),
+    sections.watch.join("\n"),
+    sections.provide.join("\n"),
+    sections.created.join("\n\n"),
+    sections.hooks.join("\n\n"),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  result.vueImports = [...vueImports];
+
+  return result;
+
+  /** Inline an options-level setup(), dropping its `return { ... }` */
+  function convertSetupOption(
+    prop: ObjectMethod | ObjectProperty,
+    out: string[],
+    setupRefSet: Set<string>,
+  ) {
+    const node = prop.type === "ObjectMethod" ? prop : (prop.value as Node);
+    if (
+      node.type !== "ObjectMethod" &&
+      node.type !== "FunctionExpression" &&
+      node.type !== "ArrowFunctionExpression"
+    ) {
+      return;
+    }
+    const [propsParam, ctxParam] = node.params;
+    if (propsParam?.type === "Identifier") {
+      result.hasProps = true;
+      if (propsParam.name !== "props") out.push(`const ${propsParam.name} = props`);
+    }
+    if (ctxParam?.type === "ObjectPattern") {
+      for (const member of ctxParam.properties) {
+        if (member.type === "ObjectProperty" && member.key.type === "Identifier") {
+          result.usedContextMembers.add(member.key.name);
+        }
+      }
+    } else if (ctxParam?.type === "Identifier") {
+      for (const member of ["attrs", "slots", "emit", "expose"]) {
+        result.usedContextMembers.add(member);
+      }
+      out.push(`const ${ctxParam.name} = { attrs, slots, emit, expose }`);
+    }
+    if (node.body.type !== "BlockStatement") return;
+    const statements = node.body.body.filter(
+      (stmt) => !(stmt.type === "ReturnStatement" && stmt.argument?.type === "ObjectExpression"),
+    );
+    const body = statements.map((stmt) => dedent(text(stmt))).join("\n");
+    for (const name of detectRefIdentifiers(body, [])) setupRefSet.add(name);
+    if (body) out.push(body);
+  }
+
+  /** Build the source argument of watch() for an Options API watch key */
+  function watchSource(path: string): string {
+    const [head, ...rest] = path.split(".");
+    if (rest.length === 0 && refs.has(head)) return head;
+    const resolved = resolveThisMember(head) ?? head;
+    return `() => ${[resolved, ...rest].join(".")}`;
+  }
+
+  function watchCall(source: string, handler: Node): string | null {
+    const handlerFn = fn(handler);
+    if (handlerFn) return `watch(${source}, ${toArrow(handlerFn)})`;
+
+    // 'methodName' or { handler, deep, immediate }
+    const options = handler.type === "ObjectProperty" ? (handler.value as Node) : handler;
+    if (options.type === "StringLiteral") return `watch(${source}, ${options.value})`;
+    if (options.type !== "ObjectExpression") return null;
+
+    let callback: string | null = null;
+    const rest: string[] = [];
+    for (const option of options.properties) {
+      if (option.type === "SpreadElement") continue;
+      if (propertyKey(option) === "handler") {
+        if (option.type === "ObjectProperty" && option.value.type === "StringLiteral") {
+          callback = option.value.value;
+        } else {
+          const optionFn = fn(option);
+          if (optionFn) callback = toArrow(optionFn);
+        }
+      } else {
+        rest.push(text(option));
+      }
+    }
+    if (!callback) return null;
+    const optionsArg = rest.length > 0 ? `, { ${rest.join(", ")} }` : "";
+    return `watch(${source}, ${callback}${optionsArg})`;
+  }
+
+  function injectStatements(value: Node): string[] {
+    const statements: string[] = [];
+    if (value.type === "ArrayExpression") {
+      for (const el of value.elements) {
+        if (el?.type === "StringLiteral") {
+          statements.push(`const ${el.value} = inject('${el.value}')`);
+        }
+      }
+      return statements;
+    }
+    if (value.type !== "ObjectExpression") return statements;
+    for (const entry of value.properties) {
+      if (entry.type !== "ObjectProperty") continue;
+      const local = propertyKey(entry);
+      if (!local) continue;
+      const spec = entry.value;
+      if (spec.type === "StringLiteral") {
+        statements.push(`const ${local} = inject('${spec.value}')`);
+      } else if (spec.type === "ObjectExpression") {
+        let from = `'${local}'`;
+        let defaultValue: string | null = null;
+        for (const option of spec.properties) {
+          if (option.type !== "ObjectProperty") continue;
+          const optionKey = propertyKey(option);
+          if (optionKey === "from") from = text(option.value);
+          if (optionKey === "default") defaultValue = text(option.value);
+        }
+        const args = defaultValue ? `${from}, ${defaultValue}` : from;
+        statements.push(`const ${local} = inject(${args})`);
+      } else {
+        statements.push(`const ${local} = inject(${text(spec)})`);
+      }
+    }
+    return statements;
+  }
+}
+
+function parserPlugins(lang?: string): ("typescript" | "jsx")[] {
+  if (lang === "ts") return ["typescript"];
+  if (lang === "tsx") return ["typescript", "jsx"];
+  return ["jsx"];
+}
+
+/** Unwrap `{ ... }` or `defineComponent({ ... })` from an export default declaration */
+function getComponentObject(node: Node): ObjectExpression | null {
+  if (node.type === "ObjectExpression") return node;
+  if (
+    node.type === "CallExpression" &&
+    node.callee.type === "Identifier" &&
+    node.callee.name === "defineComponent" &&
+    node.arguments[0]?.type === "ObjectExpression"
+  ) {
+    return node.arguments[0];
+  }
+  if (node.type === "TSAsExpression" || node.type === "TSSatisfiesExpression") {
+    return getComponentObject(node.expression);
+  }
+  return null;
+}
+
+function importInfoFromDeclaration(stmt: Node & { type: "ImportDeclaration" }): ImportInfo {
+  const info: ImportInfo = {
+    source: stmt.source.value,
+    namedImports: [],
+    typeOnly: stmt.importKind === "type",
+  };
+  for (const spec of stmt.specifiers) {
+    if (spec.type === "ImportDefaultSpecifier") {
+      info.defaultImport = spec.local.name;
+    } else if (spec.type === "ImportNamespaceSpecifier") {
+      info.namespaceImport = spec.local.name;
+    } else {
+      const imported =
+        spec.imported.type === "Identifier" ? spec.imported.name : spec.imported.value;
+      info.namedImports.push({ imported, local: spec.local.name });
+    }
+  }
+  return info;
+}
+
+/** Static key of an object property or method, or null for computed keys */
+function propertyKey(prop: Node): string | null {
+  if (prop.type !== "ObjectProperty" && prop.type !== "ObjectMethod") return null;
+  if (prop.key.type === "Identifier" && !prop.computed) return prop.key.name;
+  if (prop.key.type === "StringLiteral") return prop.key.value;
+  return null;
+}
+
+function objectKeys(obj: ObjectExpression): string[] {
+  return obj.properties.map(propertyKey).filter((k): k is string => k != null);
+}
+
+/** Keys of an object literal or the strings of an array literal (props / inject) */
+function collectKeys(node: Node): string[] {
+  if (node.type === "ObjectExpression") return objectKeys(node);
+  if (node.type === "ArrayExpression") {
+    return node.elements
+      .filter((el) => el?.type === "StringLiteral")
+      .map((el) => (el as Node & { value: string }).value);
+  }
+  return [];
+}
+
+function memberName(node: Node): string | null {
+  if (node.type !== "MemberExpression" && node.type !== "OptionalMemberExpression") return null;
+  if (!node.computed && node.property.type === "Identifier") return node.property.name;
+  if (node.property.type === "StringLiteral") return node.property.value;
+  return null;
+}
+
+function functionBodyNode(prop: Node): Node | null {
+  if (prop.type === "ObjectMethod") return prop.body;
+  if (prop.type === "ObjectProperty") {
+    const value = prop.value;
+    if (value.type === "FunctionExpression" || value.type === "ArrowFunctionExpression") {
+      return value.body;
+    }
+  }
+  return null;
+}
+
+/** Whether a function option's block body has a `return` or `var` outside any nested function */
+function hasFunctionScopedStatement(prop: Node): boolean {
+  const body = functionBodyNode(prop);
+  if (body?.type !== "BlockStatement") return false;
+  let found = false;
+  walk(body, (node) => {
+    if (found || /Function|Method/.test(node.type)) return false;
+    if (
+      node.type === "ReturnStatement" ||
+      (node.type === "VariableDeclaration" && node.kind === "var")
+    ) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+/** Identifiers declared by the statements of a block (not inside nested blocks) */
+function topLevelDeclarations(body: BlockStatement): Identifier[] {
+  const ids: Identifier[] = [];
+  for (const stmt of body.body) {
+    if (stmt.type === "VariableDeclaration") {
+      for (const decl of stmt.declarations) ids.push(...extractIdentifiers(decl.id));
+    } else if (
+      (stmt.type === "FunctionDeclaration" || stmt.type === "ClassDeclaration") &&
+      stmt.id
+    ) {
+      ids.push(stmt.id);
+    }
+  }
+  return ids;
+}
+
+/** Whether a function option's block body declares a local of its own */
+function hasTopLevelDeclaration(prop: Node): boolean {
+  const body = functionBodyNode(prop);
+  return body?.type === "BlockStatement" && topLevelDeclarations(body).length > 0;
+}
+
+/** Object literal returned from a function option (`data() { return { ... } }`), or the object itself */
+function getReturnedObject(prop: Node): ObjectExpression | null {
+  if (prop.type === "ObjectProperty" && prop.value.type === "ObjectExpression") {
+    return prop.value;
+  }
+  const body = functionBodyNode(prop);
+  if (!body) return null;
+  if (body.type === "ObjectExpression") return body;
+  if (body.type !== "BlockStatement") return null;
+  const ret = body.body.find((stmt) => stmt.type === "ReturnStatement");
+  if (ret?.type === "ReturnStatement" && ret.argument?.type === "ObjectExpression") {
+    return ret.argument;
+  }
+  return null;
+}
+
+/**
+ * Describe a function-valued property, rewriting `this` inside its body.
+ * Returns null if the property is not a function.
+ */
+function functionInfo(
+  prop: Node,
+  s: MagicString,
+  rewriteThis: (root: Node) => void,
+): FunctionInfo | null {
+  let node: Node = prop;
+  if (prop.type === "ObjectProperty") node = prop.value;
+  if (
+    node.type !== "ObjectMethod" &&
+    node.type !== "FunctionExpression" &&
+    node.type !== "ArrowFunctionExpression"
+  ) {
+    return null;
+  }
+
+  for (const param of node.params) rewriteThis(param);
+  rewriteThis(node.body);
+
+  const params =
+    node.params.length > 0
+      ? s.slice(node.params[0].start!, node.params[node.params.length - 1].end!)
+      : "";
+  const arrow = node.type === "ArrowFunctionExpression";
+
+  if (node.body.type !== "BlockStatement") {
+    return {
+      async: node.async,
+      params,
+      body: s.slice(node.body.start!, node.body.end!),
+      expression: true,
+      arrow,
+    };
+  }
+
+  // Collapse `{ return expr }` into an expression body
+  const statements = node.body.body;
+  if (
+    statements.length === 1 &&
+    statements[0].type === "ReturnStatement" &&
+    statements[0].argument
+  ) {
+    const arg = statements[0].argument;
+    let body = dedent(s.slice(arg.start!, arg.end!));
+    if (arg.type === "ObjectExpression") body = `(${body})`;
+    return { async: node.async, params, body, expression: true, arrow };
+  }
+
+  const body = dedent(s.slice(node.body.start! + 1, node.body.end! - 1));
+  return { async: node.async, params, body, expression: false, arrow };
+}
+
+function toArrow(fn: FunctionInfo): string {
+  const prefix = `${fn.async ? "async " : ""}(${fn.params}) => `;
+  if (fn.expression) return prefix + fn.body;
+  return prefix + block(fn.body);
+}
+
+function toFunctionDeclaration(name: string, fn: FunctionInfo): string {
+  const body = fn.expression ? `return ${fn.body}` : fn.body;
+  return `${fn.async ? "async " : ""}function ${name}(${fn.params}) ${block(body)}`;
+}
+
+function block(body: string): string {
+  return body.trim() ? `{\n${indent(body, 1)}\n}` : "{}";
+}
+
+/** Depth-first walk over a Babel AST; return false from the callback to skip children */
+export function walk(node: Node, enter: (node: Node) => boolean | void): void {
+  if (enter(node) === false) return;
+  for (const key of Object.keys(node) as (keyof Node)[]) {
+    if (key === "leadingComments" || key === "trailingComments" || key === "innerComments")
+      continue;
+    const child = node[key] as unknown;
+    if (Array.isArray(child)) {
+      for (const item of child) {
+        if (item && typeof item.type === "string") walk(item, enter);
+      }
+    } else if (child && typeof (child as Node).type === "string") {
+      walk(child as Node, enter);
+    }
+  }
+}
+
+/** Strip leading blank lines and the common indentation of a code snippet */
+function dedent(code: string): string {
+  const lines = code
+    .replace(/^\s*\n/, "")
+    .trimEnd()
+    .split("\n");
+  const firstIndented = /^[ \t]/.test(lines[0]);
+  const measured = (firstIndented ? lines : lines.slice(1)).filter((l) => l.trim());
+  if (measured.length === 0) return lines.join("\n").trim();
+  const min = Math.min(...measured.map((l) => l.match(/^[ \t]*/)![0].length));
+  return lines
+    .map((line, i) =>
+      i === 0 && !firstIndented
+        ? line
+        : line.slice(Math.min(min, line.match(/^[ \t]*/)![0].length)),
+    )
+    .join("\n");
+}
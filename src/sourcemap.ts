@@ -0,0 +1,116 @@
+import { decode } from "@jridgewell/sourcemap-codec";
+import { SourceMap } from "magic-string";
+import type MagicString from "magic-string";
+import type { SourceMapSegment } from "magic-string";
+
+// Private-use characters that never appear in generated code
+const MARKER_START = "\uE000";
+const MARKER_END = "\uE001";
+const MARKER_RE = /\uE000(\d+):(\d+)\uE001/g;
+
+/**
+ * Create a marker recording an original .vue position (1-based line and column).
+ * Markers are embedded in generated code and turned into mappings by buildSourceMap().
+ */
+export function sourceMarker(line: number, column: number): string {
+  return `${MARKER_START}${line}:${column}${MARKER_END}`;
+}
+
+/**
+ * Insert a marker into a generated JSX snippet, just inside its opening `<` or `{`
+ * so checks like `startsWith("<")` on the snippet keep working.
+ */
+export function markJsx(jsx: string, line: number, column: number): string {
+  if (!jsx.startsWith("<") && !jsx.startsWith("{")) return jsx;
+  return jsx[0] + sourceMarker(line, column) + jsx.slice(1);
+}
+
+/**
+ * Prefix each non-empty line of a code block with a marker pointing at its original line.
+ *
+ * @param lineOrigins - For each line, the 0-based line it came from in the block (-1 if unknown)
+ * @param blockLine - 1-based line of the block's first line in the .vue file
+ */
+export function markLines(code: string, lineOrigins: number[], blockLine: number): string {
+  return code
+    .split("\n")
+    .map((line, i) => {
+      const origin = lineOrigins[i] ?? -1;
+      if (!line.trim() || origin < 0) return line;
+      return sourceMarker(blockLine + origin, 1) + line;
+    })
+    .join("\n");
+}
+
+/**
+ * For each line of a MagicString's output, the 0-based original line it starts on (-1 if the
+ * line is entirely generated).
+ */
+export function lineOrigins(s: MagicString): number[] {
+  return s.generateDecodedMap({ hires: false }).mappings.map((segments) => {
+    const first = segments.find((segment) => segment.length >= 4);
+    return first ? first[2]! : -1;
+  });
+}
+
+/** Remove all source markers from generated code */
+export function stripSourceMarkers(code: string): string {
+  return code.replace(MARKER_RE, "");
+}
+
+/**
+ * Strip the markers from generated code and build a v3 source map from their positions.
+ */
+export function buildSourceMap(
+  code: string,
+  options: { file: string; source: string; sourceContent: string },
+): { code: string; map: SourceMap } {
+  const mappings: SourceMapSegment[][] = [];
+  const lines = code.split("\n");
+  const stripped: string[] = [];
+
+  for (const line of lines) {
+    const segments: SourceMapSegment[] = [];
+    let output = "";
+    let last = 0;
+    for (const match of line.matchAll(MARKER_RE)) {
+      output += line.slice(last, match.index);
+      last = match.index! + match[0].length;
+      segments.push([output.length, 0, Number(match[1]) - 1, Number(match[2]) - 1]);
+    }
+    output += line.slice(last);
+    stripped.push(output);
+    mappings.push(segments);
+  }
+
+  const map = new SourceMap({
+    file: options.file,
+    sources: [options.source],
+    sourcesContent: [options.sourceContent],
+    names: [],
+    mappings,
+  });
+
+  return { code: stripped.join("\n"), map };
+}
+
+/**
+ * Find the original position of a generated position (0-based line and column) using the
+ * nearest mapping at or before it. Returns 1-based line and column, or null if nothing before
+ * it is mapped.
+ */
+export function originalPosition(
+  map: { mappings: string },
+  line: number,
+  column: number,
+): { line: number; column: number } | null {
+  const lines = decode(map.mappings);
+  for (let l = Math.min(line, lines.length - 1); l >= 0; l--) {
+    const segments = lines[l]!.filter((segment) => segment.length >= 4);
+    // On the line itself, the last mapping starting at or before the column
+    const before = segments.filter((segment) => l < line || segment[0] <= column);
+    const segment = before.at(-1) ?? (l === line ? segments[0] : undefined);
+    if (segment) return { line: segment[2]! + 1, column: segment[3]! + 1 };
+  }
+  return null;
+}
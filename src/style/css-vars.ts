@@ -0,0 +1,32 @@
+import type { CssVar } from "../types";
+import { getStyleHash } from "./scoped";
+
+/** `v-bind(expr)`, `v-bind('expr')` or `v-bind("expr")` in a style value */
+const V_BIND_RE = /v-bind\(\s*(?:'([^']+)'|"([^"]+)"|([^'"\s)][^)]*?))\s*\)/g;
+
+/**
+ * Replace `v-bind()` expressions in CSS with `var(--<id>-<name>)` custom properties.
+ * Each distinct expression is recorded in `vars` (shared across style blocks), so the
+ * TSX can set the properties from setup state via `useCssVars()`.
+ *
+ * - `color: v-bind(themeColor)` → `color: var(--1a2b3c4d-themeColor)`
+ * - `width: v-bind('props.size')` → `width: var(--1a2b3c4d-props_size)`
+ *
+ * An expression whose name another one already took (`a.b` after `a_b`) gets a hash of
+ * itself appended: `var(--1a2b3c4d-a_b-5e6f7a8b)`.
+ */
+export function extractCssVars(css: string, id: string, vars: Map<string, CssVar>): string {
+  return css.replace(V_BIND_RE, (_, single, double, bare) => {
+    const expression = (single ?? double ?? bare).trim();
+    let cssVar = vars.get(expression);
+    if (!cssVar) {
+      let name = `${id}-${expression.replace(/[^\w-]/g, "_")}`;
+      if ([...vars.values()].some((v) => v.name === name)) {
+        name = `${name}-${getStyleHash(expression)}`;
+      }
+      cssVar = { name, expression };
+      vars.set(expression, cssVar);
+    }
+    return `var(--${cssVar.name})`;
+  });
+}
@@ -1,10 +1,20 @@
-import type { StyleBlock, StyleResult, ClassMap } from "../types";
+import type {
+  StyleBlock,
+  StyleResult,
+  ClassMap,
+  ConvertWarning,
+  CssModuleResult,
+  CssVar,
+} from "../types";
+import { createWarning } from "../warnings";
+import { getStyleHash, scopeCss } from "./scoped";
+import { extractCssVars } from "./css-vars";
 
 /**
  * Process Vue-specific CSS pseudo-selectors into standard CSS.
  * Removes Vue-specific scoping pseudo-selectors.
  */
-function processVuePseudoSelectors(css: string): string {
+function processVuePseudoSelectors(css: string, options: { keepGlobal?: boolean } = {}): string {
   let result = css;
 
   // :deep(selector) → selector
@@ -20,7 +30,9 @@ function processVuePseudoSelectors(css: string): string {
   result = result.replace(/::v-slotted\(([^)]+)\)/g, "$1");
 
   // :global(selector) → selector
-  result = result.replace(/:global\(([^)]+)\)/g, "$1");
+  if (!options.keepGlobal) {
+    result = result.replace(/:global\(([^)]+)\)/g, "$1");
+  }
 
   return result;
 }
@@ -28,43 +40,144 @@ function processVuePseudoSelectors(css: string): string {
 /**
  * Extract and process styles from Vue SFC style blocks.
  * Returns null if there are no style blocks at all.
- * Outputs plain CSS/SCSS files (no CSS modules).
+ * Plain and scoped blocks are combined into a plain CSS/SCSS file. `<style module>` blocks
+ * are combined into a separate CSS Modules file, and their classes populate the classMap.
  * SCSS/Less content is kept as-is — the bundler (Vite) handles compilation.
+ *
+ * When a `scopeId` is given, scoped blocks keep their scoping: selectors are rewritten to
+ * require the scope attribute, which the template walker adds to every rendered element.
+ *
+ * `v-bind()` expressions become `var(--<cssVarsId>-name)` custom properties (the id defaults
+ * to a hash of the component name) and are returned as `cssVars` for the TSX to set.
  */
-export function extractStyles(styles: StyleBlock[], _componentName: string): StyleResult | null {
+export function extractStyles(
+  styles: StyleBlock[],
+  componentName: string,
+  options: { scopeId?: string; cssVarsId?: string } = {},
+): StyleResult | null {
   if (styles.length === 0) return null;
 
-  const warnings: string[] = [];
+  const warnings: ConvertWarning[] = [];
+  const plainBlocks = styles.filter((s) => !s.module);
+  const moduleBlocks = styles.filter((s) => s.module);
 
   // Detect if any blocks are scoped
-  const hasScoped = styles.some((s) => s.scoped);
-  if (hasScoped) {
+  const scopedBlock = plainBlocks.find((s) => s.scoped);
+  if (scopedBlock && !options.scopeId) {
     warnings.push(
-      "Scoped styles detected. The output uses plain CSS (no scoping). " +
-        "Review class usage to ensure styles are applied correctly — LLM review recommended.",
+      createWarning(
+        "VTT-SCOPED-STYLE",
+        "Scoped styles detected. The output uses plain CSS (no scoping). " +
+          "Review class usage to ensure styles are applied correctly — LLM review recommended.",
+        {
+          line: scopedBlock.line,
+          fix: "Convert with preserveScopedStyles (--preserve-scoped) to keep the scoping.",
+        },
+      ),
     );
   }
 
   // Detect preprocessor lang (use first non-undefined lang found)
-  const lang = styles.find((s) => s.lang)?.lang;
+  const lang = plainBlocks.find((s) => s.lang)?.lang;
+
+  // Combine all plain style content (both scoped and non-scoped)
+  let css: string | null = null;
+  if (plainBlocks.length > 0) {
+    css = plainBlocks
+      .map((s) => {
+        const content = s.content.trim();
+        if (s.scoped && options.scopeId) return scopeCss(content, options.scopeId);
+        // Process Vue pseudo-selectors (works on any CSS-like syntax)
+        return processVuePseudoSelectors(content);
+      })
+      .join("\n\n");
+  }
 
-  // Combine all style content (both scoped and non-scoped)
-  const rawCss = styles.map((s) => s.content.trim()).join("\n\n");
+  const cssModule = moduleBlocks.length > 0 ? extractCssModule(moduleBlocks, warnings) : null;
 
-  // Process Vue pseudo-selectors (works on any CSS-like syntax)
-  const css = processVuePseudoSelectors(rawCss);
+  // v-bind() in style values → custom properties set from setup state
+  const cssVarsId = options.cssVarsId ?? getStyleHash(componentName);
+  const vars = new Map<string, CssVar>();
+  if (css) css = extractCssVars(css, cssVarsId, vars);
+  if (cssModule) cssModule.css = extractCssVars(cssModule.css, cssVarsId, vars);
 
-  // No CSS modules — classMap is always empty
+  // Classes defined in a plain block keep their global name, so only module-only classes are mapped
   const classMap: ClassMap = new Map();
+  if (cssModule) {
+    const plainClasses = css ? collectClassNames(css) : new Set<string>();
+    for (const cls of collectClassNames(cssModule.css)) {
+      if (!plainClasses.has(cls)) {
+        classMap.set(cls, moduleClassReference(cls));
+      }
+    }
+  }
+
+  return { css, classMap, lang, cssModule, cssVars: [...vars.values()], warnings };
+}
+
+/**
+ * Combine `<style module>` / `<style module="name">` blocks into one CSS Modules file.
+ * All modules share a single `styles` import, so named modules are merged with `$style`.
+ */
+function extractCssModule(blocks: StyleBlock[], warnings: ConvertWarning[]): CssModuleResult {
+  const names = [
+    ...new Set(blocks.map((s) => (typeof s.module === "string" ? s.module : "$style"))),
+  ];
+  if (names.length > 1) {
+    warnings.push(
+      createWarning(
+        "VTT-CSS-MODULE-MERGE",
+        `Multiple CSS modules (${names.join(", ")}) were merged into a single 'styles' import. ` +
+          "Check for class name collisions between them.",
+        { line: blocks[0]!.line },
+      ),
+    );
+  }
+  const scopedModule = blocks.find((s) => s.scoped);
+  if (scopedModule) {
+    warnings.push(
+      createWarning(
+        "VTT-SCOPED-CSS-MODULE",
+        "Scoped CSS module detected. CSS Modules already scope class names — 'scoped' was dropped.",
+        { line: scopedModule.line },
+      ),
+    );
+  }
+
+  const rawCss = blocks.map((s) => s.content.trim()).join("\n\n");
+  return {
+    // :global() is meaningful in CSS Modules, so it is kept
+    css: processVuePseudoSelectors(rawCss, { keepGlobal: true }),
+    lang: blocks.find((s) => s.lang)?.lang,
+    names,
+  };
+}
+
+/** Collect the class names used in selectors (ignoring `:global(...)` and declaration values) */
+function collectClassNames(css: string): Set<string> {
+  const classes = new Set<string>();
+  const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, "").replace(/(^|\s)\/\/.*$/gm, "$1");
+  for (const [, selector] of withoutComments.matchAll(/([^{};]+)\{/g)) {
+    if (selector!.trim().startsWith("@")) continue;
+    const local = selector!.replace(/:global\([^)]*\)/g, "");
+    for (const [, cls] of local.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g)) {
+      classes.add(cls!);
+    }
+  }
+  return classes;
+}
 
-  return { css, classMap, lang, warnings };
+/** Reference a class on the imported CSS Modules object: `styles.foo` / `styles['foo-bar']` */
+function moduleClassReference(cls: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(cls) ? `styles.${cls}` : `styles['${cls}']`;
 }
 
 /**
  * Get the style filename for a component.
  * Respects the preprocessor lang (scss → .scss, less → .less).
+ * CSS Modules files get the `.module` infix bundlers use to detect them.
  */
-export function getStyleFilename(componentName: string, lang?: string): string {
+export function getStyleFilename(componentName: string, lang?: string, module = false): string {
   const ext = lang ?? "css";
-  return `${componentName}.${ext}`;
+  return module ? `${componentName}.module.${ext}` : `${componentName}.${ext}`;
 }
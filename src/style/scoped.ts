@@ -0,0 +1,310 @@
+import { createHash } from "crypto";
+
+/** Whitespace and comments before a rule's selector */
+const LEADING_COMMENTS = /^(?:\s|\/\*[\s\S]*?\*\/|\/\/[^\n]*\n)*/;
+
+/** At-rules whose blocks contain ordinary style rules that need scoping */
+const NESTING_AT_RULES = new Set(["media", "supports", "layer", "container", "document"]);
+
+/**
+ * Get a stable 8-character hash for a component's styles, used for the scope attribute
+ * and `v-bind()` custom property names. The same key always produces the same hash.
+ */
+export function getStyleHash(key: string): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 8);
+}
+
+/**
+ * Get a stable scope attribute for a component, like the `data-v-xxxxxxxx` Vue's compiler uses.
+ * The same key (file path or component name) always produces the same attribute.
+ */
+export function getScopeId(key: string): string {
+  return `data-v-${getStyleHash(key)}`;
+}
+
+/**
+ * Rewrite the selectors of a scoped style block so they only match elements carrying
+ * the scope attribute.
+ *
+ * - `.a .b` → `.a .b[data-v-x]` (the last compound selector is scoped, before any pseudo)
+ * - `.a :deep(.b)` → `.a[data-v-x] .b` (everything inside `:deep()` is unscoped)
+ * - `:slotted(.s)` → `[data-v-x] .s` (slot content renders inside this component's elements)
+ * - `:global(.g)` → `.g` (the whole selector is left unscoped)
+ *
+ * `@media` / `@supports` blocks are scoped recursively, `@keyframes` / `@font-face` are
+ * copied as-is. Nested SCSS/Less rules are scoped like Vue scopes the compiled CSS: only the
+ * innermost selector gets the attribute (`.a { .b {} }` → `.a .b[data-v-x]`), and the
+ * declarations of a rule holding nested rules move into `&[data-v-x] { ... }`.
+ */
+export function scopeCss(css: string, scopeId: string): string {
+  return scopeBlock(css, `[${scopeId}]`, "root");
+}
+
+/**
+ * Where a block is: the stylesheet (or an at-rule in it), the body of a rule left unscoped
+ * because it holds nested rules, or below a selector already scoped by `:deep()` & co.
+ */
+type BlockContext = "root" | "rule" | "scoped";
+
+/** An SCSS nested property (`font: { family: x }`), which is not a selector */
+const NESTED_PROPERTY = /^[\w-]+\s*:\s*$/;
+
+/** Selectors that place the scope attribute themselves */
+const SCOPE_MARKERS = /:deep\(|::v-deep|:slotted\(|::v-slotted\(|:global\(|>>>|\/deep\//;
+
+function scopeBlock(css: string, attr: string, context: BlockContext): string {
+  let out = "";
+  let pending = "";
+  // Declarations of an unscoped rule, moved into `&[data-v-x] { ... }`
+  let declarations = "";
+  const flush = () => {
+    const core = declarations.trim();
+    if (core) {
+      const before = declarations.match(/^\s*/)![0];
+      const after = declarations.match(/\s*$/)![0];
+      out += `${before}&${attr} { ${core} }${after}`;
+    } else {
+      out += declarations;
+    }
+    declarations = "";
+  };
+  let i = 0;
+
+  while (i < css.length) {
+    const skipped = skipNonCode(css, i);
+    if (skipped > i) {
+      pending += css.slice(i, skipped);
+      i = skipped;
+      continue;
+    }
+
+    const ch = css[i];
+    if (ch === ";") {
+      // SCSS `$vars` and Less `@vars` are block-scoped, so they stay where they are
+      if (context === "rule" && !/^(?:\$|@[\w-]+\s*:)/.test(pending.trim())) {
+        declarations += pending + ch;
+      } else {
+        flush();
+        out += pending + ch;
+      }
+      pending = "";
+      i++;
+    } else if (ch === "{") {
+      const end = findBlockEnd(css, i);
+      const body = css.slice(i + 1, end);
+      if (context === "rule" && NESTED_PROPERTY.test(pending.trim())) {
+        declarations += `${pending}{${body}}`;
+      } else {
+        flush();
+        out += rewriteRule(pending, body, attr, context) + "}";
+      }
+      pending = "";
+      i = end + 1;
+    } else {
+      pending += ch;
+      i++;
+    }
+  }
+
+  if (context === "rule" && pending.trim()) {
+    declarations += pending;
+    pending = "";
+  }
+  flush();
+  return out + pending;
+}
+
+function rewriteRule(prelude: string, body: string, attr: string, context: BlockContext): string {
+  const leading = prelude.match(LEADING_COMMENTS)![0];
+  const trimmed = prelude.slice(leading.length).trim();
+
+  if (trimmed.startsWith("@")) {
+    const name = trimmed.slice(1).match(/^[\w-]+/)?.[0] ?? "";
+    const inner = NESTING_AT_RULES.has(name) ? scopeBlock(body, attr, context) : body;
+    return `${prelude}{${inner}`;
+  }
+
+  // SCSS nested properties (`font: { family: x }`) and interpolations are not selectors
+  if (context === "scoped" || NESTED_PROPERTY.test(trimmed) || trimmed.includes("#{")) {
+    return `${prelude}{${body}`;
+  }
+
+  // The selector of a rule holding nested rules is an ancestor: scoping it would require the
+  // attribute on elements outside the component (`.dark-theme { .btn {} }`)
+  let inner = body;
+  if (hasNestedRules(body)) {
+    if (!SCOPE_MARKERS.test(trimmed)) return `${prelude}{${scopeBlock(body, attr, "rule")}`;
+    inner = scopeBlock(body, attr, "scoped");
+  }
+
+  const selectors = splitTopLevel(prelude.slice(leading.length), ",").map((selector) => {
+    const before = selector.match(/^\s*/)![0];
+    const after = selector.match(/\s*$/)![0];
+    const core = selector.trim();
+    return core ? before + scopeSelector(core, attr) + after : selector;
+  });
+  return `${leading}${selectors.join(",")}{${inner}`;
+}
+
+/** Whether a rule body contains rules of its own, besides declarations and nested properties */
+function hasNestedRules(body: string): boolean {
+  let pending = "";
+  let i = 0;
+  while (i < body.length) {
+    const skipped = skipNonCode(body, i);
+    if (skipped > i) {
+      i = skipped;
+      continue;
+    }
+    const ch = body[i]!;
+    if (ch === "{") {
+      // `#{...}` is an SCSS interpolation
+      if (!pending.endsWith("#") && !NESTED_PROPERTY.test(pending.trim())) return true;
+      i = findBlockEnd(body, i) + 1;
+      pending = "";
+    } else {
+      pending = ch === ";" ? "" : pending + ch;
+      i++;
+    }
+  }
+  return false;
+}
+
+/** Scope a single complex selector */
+function scopeSelector(selector: string, attr: string): string {
+  const global = findPseudoFunction(selector, [":global"]);
+  if (global) return global.inner;
+
+  const deep = findPseudoFunction(selector, ["::v-deep", ":deep", "::v-slotted", ":slotted"]);
+  if (deep) {
+    return `${scopeBefore(deep.before, attr)} ${deep.inner}${deep.after}`;
+  }
+
+  // Legacy deep combinators: `.a >>> .b`, `.a /deep/ .b`, `.a ::v-deep .b`
+  const legacy = selector.match(/\s*(?:>>>|\/deep\/|::v-deep)\s*/);
+  if (legacy) {
+    const after = selector.slice(legacy.index! + legacy[0].length);
+    return `${scopeBefore(selector.slice(0, legacy.index), attr)} ${after}`;
+  }
+
+  return scopeLastCompound(selector, attr);
+}
+
+/** Scope the part of a selector before an unscoped section, keeping a trailing combinator */
+function scopeBefore(before: string, attr: string): string {
+  const trimmed = before.trimEnd();
+  const combinator = trimmed.match(/\s*([>+~])$/);
+  const compound = combinator ? trimmed.slice(0, combinator.index) : trimmed;
+  const scoped = compound ? scopeLastCompound(compound, attr) : attr;
+  return combinator ? `${scoped} ${combinator[1]}` : scoped;
+}
+
+/** Insert the scope attribute into the last compound selector, before any pseudo-class/element */
+function scopeLastCompound(selector: string, attr: string): string {
+  let depth = 0;
+  let compoundStart = 0;
+  let pseudoStart = -1;
+
+  for (let i = 0; i < selector.length; i++) {
+    const ch = selector[i]!;
+    if (ch === "(" || ch === "[") depth++;
+    else if (ch === ")" || ch === "]") depth--;
+    else if (depth === 0 && /[\s>+~]/.test(ch)) {
+      compoundStart = i + 1;
+      pseudoStart = -1;
+    } else if (depth === 0 && ch === ":" && pseudoStart === -1) {
+      pseudoStart = i;
+    }
+  }
+
+  const insertAt = pseudoStart === -1 ? selector.length : pseudoStart;
+  const base = selector.slice(compoundStart, insertAt);
+  // `*` is replaced by the attribute, like Vue does
+  if (base === "*") {
+    return selector.slice(0, compoundStart) + attr + selector.slice(insertAt);
+  }
+  return selector.slice(0, insertAt) + attr + selector.slice(insertAt);
+}
+
+/** Find the first `name(...)` pseudo function in a selector */
+function findPseudoFunction(
+  selector: string,
+  names: string[],
+): { before: string; inner: string; after: string } | null {
+  for (const name of names) {
+    const start = selector.indexOf(`${name}(`);
+    if (start === -1) continue;
+    const open = start + name.length;
+    let depth = 0;
+    for (let i = open; i < selector.length; i++) {
+      if (selector[i] === "(") depth++;
+      else if (selector[i] === ")" && --depth === 0) {
+        return {
+          before: selector.slice(0, start),
+          inner: selector.slice(open + 1, i).trim(),
+          after: selector.slice(i + 1),
+        };
+      }
+    }
+  }
+  return null;
+}
+
+/** Split on a separator outside parentheses and brackets */
+function splitTopLevel(str: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of str) {
+    if (ch === "(" || ch === "[") depth++;
+    else if (ch === ")" || ch === "]") depth--;
+    if (ch === separator && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** Find the index of the `}` closing the block opened at `open` */
+function findBlockEnd(css: string, open: number): number {
+  let depth = 0;
+  let i = open;
+  while (i < css.length) {
+    const skipped = skipNonCode(css, i);
+    if (skipped > i) {
+      i = skipped;
+      continue;
+    }
+    if (css[i] === "{") depth++;
+    else if (css[i] === "}" && --depth === 0) return i;
+    i++;
+  }
+  return css.length;
+}
+
+/** If a comment or string starts at `i`, return the index after it; otherwise `i` */
+function skipNonCode(css: string, i: number): number {
+  if (css.startsWith("/*", i)) {
+    const end = css.indexOf("*/", i + 2);
+    return end === -1 ? css.length : end + 2;
+  }
+  // SCSS/Less line comments (but not `//` inside `url(http://...)`)
+  if (css.startsWith("//", i) && (i === 0 || /\s/.test(css[i - 1]!))) {
+    const end = css.indexOf("\n", i);
+    return end === -1 ? css.length : end;
+  }
+  const ch = css[i];
+  if (ch === '"' || ch === "'") {
+    let j = i + 1;
+    while (j < css.length && css[j] !== ch) {
+      if (css[j] === "\\") j++;
+      j++;
+    }
+    return j + 1;
+  }
+  return i;
+}
@@ -1,6 +1,13 @@
 import type { ElementNode, AttributeNode, DirectiveNode } from "../types";
 import type { JsxContext } from "../types";
 import { toCamelCase, toJsxEventName, unwrapExpression } from "./utils";
+import {
+  LEGACY_SLOT_ATTRIBUTES,
+  unwrapFilteredExpression,
+  vue2EventAttribute,
+  vue2SyncBinding,
+} from "./vue2";
+import { runAttributePlugins, toAttributeList } from "../plugins";
 
 export interface AttributeResult {
   /** Array of JSX attribute strings (e.g. ['class="foo"', 'onClick={handler}']) */
@@ -24,6 +31,15 @@ export function generateAttributes(node: ElementNode, ctx: JsxContext): Attribut
     if (prop.type === 6) {
       // AttributeNode (static)
       const attrNode = prop as AttributeNode;
+      // Vue 2 `slot` / `slot-scope` are turned into scopedSlots entries by the parent
+      if (ctx.vue2 && LEGACY_SLOT_ATTRIBUTES.has(attrNode.name)) continue;
+      const fromPlugin = pluginAttribute(node, attrNode.name, false, ctx, () => {
+        return attrNode.value?.content ?? null;
+      });
+      if (fromPlugin) {
+        attrs.push(...fromPlugin);
+        continue;
+      }
       // Collect static class separately for merging with dynamic :class
       if (attrNode.name === "class" && attrNode.value?.content != null) {
         staticClass = attrNode.value.content;
@@ -34,9 +50,28 @@ export function generateAttributes(node: ElementNode, ctx: JsxContext): Attribut
     } else if (prop.type === 7) {
       // DirectiveNode
       const directive = prop as DirectiveNode;
+      if (directive.name === "bind" && directive.arg && (directive.arg as any).isStatic) {
+        const fromPlugin = pluginAttribute(node, (directive.arg as any).content, true, ctx, () => {
+          return unwrapFilteredExpression(directive.exp, ctx) || null;
+        });
+        if (fromPlugin) {
+          attrs.push(...fromPlugin);
+          continue;
+        }
+      }
       // Collect dynamic :class separately for merging with static class
       if (directive.name === "bind" && directive.arg && (directive.arg as any).content === "class") {
-        dynamicClass = unwrapExpression(directive.exp, ctx);
+        dynamicClass = unwrapFilteredExpression(directive.exp, ctx);
+        continue;
+      }
+      // Vue 2 `:title.sync="x"` → the prop plus an `update:title` listener
+      if (ctx.vue2 && directive.name === "bind" && directive.arg && hasModifier(directive, "sync")) {
+        const sync = vue2SyncBinding(
+          unwrapExpression(directive.arg as any),
+          unwrapFilteredExpression(directive.exp, ctx),
+        );
+        attrs.push(sync.attr);
+        spreads.push(sync.spread);
         continue;
       }
       const result = generateDirectiveAttribute(directive, ctx);
@@ -71,13 +106,31 @@ export function generateAttributes(node: ElementNode, ctx: JsxContext): Attribut
   return { attrs, spreads };
 }
 
+/**
+ * Let plugins convert an attribute. Returns the JSX attributes to emit, or null if no plugin
+ * handles it. The value is only computed when a handler for the name exists.
+ */
+function pluginAttribute(
+  node: ElementNode,
+  name: string,
+  bound: boolean,
+  ctx: JsxContext,
+  getValue: () => string | null,
+): string[] | null {
+  if (!ctx.plugins?.plugins.some((plugin) => plugin.attributes?.[name])) return null;
+  const result = runAttributePlugins(ctx.plugins, { name, value: getValue(), bound, node });
+  return result === undefined ? null : toAttributeList(result);
+}
+
 function generateMergedClassWithMap(staticValue: string, dynamicExpr: string, ctx: JsxContext): string {
   const staticPart = generateStaticClassAttribute(staticValue, ctx);
   const dynamicPart = generateDynamicClass(dynamicExpr, ctx);
-  // Extract the expressions from class=X format
-  const staticExpr = staticPart.replace(/^class=/, '');
-  const dynamicExprClean = dynamicPart.replace(/^class=/, '');
-  return `class={[${staticExpr}, ${dynamicExprClean}]}`;
+  // Extract the expressions from class=X / class={X} format
+  const toExpr = (attr: string) => {
+    const value = attr.replace(/^class=/, '');
+    return value.startsWith('{') ? value.slice(1, -1) : value;
+  };
+  return `class={[${toExpr(staticPart)}, ${toExpr(dynamicPart)}]}`;
 }
 
 function generateStaticAttribute(prop: AttributeNode, ctx: JsxContext): string | null {
@@ -168,11 +221,12 @@ function generateBindDirective(
   ctx: JsxContext,
 ): { type: "attr" | "spread"; value: string } | null {
   const { arg, exp, modifiers } = directive;
-  const expr = unwrapExpression(exp, ctx);
+  const expr = unwrapFilteredExpression(exp, ctx);
 
-  // v-bind="obj" (no arg) → spread
+  // v-bind="obj" (no arg) → spread (Vue 2 JSX spreads data objects, so attributes go in `attrs`)
   if (!arg) {
-    return expr ? { type: "spread", value: `{...${expr}}` } : null;
+    if (!expr) return null;
+    return { type: "spread", value: ctx.vue2 ? `{...{ attrs: ${expr} }}` : `{...${expr}}` };
   }
 
   const propName = unwrapExpression(arg as any);
@@ -264,11 +318,13 @@ function splitObjectEntries(str: string): string[] {
 function generateOnDirective(
   directive: DirectiveNode,
   ctx: JsxContext,
-): { type: "attr"; value: string } | null {
+): { type: "attr" | "spread"; value: string } | null {
   const { arg, exp } = directive;
   const expr = unwrapExpression(exp, ctx);
   const eventName = arg ? unwrapExpression(arg as any) : "";
 
+  if (ctx.vue2) return generateVue2OnDirective(directive, eventName, expr);
+
   if (!eventName) return null;
 
   const jsxName = toJsxEventName(eventName);
@@ -288,6 +344,26 @@ function generateOnDirective(
   return { type: "attr", value: `${jsxName}={($event) => ${expr}}` };
 }
 
+/** Vue 2 listeners use `@vue/babel-preset-jsx` names, with `.native` → `nativeOn` */
+function generateVue2OnDirective(
+  directive: DirectiveNode,
+  eventName: string,
+  expr: string,
+): { type: "attr" | "spread"; value: string } | null {
+  // v-on="$listeners" / v-on="obj" → spread into the `on` data object
+  if (!eventName) return expr ? { type: "spread", value: `{...{ on: ${expr} }}` } : null;
+
+  let handler = "() => {}";
+  if (expr) {
+    handler = isSimpleExpression(expr) || isFunctionExpression(expr) ? expr : `($event) => ${expr}`;
+  }
+  return vue2EventAttribute(eventName, handler, hasModifier(directive, "native"));
+}
+
+function hasModifier(directive: DirectiveNode, name: string): boolean {
+  return directive.modifiers.some((m: any) => (typeof m === "string" ? m : m.content) === name);
+}
+
 /** Check if an expression is a simple identifier or member access (no function call or complex expression) */
 function isSimpleExpression(expr: string): boolean {
   return /^[a-zA-Z_$][\w$.]*$/.test(expr);
@@ -0,0 +1,57 @@
+import type { ElementNode, JsxContext, RegistryImport } from "../types";
+import { toPascalCase, VUE_BUILTINS } from "./utils";
+import { createWarning } from "../warnings";
+
+/** Nuxt's built-in components, which render functions import from `#components` */
+export const NUXT_COMPONENTS: Record<string, RegistryImport> = Object.fromEntries(
+  [
+    "ClientOnly",
+    "DevOnly",
+    "NuxtClientFallback",
+    "NuxtErrorBoundary",
+    "NuxtIsland",
+    "NuxtLayout",
+    "NuxtLink",
+    "NuxtLoadingIndicator",
+    "NuxtPage",
+    "NuxtRouteAnnouncer",
+    "NuxtWelcome",
+    "ServerPlaceholder",
+  ].map((name) => [name, { from: "#components", import: name }]),
+);
+
+/**
+ * The tag to render a component with. JSX renders a kebab-case tag as a native custom element,
+ * so kebab-case tags naming a Vue built-in, a component in scope in the script or a global
+ * component are rendered as PascalCase identifiers, and global components are imported.
+ * Unresolved kebab-case tags are kept, with a warning.
+ */
+export function resolveComponentTag(node: ElementNode, ctx: JsxContext): string {
+  const tag = node.tag;
+  // Vue 2's createElement resolves registered components by name at runtime
+  if (ctx.vue2) return tag;
+  const kebab = /^[a-z][\w]*-/.test(tag);
+  if (!kebab && !/^[A-Z]/.test(tag)) return tag;
+
+  const name = kebab ? toPascalCase(tag) : tag;
+  if (VUE_BUILTINS.has(name)) return name;
+  if (ctx.components?.has(name)) {
+    if (ctx.components.get(name)) ctx.usedComponents?.add(name);
+    return name;
+  }
+
+  if (kebab) {
+    ctx.warnings.push(
+      createWarning(
+        "VTT-UNRESOLVED-COMPONENT",
+        `<${tag}> is not imported or registered, so it renders as a native custom element.`,
+        {
+          line: node.loc?.start.line,
+          column: node.loc?.start.column,
+          fix: `Import ${name} in <script>, or add it to the \`components\` registry.`,
+        },
+      ),
+    );
+  }
+  return tag;
+}
@@ -1,5 +1,5 @@
 import type { TemplateChildNode, ElementNode, DirectiveNode, JsxContext } from "../types";
-import { rewriteTemplateGlobals } from "./utils";
+import { rewriteTemplateGlobals, withScope } from "./utils";
 
 // NodeTypes from @vue/compiler-core
 const ELEMENT = 1;
@@ -39,7 +39,9 @@ export function processConditionalChain(
   const ifNode = siblings[startIndex] as ElementNode;
   const ifDir = findDirective(ifNode, "if")!;
   branches.push({
-    condition: ifDir.exp ? rewriteTemplateGlobals((ifDir.exp as any).content, ctx) : "true",
+    condition: ifDir.exp
+      ? rewriteTemplateGlobals((ifDir.exp as any).content, ctx, ifDir.exp.loc)
+      : "true",
     node: ifNode,
   });
 
@@ -64,7 +66,7 @@ export function processConditionalChain(
     if (elseIfDir) {
       branches.push({
         condition: elseIfDir.exp
-          ? rewriteTemplateGlobals((elseIfDir.exp as any).content, ctx)
+          ? rewriteTemplateGlobals((elseIfDir.exp as any).content, ctx, elseIfDir.exp.loc)
           : "true",
         node: sibling as ElementNode,
       });
@@ -145,8 +147,10 @@ export function processVFor(
   renderElement: (node: ElementNode, ctx: JsxContext) => string,
 ): string {
   const forDir = findDirective(node, "for")!;
-  const expr = forDir.exp ? rewriteTemplateGlobals((forDir.exp as any).content, ctx) : "";
-  const { iterator, iterable } = parseVForExpression(expr);
+  // Only the source is an expression — the aliases are bindings and must not be rewritten
+  const parsed = parseVForExpression(forDir.exp ? (forDir.exp as any).content : "");
+  const iterator = parsed.iterator;
+  const iterable = rewriteTemplateGlobals(parsed.iterable, ctx, forDir.exp?.loc);
 
   // Check for :key binding
   const keyDir = node.props.find(
@@ -161,15 +165,15 @@ export function processVFor(
   // Check for v-if on same element
   const ifDir = findDirective(node, "if");
 
-  const rendered = renderElement(node, ctx);
-
-  let body: string;
-  if (ifDir) {
-    const condition = ifDir.exp ? rewriteTemplateGlobals((ifDir.exp as any).content, ctx) : "true";
-    body = `${condition} ? ${rendered} : null`;
-  } else {
-    body = rendered;
-  }
+  // The element (and a v-if on it) is evaluated once per item, with the aliases in scope
+  const body = withScope(ctx, iterator, () => {
+    const rendered = renderElement(node, ctx);
+    if (!ifDir) return rendered;
+    const condition = ifDir.exp
+      ? rewriteTemplateGlobals((ifDir.exp as any).content, ctx, ifDir.exp.loc)
+      : "true";
+    return `${condition} ? ${rendered} : null`;
+  });
 
   const arrowParams = iterator.startsWith("(") ? iterator : `(${iterator})`;
 
@@ -1,11 +1,18 @@
 import type { DirectiveNode, ElementNode, JsxContext } from "../types";
-import { rewriteTemplateGlobals } from "./utils";
+import { rewriteTemplateGlobals, toPascalCase } from "./utils";
+import { lowerVModel, shouldLowerVModel } from "./model";
+import { runDirectivePlugins, toAttributeList } from "../plugins";
+import { createWarning } from "../warnings";
 
 export interface DirectiveResult {
   /** JSX attribute name (if converted to an attribute) */
   attr?: string;
   /** JSX attribute value expression (if converted to an attribute) */
   value?: string;
+  /** Complete JSX attribute strings (if converted to several attributes, e.g. lowered v-model) */
+  attrs?: string[];
+  /** A custom directive to apply with `withDirectives` */
+  directive?: AppliedDirective;
   /** Whether this directive needs LLM fallback */
   fallback?: boolean;
   /** Whether to skip processing children (v-pre) */
@@ -14,6 +21,14 @@ export interface DirectiveResult {
   omit?: boolean;
 }
 
+/** A custom directive applied to an element */
+export interface AppliedDirective {
+  /** Identifier of the directive object (e.g. `vFocus`) */
+  local: string;
+  /** Its `withDirectives` entry: `[dir, value, arg, modifiers]` */
+  entry: string;
+}
+
 /**
  * Process a Vue directive into its JSX equivalent.
  */
@@ -25,7 +40,7 @@ export function processDirective(
   const name = dir.name;
   const arg = dir.arg ? (dir.arg as any).content : undefined;
   const rawExp = dir.exp ? (dir.exp as any).content : undefined;
-  const exp = rawExp ? rewriteTemplateGlobals(rawExp, ctx) : undefined;
+  const exp = rawExp ? rewriteTemplateGlobals(rawExp, ctx, dir.exp?.loc) : undefined;
   const modifiers = dir.modifiers.map((m: any) => (typeof m === "string" ? m : m.content));
 
   switch (name) {
@@ -33,6 +48,10 @@ export function processDirective(
       return { attr: "v-show", value: exp ?? "true" };
 
     case "model": {
+      if (!arg && exp && shouldLowerVModel(node, ctx)) {
+        return { attrs: lowerVModel(node, exp, modifiers, ctx) };
+      }
+      if (ctx.vue2) return processVue2Model(arg, exp, modifiers, node, ctx);
       const argSuffix = arg ? `:${arg}` : "";
       if (modifiers.length > 0) {
         const modList = modifiers.map((m) => `'${m}'`).join(", ");
@@ -45,10 +64,10 @@ export function processDirective(
     }
 
     case "html":
-      return { attr: "innerHTML", value: exp ?? "''" };
+      return { attr: ctx.vue2 ? "domPropsInnerHTML" : "innerHTML", value: exp ?? "''" };
 
     case "text":
-      return { attr: "textContent", value: exp ?? "''" };
+      return { attr: ctx.vue2 ? "domPropsTextContent" : "textContent", value: exp ?? "''" };
 
     case "pre":
       return { skipChildren: true };
@@ -58,6 +77,19 @@ export function processDirective(
 
     case "memo":
     default: {
+      // Custom directives handled by a plugin
+      const handled = ctx.plugins
+        ? runDirectivePlugins(ctx.plugins, { name, arg, modifiers, exp, node })
+        : undefined;
+      if (handled === false) return { omit: true };
+      if (handled !== undefined) return { attrs: toAttributeList(handled) };
+
+      // Custom directives bound in <script setup> or registered globally
+      const local = directiveIdentifier(name);
+      if (name !== "memo" && !ctx.vue2 && ctx.directives?.has(local)) {
+        return { directive: { local, entry: directiveEntry(local, dir, exp, modifiers, ctx) } };
+      }
+
       // Custom directives or unsupported directives -> fallback
       const source = buildDirectiveSource(dir);
       ctx.fallbacks.push({
@@ -71,6 +103,63 @@ export function processDirective(
   }
 }
 
+/**
+ * Identifier a custom directive is bound to in `<script setup>`: `v-click-outside` → `vClickOutside`
+ */
+export function directiveIdentifier(name: string): string {
+  return `v${toPascalCase(name)}`;
+}
+
+/** `[dir, value, arg, modifiers]`, without trailing empty elements */
+function directiveEntry(
+  local: string,
+  dir: DirectiveNode,
+  exp: string | undefined,
+  modifiers: string[],
+  ctx: JsxContext,
+): string {
+  let arg: string | undefined;
+  if (dir.arg) {
+    const { content, isStatic, loc } = dir.arg as any;
+    arg = isStatic ? `'${content}'` : rewriteTemplateGlobals(content, ctx, loc);
+  }
+  const entry = [local, exp ?? "undefined", arg ?? "undefined"];
+  if (modifiers.length > 0) {
+    const keys = modifiers.map((m) => (/^[A-Za-z_$][\w$]*$/.test(m) ? m : `'${m}'`));
+    entry.push(`{ ${keys.map((key) => `${key}: true`).join(", ")} }`);
+  }
+  while (entry.length > 1 && entry.at(-1) === "undefined") entry.pop();
+  return `[${entry.join(", ")}]`;
+}
+
+/**
+ * Vue 2 v-model uses the `@vue/babel-sugar-v-model` syntax: modifiers are appended to the
+ * attribute name (`v-model_trim={x}`). Components map it through their `model` option at runtime.
+ */
+function processVue2Model(
+  arg: string | undefined,
+  exp: string | undefined,
+  modifiers: string[],
+  node: ElementNode,
+  ctx: JsxContext,
+): DirectiveResult {
+  if (arg) {
+    ctx.warnings.push(
+      createWarning(
+        "VTT-VUE2-MODEL-ARG",
+        `v-model:${arg} is not supported in Vue 2; use :${arg}.sync instead.`,
+        {
+          line: node.loc?.start.line,
+          column: node.loc?.start.column,
+          fix: `Bind :${arg}.sync and have the child emit 'update:${arg}'.`,
+        },
+      ),
+    );
+  }
+  const suffix = modifiers.map((m) => `_${m}`).join("");
+  return { attr: `v-model${suffix}`, value: exp ?? "undefined" };
+}
+
 function buildDirectiveSource(dir: DirectiveNode): string {
   const arg = dir.arg ? `:${(dir.arg as any).content}` : "";
   const modifiers = dir.modifiers
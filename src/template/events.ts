@@ -57,7 +57,7 @@ const NATIVE_MODIFIERS = new Set(["capture", "once", "passive"]);
 export function processEvent(dir: DirectiveNode, ctx: JsxContext): { name: string; value: string } {
   const eventName = dir.arg ? (dir.arg as any).content : "";
   const rawHandler = dir.exp ? (dir.exp as any).content : "";
-  const handler = rawHandler ? rewriteTemplateGlobals(rawHandler, ctx) : "";
+  const handler = rawHandler ? rewriteTemplateGlobals(rawHandler, ctx, dir.exp?.loc) : "";
   // Modifiers in the raw AST are SimpleExpressionNode objects with .content
   const modifiers = dir.modifiers.map((m: any) => (typeof m === "string" ? m : m.content));
 
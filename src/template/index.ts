@@ -25,6 +25,9 @@ export function templateToJsx(ast: RootNode, ctx: JsxContext): string {
     return `<>${trimmed}</>`;
   }
 
+  // A root element with custom directives is a withDirectives() call rather than a JSX child
+  if (trimmed.startsWith("{withDirectives(")) return trimmed.slice(1, -1);
+
   return trimmed;
 }
 
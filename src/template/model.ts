@@ -0,0 +1,146 @@
+import type { AttributeNode, DirectiveNode, ElementNode, JsxContext } from "../types";
+import { isComponent, unwrapExpression } from "./utils";
+
+/** Native form elements whose v-model can be lowered to explicit bindings */
+const NATIVE_MODEL_TAGS = new Set(["input", "select", "textarea"]);
+
+/**
+ * Check if v-model on this element should be lowered to value/checked bindings.
+ * Only applies to native form elements when the `lowerVModel` option is enabled.
+ * Dynamic `:type` inputs are left alone since the binding shape depends on the runtime type.
+ */
+export function shouldLowerVModel(node: ElementNode, ctx: JsxContext): boolean {
+  if (!ctx.lowerVModel) return false;
+  if (isComponent(node.tag) || !NATIVE_MODEL_TAGS.has(node.tag)) return false;
+  return !findBinding(node, "type");
+}
+
+/**
+ * Lower a v-model directive on a native element to explicit JSX attributes.
+ *
+ * - `<input v-model="x">` → `value={x} onInput={($event) => (x = $event.target.value)}`
+ * - `<input type="checkbox" v-model="x">` → `checked={x} onChange={...}`, and with a `value`,
+ *   adding it to or removing it from `x` when that is an array or Set
+ * - `<input type="radio" value="a" v-model="x">` → `checked={x === 'a'} onChange={() => (x = 'a')}`
+ * - `<select multiple v-model="x">` → `onChange` collecting `selectedOptions`
+ *
+ * Honours `.lazy` (onChange instead of onInput), `.number` and `.trim`, and checkbox
+ * `true-value` / `false-value`. Returns the attribute strings to add to the element.
+ */
+export function lowerVModel(
+  node: ElementNode,
+  model: string,
+  modifiers: string[],
+  ctx: JsxContext,
+): string[] {
+  const type = getStaticAttr(node, "type");
+
+  if (node.tag === "input" && type === "checkbox") {
+    return lowerCheckbox(node, model, ctx);
+  }
+
+  if (node.tag === "input" && type === "radio") {
+    const value = getValueExpression(node, "value", ctx) ?? "undefined";
+    return [`checked={${model} === ${value}}`, `onChange={() => (${model} = ${value})}`];
+  }
+
+  if (node.tag === "select") {
+    const cast = modifiers.includes("number") ? (v: string) => `Number(${v})` : (v: string) => v;
+    if (hasStaticAttr(node, "multiple")) {
+      // The selection itself is rendered via `selected` on each <option> (see getOptionSelected)
+      const collect = `Array.from(($event.target as HTMLSelectElement).selectedOptions, (o) => ${cast("o.value")})`;
+      return [`onChange={($event) => (${model} = ${collect})}`];
+    }
+    const target = cast("($event.target as HTMLSelectElement).value");
+    return [`value={${model}}`, `onChange={($event) => (${model} = ${target})}`];
+  }
+
+  // Text-like input or textarea
+  const element = node.tag === "textarea" ? "HTMLTextAreaElement" : "HTMLInputElement";
+  let target = `($event.target as ${element}).value`;
+  if (modifiers.includes("trim")) target = `${target}.trim()`;
+  if (modifiers.includes("number") || type === "number") target = `Number(${target})`;
+
+  const event = modifiers.includes("lazy") ? "onChange" : "onInput";
+  return [`value={${model}}`, `${event}={($event) => (${model} = ${target})}`];
+}
+
+function lowerCheckbox(node: ElementNode, model: string, ctx: JsxContext): string[] {
+  const checked = "($event.target as HTMLInputElement).checked";
+  const trueValue = getValueExpression(node, "true-value", ctx);
+  const falseValue = getValueExpression(node, "false-value", ctx);
+
+  // Without an array or Set model, the checkbox binds a boolean or true-value / false-value
+  let isChecked = model;
+  let assigned = checked;
+  if (trueValue || falseValue) {
+    const t = trueValue ?? "true";
+    const f = falseValue ?? "false";
+    isChecked = `${model} === ${t}`;
+    assigned = `${checked} ? ${t} : ${f}`;
+  }
+
+  // With a value, an array or Set model holds the checked values. Which one the model is
+  // is only known at runtime, so branch on it like Vue's vModelCheckbox does
+  const value = getValueExpression(node, "value", ctx);
+  if (value) {
+    const inArray = `${checked} ? [...${model}, ${value}] : ${model}.filter((v) => v !== ${value})`;
+    const inSet = `${checked} ? new Set(${model}).add(${value}) : new Set([...${model}].filter((v) => v !== ${value}))`;
+    const other = trueValue || falseValue ? `(${assigned})` : assigned;
+    isChecked = `Array.isArray(${model}) ? ${model}.includes(${value}) : ${model} instanceof Set ? ${model}.has(${value}) : ${isChecked}`;
+    assigned = `Array.isArray(${model}) ? (${inArray}) : ${model} instanceof Set ? (${inSet}) : ${other}`;
+  }
+
+  return [`checked={${isChecked}}`, `onChange={($event) => (${model} = ${assigned})}`];
+}
+
+/**
+ * Get the `selected` attribute for an `<option>` inside a lowered `<select multiple>`.
+ * Returns null if the option has no value to compare against.
+ */
+export function getOptionSelected(
+  node: ElementNode,
+  model: string,
+  ctx: JsxContext,
+): string | null {
+  const value = getValueExpression(node, "value", ctx);
+  if (!value) return null;
+  return `selected={${model}.includes(${value})}`;
+}
+
+/**
+ * Get the model expression of a lowered `<select multiple v-model="x">`, or null if
+ * the element is not one. Used to thread the model down to its `<option>` children.
+ */
+export function getMultiSelectModel(node: ElementNode, ctx: JsxContext): string | null {
+  if (node.tag !== "select" || !hasStaticAttr(node, "multiple")) return null;
+  if (!shouldLowerVModel(node, ctx)) return null;
+  const dir = node.props.find((p): p is DirectiveNode => p.type === 7 && p.name === "model");
+  if (!dir?.exp) return null;
+  return unwrapExpression(dir.exp as any, ctx);
+}
+
+/** Get a value attribute as a JS expression: static → quoted string, :bound → expression */
+function getValueExpression(node: ElementNode, name: string, ctx: JsxContext): string | null {
+  const binding = findBinding(node, name);
+  if (binding?.exp) return unwrapExpression(binding.exp as any, ctx);
+  const value = getStaticAttr(node, name);
+  if (value == null) return null;
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function findBinding(node: ElementNode, name: string): DirectiveNode | undefined {
+  return node.props.find(
+    (p): p is DirectiveNode =>
+      p.type === 7 && p.name === "bind" && p.arg != null && (p.arg as any).content === name,
+  );
+}
+
+function getStaticAttr(node: ElementNode, name: string): string | undefined {
+  const attr = node.props.find((p): p is AttributeNode => p.type === 6 && p.name === name);
+  return attr?.value?.content;
+}
+
+function hasStaticAttr(node: ElementNode, name: string): boolean {
+  return node.props.some((p) => p.type === 6 && p.name === name);
+}
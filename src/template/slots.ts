@@ -1,5 +1,6 @@
 import type { ElementNode, DirectiveNode, JsxContext } from "../types";
-import { unwrapExpression } from "./utils";
+import { unwrapExpression, withScope } from "./utils";
+import { getLegacySlot } from "./vue2";
 
 /**
  * Process a <slot> element into JSX.
@@ -98,7 +99,8 @@ export function processSlotContent(
     // v-slot on the component itself — all children are the default slot
     const slotParam = componentSlotDir.exp ? unwrapExpression(componentSlotDir.exp as any) : "";
     const slotName = componentSlotDir.arg ? (componentSlotDir.arg as any).content : "default";
-    const content = renderChildNodes(node.children, ctx);
+    // Slot params are in scope for the slot content
+    const content = withScope(ctx, slotParam, () => renderChildNodes(node.children, ctx));
     entries.push({ name: slotName, params: slotParam, content });
     return { slotEntries: entries, hasSlots: true };
   }
@@ -106,12 +108,23 @@ export function processSlotContent(
   for (const child of node.children) {
     if (child.type === 1) {
       const el = child as ElementNode;
+      // Vue 2 `<template slot="name" slot-scope="params">` / `<div slot="name">`
+      const legacy = ctx.vue2 ? getLegacySlot(el) : null;
+      if (legacy) {
+        const nodes = el.tag === "template" ? el.children : [el];
+        const content = withScope(ctx, legacy.params, () => renderChildNodes(nodes, ctx));
+        // Several elements may be passed to the same slot
+        const existing = entries.find((e) => e.name === legacy.name);
+        if (existing) existing.content += content;
+        else entries.push({ name: legacy.name, params: legacy.params, content });
+        continue;
+      }
       // <template v-slot:name="params">
       const slotDir = el.props.find((p): p is DirectiveNode => p.type === 7 && p.name === "slot");
       if (el.tag === "template" && slotDir) {
         const slotName = slotDir.arg ? (slotDir.arg as any).content : "default";
         const slotParam = slotDir.exp ? unwrapExpression(slotDir.exp as any) : "";
-        const content = renderChildNodes(el.children, ctx);
+        const content = withScope(ctx, slotParam, () => renderChildNodes(el.children, ctx));
         entries.push({ name: slotName, params: slotParam, content });
         continue;
       }
@@ -158,8 +171,26 @@ export function formatSlotEntries(entries: SlotEntry[]): string {
       : entry.content.trim().startsWith("<")
         ? entry.content
         : `<>${entry.content}</>`;
-    return `${entry.name}: ${params} => ${content}`;
+    return `${slotKey(entry.name)}: ${params} => ${content}`;
   });
 
   return `{{${"\n"}${slotParts.map((p) => `  ${p}`).join(",\n")}${"\n"}}}`;
 }
+
+/**
+ * Format slot entries for Vue 2 JSX (`@vue/babel-preset-jsx`), which takes slots through
+ * the `scopedSlots` attribute rather than children. A lone default slot without params
+ * stays as children.
+ */
+export function formatScopedSlots(entries: SlotEntry[]): { attr: string | null; children: string } {
+  if (entries.length === 0) return { attr: null, children: "" };
+  if (entries.length === 1 && entries[0].name === "default" && !entries[0].params) {
+    return { attr: null, children: entries[0].content };
+  }
+  return { attr: `scopedSlots=${formatSlotEntries(entries)}`, children: "" };
+}
+
+/** Slot names like `header-left` need quoting as object keys */
+function slotKey(name: string): string {
+  return /^[\w$]+$/.test(name) ? name : `'${name}'`;
+}
@@ -1,4 +1,20 @@
-import type { SimpleExpressionNode, CompoundExpressionNode, JsxContext } from "../types";
+import {
+  babelParse,
+  extractIdentifiers,
+  isStaticProperty,
+  walkIdentifiers,
+} from "@vue/compiler-sfc";
+import type { Identifier, Node } from "@babel/types";
+import MagicString from "magic-string";
+import type {
+  SimpleExpressionNode,
+  CompoundExpressionNode,
+  FrameworkBinding,
+  JsxContext,
+  SourceLocation,
+} from "../types";
+import { getPluginGlobals, useTemplateGlobal } from "../plugins";
+import { createWarning } from "../warnings";
 
 /** Convert kebab-case to camelCase */
 export function toCamelCase(str: string): string {
@@ -42,7 +58,7 @@ export function unwrapExpression(
     result = "";
   }
   if (ctx && result) {
-    result = rewriteTemplateGlobals(result, ctx);
+    result = rewriteTemplateGlobals(result, ctx, node.loc);
   }
   return result;
 }
@@ -55,19 +71,52 @@ const TEMPLATE_GLOBALS: Record<string, { replacement: string; contextMember: str
   $props: { replacement: "props", contextMember: "props" },
 };
 
-/** Framework globals that produce a warning instead of rewriting */
-const WARN_GLOBALS = ["$t", "$route", "$router", "$i18n", "$refs"];
+/** Vue 2 template globals, rewritten in Vue 2 mode only (Vue 3 merges listeners into attrs) */
+const VUE2_TEMPLATE_GLOBALS: Record<string, { replacement: string; contextMember: string }> = {
+  $listeners: { replacement: "listeners", contextMember: "listeners" },
+};
+
+/**
+ * vue-i18n and vue-router globals → the binding and the composable providing it in setup
+ * (vue-i18n 9's `t` also pluralises, so `$tc` becomes `t` too). Not rewritten in Vue 2 mode.
+ */
+const FRAMEWORK_GLOBALS: Record<string, { binding: string; composable: string }> = {
+  $t: { binding: "t", composable: "useI18n" },
+  $tc: { binding: "t", composable: "useI18n" },
+  $d: { binding: "d", composable: "useI18n" },
+  $n: { binding: "n", composable: "useI18n" },
+  $route: { binding: "route", composable: "useRoute" },
+  $router: { binding: "router", composable: "useRouter" },
+};
+
+/** Framework globals that produce a warning instead of rewriting, with the suggested fix */
+const WARN_GLOBALS: Record<string, string> = {
+  $t: "Call `const { t } = useI18n()` from vue-i18n in setup and use `t(...)`.",
+  $route: "Call `const route = useRoute()` from vue-router in setup and use `route`.",
+  $router: "Call `const router = useRouter()` from vue-router in setup and use `router`.",
+  $i18n: "Call `useI18n()` from vue-i18n in setup and use what it returns.",
+  $refs: "Declare a template ref (`const el = ref()` with `ref={el}`) instead of using `$refs`.",
+};
 
 /**
  * Rewrite Vue template globals in an expression string.
- * Replaces $attrs → attrs, $slots → slots, $emit → emit, $props → props.
- * Adds warnings for framework-specific globals like $t, $route, etc.
+ * Replaces $attrs → attrs, $slots → slots, $emit → emit, $props → props
+ * (and $listeners → listeners in Vue 2 mode), then plugin globals, then
+ * $t/$tc → t, $d → d, $n → n, $route → route and $router → router outside Vue 2 mode
+ * (free identifiers only, under the local names in `ctx.frameworkBindings`).
+ * Adds warnings for the framework globals left ($i18n, $refs, ...), located within `loc`
+ * (the expression's position in the .vue file) when given.
  */
-export function rewriteTemplateGlobals(expr: string, ctx: JsxContext): string {
+export function rewriteTemplateGlobals(
+  expr: string,
+  ctx: JsxContext,
+  loc?: SourceLocation,
+): string {
   let result = expr;
 
   // Rewrite known globals using word-boundary-aware replacement
-  for (const [global, { replacement, contextMember }] of Object.entries(TEMPLATE_GLOBALS)) {
+  const globals = ctx.vue2 ? { ...TEMPLATE_GLOBALS, ...VUE2_TEMPLATE_GLOBALS } : TEMPLATE_GLOBALS;
+  for (const [global, { replacement, contextMember }] of Object.entries(globals)) {
     // Use regex to match the global as a standalone token (not inside another identifier)
     const escaped = global.replace("$", "\\$");
     const regex = new RegExp(escaped + "(?![a-zA-Z0-9_])", "g");
@@ -80,157 +129,241 @@ export function rewriteTemplateGlobals(expr: string, ctx: JsxContext): string {
     }
   }
 
-  // Warn about framework globals
-  for (const global of WARN_GLOBALS) {
+  // Globals provided by plugins (e.g. `$t` → `t` from `useI18n()`)
+  if (ctx.plugins) {
+    for (const [global, definition] of getPluginGlobals(ctx.plugins)) {
+      const escaped = global.replace(/\$/g, "\\$");
+      const regex = new RegExp(escaped + "(?![a-zA-Z0-9_])", "g");
+      if (regex.test(result)) {
+        result = result.replace(regex, definition.replacement);
+        useTemplateGlobal(ctx.plugins, definition);
+      }
+    }
+  }
+
+  // Warn about framework globals not handled above or by rewriteIdentifiers()
+  for (const [global, fix] of Object.entries(WARN_GLOBALS)) {
+    if (rewritesFrameworkGlobals(ctx) && global in FRAMEWORK_GLOBALS) continue;
     const escaped = global.replace("$", "\\$");
     const regex = new RegExp(escaped + "(?![a-zA-Z0-9_])", "g");
-    if (regex.test(expr)) {
-      const alreadyWarned = ctx.warnings.some((w) => w.message.includes(global));
+    if (regex.test(result)) {
+      const message =
+        `Template global '${global}' detected. ` +
+        "You may need to add the equivalent Composition API call to your setup function.";
+      const alreadyWarned = ctx.warnings.some((w) => w.message === message);
       if (!alreadyWarned) {
-        ctx.warnings.push({
-          message: `Template global '${global}' detected. You may need to add the equivalent Composition API call to your setup function.`,
-        });
+        ctx.warnings.push(
+          createWarning("VTT-TEMPLATE-GLOBAL", message, { ...locateIn(loc, global), fix }),
+        );
       }
     }
   }
 
-  // Prefix prop identifiers with `props.` (Vue templates auto-expose, JSX doesn't)
-  if (ctx.propIdentifiers.size > 0) {
-    result = prefixProps(result, ctx.propIdentifiers);
-  }
+  // Prefix props with `props.`, append `.value` to refs, resolve CSS modules and bind
+  // vue-i18n / vue-router globals (Vue templates auto-expose and auto-unwrap, JSX doesn't)
+  return rewriteIdentifiers(result, ctx);
+}
+
+function rewritesFrameworkGlobals(ctx: JsxContext): boolean {
+  return !ctx.vue2 && ctx.frameworkBindings !== undefined;
+}
 
-  // Append .value to ref/computed identifiers (Vue templates auto-unwrap, JSX doesn't)
-  if (ctx.refIdentifiers.size > 0) {
-    result = appendRefValue(result, ctx.refIdentifiers);
+/**
+ * Local names for the bindings framework globals become (`t`, `d`, `n`, `route`, `router`):
+ * the script's own where it already calls the composable (`const { t: translate } = useI18n()`),
+ * else the binding's name, or the global's (`const { t: $t } = useI18n()`) when the script
+ * declares something else under it.
+ */
+export function frameworkBindings(
+  scriptBody: string,
+  declared: Set<string>,
+): Map<string, FrameworkBinding> {
+  const provided = new Map<string, string>();
+  const i18nRe = /\b(?:const|let|var)\s*\{([^}]*)\}\s*=\s*useI18n\s*\(/g;
+  for (const [, members] of scriptBody.matchAll(i18nRe)) {
+    for (const member of members!.split(",")) {
+      const match = /^\s*(\w+)\s*(?::\s*([\w$]+))?\s*$/.exec(member);
+      if (match) provided.set(match[1]!, match[2] ?? match[1]!);
+    }
+  }
+  const routerRe = /\b(?:const|let|var)\s+([\w$]+)\s*=\s*(useRoute|useRouter)\s*\(/g;
+  for (const [, local, composable] of scriptBody.matchAll(routerRe)) {
+    provided.set(composable === "useRoute" ? "route" : "router", local!);
   }
 
-  return result;
+  const bindings = new Map<string, FrameworkBinding>();
+  for (const { binding } of Object.values(FRAMEWORK_GLOBALS)) {
+    const local = provided.get(binding);
+    const free = declared.has(binding) ? `$${binding}` : binding;
+    bindings.set(binding, local ? { local, provided: true } : { local: free, provided: false });
+  }
+  return bindings;
 }
 
 /**
- * Append `.value` to known ref identifiers in an expression.
- * Matches standalone identifiers not preceded by `.` and not already followed by `.value`.
- * Skips identifiers in object-key position (followed by `:` that isn't part of ternary).
+ * Setup statements for the framework bindings the template used, grouped by composable
+ * (`const { t, d } = useI18n()`, `const route = useRoute()`), and the composables they call.
+ * Bindings the script already provides are left out.
  */
+export function frameworkGlobalSetup(
+  used: Map<string, Set<string>>,
+  bindings: Map<string, FrameworkBinding>,
+): { setup: string[]; composables: string[] } {
+  const byComposable = new Map<string, string[]>();
+  for (const { binding, composable } of Object.values(FRAMEWORK_GLOBALS)) {
+    const { local: bound, provided } = bindings.get(binding)!;
+    for (const local of used.get(binding) ?? []) {
+      if (provided && local === bound) continue;
+      // useI18n() returns several bindings to destructure, the router composables one each
+      const destructured = composable === "useI18n";
+      const name = destructured && local !== binding ? `${binding}: ${local}` : local;
+      const names = byComposable.get(composable) ?? [];
+      if (!names.includes(name)) names.push(name);
+      byComposable.set(composable, names);
+    }
+  }
+
+  const setup = [...byComposable].flatMap(([composable, names]) =>
+    composable === "useI18n"
+      ? [`const { ${names.join(", ")} } = ${composable}()`]
+      : names.map((name) => `const ${name} = ${composable}()`),
+  );
+  return { setup, composables: [...byComposable.keys()] };
+}
+
 /**
- * Check if a position in an expression string is inside a string literal.
- * Handles single quotes, double quotes, and template literals (skipping ${...} interpolations).
+ * Rewrite free identifiers in an expression using a real parse, so names bound inside the
+ * expression (arrow params, destructuring), member keys and object keys are left alone:
+ *
+ * - prop identifiers → `props.name`
+ * - ref/computed identifiers → `name.value` (skipped when already `.value` or called)
+ * - CSS module names (`$style`) → `styles`
+ *
+ * Object shorthand gets its key back: `{ count }` → `{ count: count.value }`.
+ * Expressions that don't parse are returned unchanged.
  */
-function isInsideString(expr: string, offset: number): boolean {
-  let inSingle = false;
-  let inDouble = false;
-  let inTemplate = false;
-  let interpDepth = 0;
-
-  for (let i = 0; i < offset; i++) {
-    const ch = expr[i];
-    const next = expr[i + 1];
-
-    // Skip escaped characters inside any string
-    if (ch === '\\' && (inSingle || inDouble || inTemplate)) {
-      i++;
-      continue;
+function rewriteIdentifiers(expr: string, ctx: JsxContext): string {
+  const { refIdentifiers, propIdentifiers, cssModules } = ctx;
+  const framework = rewritesFrameworkGlobals(ctx) && expr.includes("$");
+  if (refIdentifiers.size === 0 && propIdentifiers.size === 0 && !cssModules?.size && !framework) {
+    return expr;
+  }
+
+  const parsed = parseTemplateExpression(expr);
+  if (!parsed) return expr;
+
+  // Names bound by enclosing v-for / v-slot scopes shadow refs and props
+  const knownIds: Record<string, number> = Object.create(null);
+  for (const scope of ctx.scopes ?? []) {
+    for (const name of scope) knownIds[name] = 1;
+  }
+
+  const s = new MagicString(expr);
+  walkIdentifiers(parsed.ast, (id, parent, _parentStack, isReference, isLocal) => {
+    if (!isReference || isLocal) return;
+
+    let replacement: string | null = null;
+    if (cssModules?.has(id.name)) {
+      replacement = "styles";
+    } else if (framework && Object.hasOwn(FRAMEWORK_GLOBALS, id.name)) {
+      const { binding } = FRAMEWORK_GLOBALS[id.name]!;
+      replacement = ctx.frameworkBindings!.get(binding)!.local;
+      // A v-for / v-slot alias or arrow param of the same name: bind it as `$t` there instead
+      if (knownIds[replacement]) replacement = `$${binding}`;
+      const locals = ctx.usedFrameworkBindings!.get(binding) ?? new Set();
+      ctx.usedFrameworkBindings!.set(binding, locals.add(replacement));
+      if (replacement === id.name) return;
+    } else if (propIdentifiers.has(id.name)) {
+      replacement = `props.${id.name}`;
+    } else if (refIdentifiers.has(id.name) && !isUnwrapped(id, parent)) {
+      replacement = `${id.name}.value`;
     }
+    if (!replacement) return;
 
-    if (!inSingle && !inDouble && !inTemplate) {
-      if (ch === "'") inSingle = true;
-      else if (ch === '"') inDouble = true;
-      else if (ch === '`') inTemplate = true;
-    } else if (inSingle && ch === "'") {
-      inSingle = false;
-    } else if (inDouble && ch === '"') {
-      inDouble = false;
-    } else if (inTemplate) {
-      if (ch === '`' && interpDepth === 0) {
-        inTemplate = false;
-      } else if (ch === '$' && next === '{' && interpDepth === 0) {
-        interpDepth++;
-        i++; // skip the {
-      } else if (ch === '{' && interpDepth > 0) {
-        interpDepth++;
-      } else if (ch === '}' && interpDepth > 0) {
-        interpDepth--;
-      }
+    if (parent && isStaticProperty(parent) && parent.shorthand) {
+      replacement = `${id.name}: ${replacement}`;
     }
-  }
+    s.overwrite(id.start! - parsed.offset, id.end! - parsed.offset, replacement);
+  }, false, [], knownIds);
+  return s.toString();
+}
 
-  // Inside a string if in single/double quotes, or in template literal but NOT inside ${...}
-  return inSingle || inDouble || (inTemplate && interpDepth === 0);
+/**
+ * Run `fn` with the names bound by `params` (v-for aliases or v-slot params, e.g.
+ * `(item, index)` or `{ row, index = 0 }`) pushed as a new lexical scope on the context.
+ * Identifiers in those names are not rewritten inside the scope.
+ */
+export function withScope<T>(ctx: JsxContext, params: string, fn: () => T): T {
+  const names = extractBindingNames(params);
+  if (names.length === 0) return fn();
+  ctx.scopes ??= [];
+  ctx.scopes.push(new Set(names));
+  try {
+    return fn();
+  } finally {
+    ctx.scopes.pop();
+  }
 }
 
-function appendRefValue(expr: string, refs: Set<string>): string {
-  let result = expr;
-  for (const name of refs) {
-    // Match `name` as standalone identifier:
-    // - NOT preceded by `.`, alphanumeric, or `-` (avoid obj.name, data-qa-node-id)
-    // - NOT already followed by `.value`
-    // - NOT followed by `-` (avoid hyphenated attribute names in strings)
-    // - NOT followed by optional whitespace then `:` (object key position)
-    //   UNLESS the `:` is part of a ternary `?...:`
-    const regex = new RegExp(`(?<![.\\w-])\\b${name}\\b(?!\\.value\\b)(?!-)(?=\\s*[^(]|$)`, "g");
-    result = result.replace(regex, (match, offset) => {
-      // Skip identifiers inside string literals
-      if (isInsideString(result, offset)) return match;
-
-      // Check if this identifier is in object-key position (followed by `:`)
-      const after = result.slice(offset + match.length);
-      const colonMatch = after.match(/^\s*:/);
-      if (colonMatch) {
-        // It's a colon after the identifier — could be object key or ternary
-        // Look at what comes before: if we're inside `{ ... name:` or `, name:` it's an object key
-        const before = result.slice(0, offset);
-        // Count unmatched `{` before this position (simple brace depth check)
-        let braceDepth = 0;
-        for (let i = 0; i < before.length; i++) {
-          if (before[i] === "{") braceDepth++;
-          else if (before[i] === "}") braceDepth--;
-        }
-        // If we're inside braces, this is an object key — don't add .value
-        if (braceDepth > 0) {
-          return match;
-        }
-      }
-      return `${name}.value`;
-    });
+/** Collect the names bound by a parameter list like `(item, index)` or `{ row, ...rest }` */
+function extractBindingNames(params: string): string[] {
+  const trimmed = params.trim();
+  if (!trimmed) return [];
+  const list = trimmed.startsWith("(") ? trimmed : `(${trimmed})`;
+  try {
+    const ast = babelParse(`${list} => 0`, { plugins: ["typescript"] }).program;
+    const statement = ast.body[0];
+    if (statement?.type !== "ExpressionStatement") return [];
+    const fn = statement.expression;
+    if (fn.type !== "ArrowFunctionExpression") return [];
+    return fn.params.flatMap((param) => extractIdentifiers(param).map((id) => id.name));
+  } catch {
+    return [];
   }
-  return result;
+}
+
+/** Position of `text` within an expression's source location, or the expression's start */
+function locateIn(
+  loc: SourceLocation | undefined,
+  text: string,
+): { line?: number; column?: number } {
+  if (!loc) return {};
+  const index = loc.source.indexOf(text);
+  if (index === -1) return { line: loc.start.line, column: loc.start.column };
+  const before = loc.source.slice(0, index).split("\n");
+  return before.length === 1
+    ? { line: loc.start.line, column: loc.start.column + index }
+    : { line: loc.start.line + before.length - 1, column: before.at(-1)!.length + 1 };
 }
 
 /**
- * Prefix known prop identifiers with `props.` in an expression.
- * Uses the same pattern as appendRefValue: matches standalone identifiers
- * not preceded by `.` or alphanumeric, not already preceded by `props.`.
- * Skips identifiers in object-key position.
+ * Parse a template expression. Tries a single expression first, then statements
+ * (event handlers like `count++; save()`). Returns the AST and the offset of `expr` in
+ * the parsed code, or null if it doesn't parse.
  */
-function prefixProps(expr: string, propNames: Set<string>): string {
-  let result = expr;
-  for (const name of propNames) {
-    const regex = new RegExp(`(?<![.\\w-])\\b${name}\\b(?!-)`, "g");
-    result = result.replace(regex, (match, offset) => {
-      // Skip identifiers inside string literals
-      if (isInsideString(result, offset)) return match;
-
-      // Check if already preceded by `props.`
-      const before = result.slice(0, offset);
-      if (before.endsWith("props.")) return match;
-
-      // Check if this identifier is in object-key position (followed by `:`)
-      const after = result.slice(offset + match.length);
-      const colonMatch = after.match(/^\s*:/);
-      if (colonMatch) {
-        const beforeStr = result.slice(0, offset);
-        let braceDepth = 0;
-        for (let i = 0; i < beforeStr.length; i++) {
-          if (beforeStr[i] === "{") braceDepth++;
-          else if (beforeStr[i] === "}") braceDepth--;
-        }
-        if (braceDepth > 0) return match;
-      }
-
-      return `props.${name}`;
-    });
+function parseTemplateExpression(expr: string): { ast: Node; offset: number } | null {
+  try {
+    return { ast: babelParse(`(${expr})`, { plugins: ["typescript"] }).program, offset: 1 };
+  } catch {
+    try {
+      return { ast: babelParse(expr, { plugins: ["typescript"] }).program, offset: 0 };
+    } catch {
+      return null;
+    }
   }
-  return result;
+}
+
+/** A ref that is already unwrapped (`x.value`) or called (`x()`) keeps its name as-is */
+function isUnwrapped(id: Identifier, parent: Node | null): boolean {
+  if (!parent) return false;
+  if (parent.type === "CallExpression" && parent.callee === id) return true;
+  return (
+    (parent.type === "MemberExpression" || parent.type === "OptionalMemberExpression") &&
+    parent.object === id &&
+    !parent.computed &&
+    parent.property.type === "Identifier" &&
+    parent.property.name === "value"
+  );
 }
 
 /** Escape special characters for JSX text content */
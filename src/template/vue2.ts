@@ -0,0 +1,121 @@
+import type {
+  AttributeNode,
+  CompoundExpressionNode,
+  ElementNode,
+  JsxContext,
+  SimpleExpressionNode,
+} from "../types";
+import { rewriteTemplateGlobals, unwrapExpression } from "./utils";
+
+/**
+ * Unwrap a binding or interpolation expression, applying Vue 2 filters first in Vue 2 mode:
+ * `{{ price | currency('USD') }}` → `{currency(price, 'USD')}`.
+ */
+export function unwrapFilteredExpression(
+  node: SimpleExpressionNode | CompoundExpressionNode | undefined,
+  ctx: JsxContext,
+): string {
+  const expr = unwrapExpression(node);
+  if (!expr) return "";
+  return rewriteTemplateGlobals(ctx.vue2 ? rewriteFilters(expr) : expr, ctx, node?.loc);
+}
+
+/**
+ * Rewrite a Vue 2 filter chain into nested calls, like Vue 2's own compiler does.
+ * `a | f | g(1)` → `g(f(a), 1)`. Expressions without filters are returned unchanged.
+ */
+export function rewriteFilters(expr: string): string {
+  const [head, ...filters] = splitFilters(expr);
+  if (filters.length === 0) return expr;
+
+  let result = head!.trim();
+  for (const filter of filters) {
+    const trimmed = filter.trim();
+    const paren = trimmed.indexOf("(");
+    if (paren === -1) {
+      result = `${trimmed}(${result})`;
+    } else {
+      const args = trimmed.slice(paren + 1);
+      result = `${trimmed.slice(0, paren)}(${result}${args.trim() === ")" ? ")" : `, ${args}`}`;
+    }
+  }
+  return result;
+}
+
+/** Split an expression on filter pipes (`|` outside strings and brackets, but not `||`) */
+function splitFilters(expr: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < expr.length; i++) {
+    const ch = expr[i]!;
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === "`") quote = ch;
+    else if (ch === "(" || ch === "[" || ch === "{") depth++;
+    else if (ch === ")" || ch === "]" || ch === "}") depth--;
+    else if (ch === "|" && depth === 0 && expr[i - 1] !== "|" && expr[i + 1] !== "|") {
+      parts.push(expr.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(expr.slice(start));
+  return parts;
+}
+
+/**
+ * Build a listener attribute in `@vue/babel-preset-jsx` form:
+ * - `click` → `onClick={handler}` (`nativeOnClick` for `.native`)
+ * - `update-item` → `on-update-item={handler}` (Vue 2 event names are case-sensitive)
+ * - `update:title` → `{...{ on: { 'update:title': handler } }}` (not a valid JSX name)
+ */
+export function vue2EventAttribute(
+  event: string,
+  handler: string,
+  native: boolean,
+): { type: "attr" | "spread"; value: string } {
+  const prefix = native ? "nativeOn" : "on";
+  if (/^[a-zA-Z][\w$]*$/.test(event)) {
+    const capitalized = event.charAt(0).toUpperCase() + event.slice(1);
+    return { type: "attr", value: `${prefix}${capitalized}={${handler}}` };
+  }
+  if (/^[a-zA-Z][\w$-]*$/.test(event)) {
+    return { type: "attr", value: `${prefix}-${event}={${handler}}` };
+  }
+  return { type: "spread", value: `{...{ ${prefix}: { '${event}': ${handler} } }}` };
+}
+
+/**
+ * Expand `:title.sync="x"` into the prop plus its `update:title` listener.
+ */
+export function vue2SyncBinding(prop: string, expr: string): { attr: string; spread: string } {
+  const listener = vue2EventAttribute(`update:${prop}`, `($event) => (${expr} = $event)`, false);
+  return { attr: `${prop}={${expr}}`, spread: listener.value };
+}
+
+/**
+ * Get the slot an element is passed to via the Vue 2 `slot="name"` / `slot-scope="props"`
+ * attributes (or the older `scope` on `<template>`), or null if it has neither.
+ */
+export function getLegacySlot(el: ElementNode): { name: string; params: string } | null {
+  const slot = getStaticAttr(el, "slot");
+  const scope =
+    getStaticAttr(el, "slot-scope") ??
+    (el.tag === "template" ? getStaticAttr(el, "scope") : undefined);
+  if (slot == null && scope == null) return null;
+  return { name: slot || "default", params: scope ?? "" };
+}
+
+/** Static attributes consumed by getLegacySlot() and not rendered in Vue 2 mode */
+export const LEGACY_SLOT_ATTRIBUTES = new Set(["slot", "slot-scope"]);
+
+function getStaticAttr(el: ElementNode, name: string): string | undefined {
+  const attr = el.props.find((p): p is AttributeNode => p.type === 6 && p.name === name);
+  if (!attr) return undefined;
+  return attr.value?.content ?? "";
+}
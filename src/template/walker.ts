@@ -1,9 +1,14 @@
 import type { TemplateChildNode, ElementNode, DirectiveNode, JsxContext } from "../types";
 import { escapeJsxText, unwrapExpression } from "./utils";
+import { getLegacySlot, unwrapFilteredExpression } from "./vue2";
 import { processConditionalChain, processVFor, findDirective } from "./control-flow";
-import { processSlot, processSlotContent, formatSlotEntries } from "./slots";
+import { processSlot, processSlotContent, formatSlotEntries, formatScopedSlots } from "./slots";
 import { generateAttributes, formatAttributes } from "./attributes";
-import { processDirective } from "./directives";
+import { processDirective, type AppliedDirective } from "./directives";
+import { resolveComponentTag } from "./components";
+import { getMultiSelectModel, getOptionSelected } from "./model";
+import { markJsx } from "../sourcemap";
+import { runElementPlugins } from "../plugins";
 import { SELF_CLOSING_TAGS, VUE_BUILTINS } from "./utils";
 
 /**
@@ -33,8 +38,11 @@ export function walkChildren(children: TemplateChildNode[], ctx: JsxContext): st
 
       case 5: {
         // INTERPOLATION
-        const expr = unwrapExpression((child as any).content, ctx);
-        parts.push(`{${expr}}`);
+        const expr = unwrapFilteredExpression((child as any).content, ctx);
+        const jsx = `{${expr}}`;
+        parts.push(
+          ctx.sourceMap ? markJsx(jsx, child.loc.start.line, child.loc.start.column) : jsx,
+        );
         i++;
         break;
       }
@@ -50,7 +58,7 @@ export function walkChildren(children: TemplateChildNode[], ctx: JsxContext): st
         // ELEMENT
         const el = child as ElementNode;
         const result = processElementNode(el, children, i, ctx);
-        parts.push(result.jsx);
+        parts.push(asChild(result.jsx));
         i += result.consumed;
         break;
       }
@@ -81,7 +89,10 @@ function processElementNode(
   // 1. Handle <slot> elements
   if (node.tag === "slot") {
     const jsx = processSlot(node, ctx, renderChildrenForSlot);
-    return { jsx, consumed: 1 };
+    return {
+      jsx: ctx.sourceMap ? markJsx(jsx, node.loc.start.line, node.loc.start.column) : jsx,
+      consumed: 1,
+    };
   }
 
   // 2. Check for v-for (wraps everything, takes priority)
@@ -106,9 +117,26 @@ function processElementNode(
 /**
  * Render a full element with all directives, events, and slot content processing.
  * This is the "enhanced" version of generateElement that integrates all modules.
+ * With source maps enabled, the output is marked with the element's position in the .vue file.
  */
 function renderFullElement(node: ElementNode, ctx: JsxContext): string {
-  const tag = node.tag;
+  const jsx = renderElementJsx(node, ctx);
+  return ctx.sourceMap ? markJsx(jsx, node.loc.start.line, node.loc.start.column) : jsx;
+}
+
+function renderElementJsx(node: ElementNode, ctx: JsxContext): string {
+  let tag = node.tag;
+
+  // Elements handled by a plugin
+  if (ctx.plugins) {
+    const jsx = runElementPlugins(ctx.plugins, {
+      tag,
+      node,
+      attributes: () => processAllProps(node, ctx).attrStr,
+      children: () => walkChildren(node.children, ctx),
+    });
+    if (jsx !== undefined) return jsx;
+  }
 
   // <template> without control flow → fragment
   if (tag === "template") {
@@ -133,38 +161,55 @@ function renderFullElement(node: ElementNode, ctx: JsxContext): string {
     return renderDynamicComponent(node, ctx);
   }
 
+  // Kebab-case and global components are rendered by their PascalCase identifier
+  tag = resolveComponentTag(node, ctx);
+
   // Track Vue built-in component usage for import generation
   if (VUE_BUILTINS.has(tag)) {
     ctx.usedBuiltins.add(tag);
   }
 
   // Process attributes, directives, and events
-  const { attrStr, wrapShow } = processAllProps(node, ctx);
+  const props = processAllProps(node, ctx);
+  const wrapShow = props.wrapShow;
+  let attrStr = props.attrStr;
+  const finish = (jsx: string) => {
+    const withDirectives = applyDirectives(jsx, props.directives, node, ctx);
+    return wrapShow ? wrapVShow(withDirectives, wrapShow) : withDirectives;
+  };
 
   // Check for slot content on components
-  const hasSlotContent = node.children.length > 0 && hasSlotDirectives(node);
+  const hasSlotContent = node.children.length > 0 && hasSlotDirectives(node, ctx);
 
   // Self-closing HTML elements
   if (SELF_CLOSING_TAGS.has(tag) && node.children.length === 0) {
-    const jsx = `<${tag}${attrStr} />`;
-    return wrapShow ? wrapVShow(jsx, wrapShow) : jsx;
+    return finish(`<${tag}${attrStr} />`);
   }
 
   let children: string;
   if (hasSlotContent) {
     const { slotEntries } = processSlotContent(node, ctx, renderChildrenForSlot, walkChildren);
-    children = formatSlotEntries(slotEntries);
+    if (ctx.vue2) {
+      const scoped = formatScopedSlots(slotEntries);
+      if (scoped.attr) attrStr += ` ${scoped.attr}`;
+      children = scoped.children;
+    } else {
+      children = formatSlotEntries(slotEntries);
+    }
   } else {
+    // A lowered <select multiple v-model> marks its <option> children as selected
+    const multiSelectModel = getMultiSelectModel(node, ctx);
+    const outerModel = ctx.multiSelectModel;
+    if (multiSelectModel) ctx.multiSelectModel = multiSelectModel;
     children = walkChildren(node.children, ctx);
+    ctx.multiSelectModel = outerModel;
   }
 
   if (!children.trim()) {
-    const jsx = `<${tag}${attrStr} />`;
-    return wrapShow ? wrapVShow(jsx, wrapShow) : jsx;
+    return finish(`<${tag}${attrStr} />`);
   }
 
-  const jsx = `<${tag}${attrStr}>${children}</${tag}>`;
-  return wrapShow ? wrapVShow(jsx, wrapShow) : jsx;
+  return finish(`<${tag}${attrStr}>${children}</${tag}>`);
 }
 
 function renderDynamicComponent(node: ElementNode, ctx: JsxContext): string {
@@ -185,19 +230,22 @@ function renderDynamicComponent(node: ElementNode, ctx: JsxContext): string {
     }),
   } as ElementNode;
 
-  const { attrStr } = processAllProps(filteredNode, ctx);
+  const { attrStr, directives } = processAllProps(filteredNode, ctx);
   const children = walkChildren(node.children, ctx);
 
   if (!children.trim()) {
-    return `<${componentExpr}${attrStr} />`;
+    return applyDirectives(`<${componentExpr}${attrStr} />`, directives, node, ctx);
   }
-  return `<${componentExpr}${attrStr}>${children}</${componentExpr}>`;
+  const jsx = `<${componentExpr}${attrStr}>${children}</${componentExpr}>`;
+  return applyDirectives(jsx, directives, node, ctx);
 }
 
 interface ProcessedProps {
   attrStr: string;
   extraAttrs: string[];
   wrapShow: string | null;
+  /** Custom directives to apply with `withDirectives` */
+  directives: AppliedDirective[];
 }
 
 /**
@@ -206,6 +254,7 @@ interface ProcessedProps {
 function processAllProps(node: ElementNode, ctx: JsxContext): ProcessedProps {
   const attrResult = generateAttributes(node, ctx);
   const extraAttrs: string[] = [];
+  const directives: AppliedDirective[] = [];
   let wrapShow: string | null = null;
 
   // Process directives that aren't handled by generateAttributes
@@ -232,11 +281,25 @@ function processAllProps(node: ElementNode, ctx: JsxContext): ProcessedProps {
 
     const result = processDirective(dir, node, ctx);
     if (result.omit) continue;
-    if (result.attr && result.value) {
+    if (result.directive) {
+      directives.push(result.directive);
+    } else if (result.attrs) {
+      extraAttrs.push(...result.attrs);
+    } else if (result.attr && result.value) {
       extraAttrs.push(`${result.attr}={${result.value}}`);
     }
   }
 
+  // Preserved scoped styles match on the scope attribute (built-ins render no element of their own)
+  if (ctx.scopeId && !VUE_BUILTINS.has(node.tag)) {
+    extraAttrs.push(`${ctx.scopeId}=""`);
+  }
+
+  if (node.tag === "option" && ctx.multiSelectModel) {
+    const selected = getOptionSelected(node, ctx.multiSelectModel, ctx);
+    if (selected) extraAttrs.push(selected);
+  }
+
   // Add extra directive attrs
   for (const extra of extraAttrs) {
     attrResult.attrs.push(extra);
@@ -246,17 +309,38 @@ function processAllProps(node: ElementNode, ctx: JsxContext): ProcessedProps {
     attrStr: formatAttributes(attrResult),
     extraAttrs,
     wrapShow,
+    directives,
   };
 }
 
 function wrapVShow(jsx: string, condition: string): string {
-  return `<div v-show={${condition}} style={{ display: ${condition} ? undefined : 'none' }}>${jsx}</div>`;
+  return `<div v-show={${condition}} style={{ display: ${condition} ? undefined : 'none' }}>${asChild(jsx)}</div>`;
+}
+
+/** Apply custom directives to an element's vnode: `withDirectives(<input />, [[vFocus]])` */
+function applyDirectives(
+  jsx: string,
+  directives: AppliedDirective[],
+  node: ElementNode,
+  ctx: JsxContext,
+): string {
+  if (directives.length === 0) return jsx;
+  for (const directive of directives) ctx.usedDirectives?.add(directive.local);
+  // The call isn't JSX, so the element is marked for the source map here
+  const el = ctx.sourceMap ? markJsx(jsx, node.loc.start.line, node.loc.start.column) : jsx;
+  return `withDirectives(${el}, [${directives.map((d) => d.entry).join(", ")}])`;
+}
+
+/** Wrap an expression that isn't JSX (e.g. a `withDirectives` call) for use as a JSX child */
+function asChild(jsx: string): string {
+  return jsx.startsWith("<") || jsx.startsWith("{") ? jsx : `{${jsx}}`;
 }
 
-function hasSlotDirectives(node: ElementNode): boolean {
+function hasSlotDirectives(node: ElementNode, ctx: JsxContext): boolean {
   for (const child of node.children) {
     if (child.type === 1) {
       const el = child as ElementNode;
+      if (ctx.vue2 && getLegacySlot(el)) return true;
       if (el.tag === "template") {
         const hasSlot = el.props.some((p) => p.type === 7 && (p as DirectiveNode).name === "slot");
         if (hasSlot) return true;
@@ -9,7 +9,9 @@ import type {
   DirectiveNode,
   SimpleExpressionNode,
   CompoundExpressionNode,
+  SourceLocation,
 } from "@vue/compiler-core";
+import type { SourceMap } from "magic-string";
 
 // Re-export AST types for convenience
 export type {
@@ -23,6 +25,7 @@ export type {
   DirectiveNode,
   SimpleExpressionNode,
   CompoundExpressionNode,
+  SourceLocation,
 };
 
 /** Result of converting a single .vue file */
@@ -33,16 +36,31 @@ export interface ConvertResult {
   css: string | null;
   /** CSS filename (e.g. "MyComponent.css") */
   cssFilename: string | null;
+  /** CSS Modules file content, if `<style module>` blocks existed */
+  moduleCss: string | null;
+  /** CSS Modules filename (e.g. "MyComponent.module.css") */
+  moduleCssFilename: string | null;
   /** Warnings generated during conversion */
   warnings: ConvertWarning[];
   /** Items that need LLM fallback */
   fallbacks: FallbackItem[];
+  /** v3 source map from the .tsx back to the .vue file (when `sourceMap` is enabled) */
+  map?: SourceMap;
 }
 
+/** Severity of a conversion warning; `error` marks output that needs fixing by hand */
+export type WarningSeverity = "error" | "warning" | "info";
+
 export interface ConvertWarning {
+  /** Stable code identifying the kind of warning (e.g. `VTT-SCOPED-STYLE`) */
+  code: string;
+  severity: WarningSeverity;
   message: string;
+  /** Location in the original .vue file */
   line?: number;
   column?: number;
+  /** Suggested fix */
+  fix?: string;
 }
 
 export interface FallbackItem {
@@ -55,6 +73,19 @@ export interface FallbackItem {
   column?: number;
 }
 
+/** Sends a prompt to an LLM and returns the response text, or null if none is available */
+export type LlmGenerate = (prompt: string, model?: string) => Promise<string | null>;
+
+/**
+ * Stores the LLM's replacement for each fallback snippet so it is only paid for once.
+ * `model` identifies the provider and model (`anthropic:claude-sonnet-4-5`) when an API key
+ * is set, else it is the `llmModel` option.
+ */
+export interface LlmCache {
+  get(item: FallbackItem, model?: string): Promise<string | undefined>;
+  set(item: FallbackItem, model: string | undefined, replacement: string): Promise<void>;
+}
+
 export interface ConvertOptions {
   /** Component name (derived from filename if not provided) */
   componentName?: string;
@@ -62,6 +93,367 @@ export interface ConvertOptions {
   llm?: boolean;
   /** LLM model to use (default: claude-sonnet-4-5) */
   llmModel?: string;
+  /**
+   * Send LLM prompts through this function instead of calling the provider directly
+   * (e.g. to rate-limit requests across parallel conversions)
+   */
+  llmGenerate?: LlmGenerate;
+  /** Reuse LLM replacements for snippets seen before, and store new ones */
+  llmCache?: LlmCache;
+  /**
+   * Lower v-model on native inputs, selects and textareas to explicit
+   * value/checked bindings plus onInput/onChange handlers (default: false)
+   */
+  lowerVModel?: boolean;
+  /** Generate a source map from the .tsx back to the .vue file (default: false) */
+  sourceMap?: boolean;
+  /** Filename of the .vue source, used as the source map's source (default: `<componentName>.vue`) */
+  filename?: string;
+  /**
+   * Keep `<style scoped>` scoping: rewrite scoped selectors with a per-component
+   * `data-v-xxxxxxxx` attribute and add it to every rendered element (default: false)
+   */
+  preserveScopedStyles?: boolean;
+  /**
+   * Read Vue 2 template syntax (filters, `.sync`, `.native`, `slot` / `slot-scope`, `$listeners`)
+   * and emit Vue 2.7 TSX for `@vue/babel-preset-jsx` (default: false)
+   */
+  vue2?: boolean;
+  /** Plugins hooking into the parse, template, script, style and output stages */
+  plugins?: VueToTsxPlugin[];
+  /**
+   * Globally registered custom directives (`app.directive(...)`), by name without the `v-`
+   * prefix. Directives found here or bound as `vFoo` in `<script setup>` are applied with
+   * `withDirectives` instead of falling back.
+   */
+  directives?: Record<string, RegistryImport>;
+  /**
+   * Globally registered components (`app.component(...)`), by PascalCase or kebab-case name.
+   * Kebab-case tags naming one of these, a Vue built-in or a component in scope in
+   * `<script setup>` are rendered as PascalCase identifiers; the global ones are imported.
+   */
+  components?: Record<string, RegistryImport>;
+  /**
+   * Identifiers the project provides without an import (e.g. Nuxt's or unplugin-auto-import's
+   * auto-imports), by the module exporting them under their own name, or `{ from, import }`
+   * for another export (e.g. `{ from: 'dayjs', import: 'default' }`). They are left as-is
+   * instead of being given an explicit import, unless `explicitAutoImports` is set.
+   */
+  autoImports?: Record<string, RegistryImport>;
+  /** Give the identifiers in `autoImports` explicit imports where they're used (default: false) */
+  explicitAutoImports?: boolean;
+  /**
+   * Nuxt mode: Vue's and Nuxt's auto-imports are left implicit, and Nuxt's built-in components
+   * (`<NuxtLink>`, `<NuxtPage>`, `<ClientOnly>`, ...) are imported from `#components` (default: false)
+   */
+  nuxt?: boolean;
+  /** Module `useI18n` is imported from for `$t`, `$tc`, `$d` and `$n` (default: `vue-i18n`) */
+  i18nSource?: string;
+  /** Module `useRoute` / `useRouter` are imported from for `$route` / `$router` (default: `vue-router`) */
+  routerSource?: string;
+  /** Warning codes to report with `error` severity */
+  warningsAsErrors?: string[];
+  /** Warning codes to leave out of the result */
+  suppressWarnings?: string[];
+}
+
+/**
+ * Module a global component or directive is imported from: its default export, or
+ * `{ from, import }` for a named export (e.g. `{ from: '@vueuse/components', import: 'vOnClickOutside' }`).
+ * For an auto-import, a module alone means its export named like the identifier.
+ */
+export type RegistryImport = string | { from: string; import: string };
+
+/**
+ * A plugin hooking into the conversion stages. Template and script handlers run before the
+ * built-in conversion, in plugin order; a handler returning `undefined` defers to the next
+ * plugin and finally to the default behaviour.
+ */
+export interface VueToTsxPlugin {
+  /** Plugin name, for diagnostics */
+  name: string;
+  /** Parse stage: rewrite the .vue source before it is parsed */
+  transformSource?: (source: string, context: PluginContext) => string | void;
+  /** Parse stage: inspect or modify the parsed SFC before conversion */
+  transformParsed?: (sfc: ParsedSFC, context: PluginContext) => void;
+  /** Template stage: custom directives by name, without the `v-` prefix (e.g. `tooltip`) */
+  directives?: Record<
+    string,
+    (directive: PluginDirective, context: PluginContext) => PluginAttributeResult
+  >;
+  /** Template stage: elements by tag name, returning the element's complete JSX */
+  elements?: Record<string, (element: PluginElement, context: PluginContext) => string | void>;
+  /** Template stage: static and bound attributes by name (e.g. `data-test`, `to`) */
+  attributes?: Record<
+    string,
+    (attribute: PluginAttribute, context: PluginContext) => PluginAttributeResult
+  >;
+  /** Template stage: globals rewritten in template expressions (e.g. `$t`) */
+  templateGlobals?: Record<string, PluginTemplateGlobal>;
+  /** Script stage: calls to these functions in `<script>` / `<script setup>` are replaced */
+  macros?: Record<string, (call: PluginMacroCall, context: PluginContext) => string | void>;
+  /** Style stage: rewrite a style block's content before it is extracted */
+  transformStyle?: (css: string, block: StyleBlock, context: PluginContext) => string | void;
+  /** Output stage: post-process the final result (tsx, css, warnings) */
+  transformOutput?: (result: ConvertResult, context: PluginContext) => ConvertResult | void;
+}
+
+/**
+ * JSX attributes produced by a directive or attribute handler: one or several attribute
+ * strings (e.g. `'title={x}'`), `false` to drop it, or `undefined` for the default conversion.
+ */
+export type PluginAttributeResult = string | string[] | false | void;
+
+/** Helpers available to every plugin hook */
+export interface PluginContext {
+  componentName: string;
+  /** Filename of the .vue source */
+  filename: string;
+  /** Add a conversion warning (code `VTT-PLUGIN` unless one is given) */
+  warn: (
+    message: string,
+    details?: { line?: number; column?: number; code?: string; fix?: string },
+  ) => void;
+  /** Add named imports to the generated file, e.g. `addImport('vue', ['withDirectives'])` */
+  addImport: (source: string, names: string[]) => void;
+  /** Add a statement to the top of `setup()` (added once, however often it is requested) */
+  addSetup: (statement: string) => void;
+}
+
+/** A directive passed to a plugin's directive handler */
+export interface PluginDirective {
+  /** Name without the `v-` prefix */
+  name: string;
+  arg?: string;
+  modifiers: string[];
+  /** Value expression, with template globals, props and refs already rewritten */
+  exp?: string;
+  node: ElementNode;
+}
+
+/** An element passed to a plugin's element handler */
+export interface PluginElement {
+  tag: string;
+  node: ElementNode;
+  /** Render the element's converted attributes (e.g. ` class="a" onClick={go}`) */
+  attributes: () => string;
+  /** Render the element's converted children */
+  children: () => string;
+}
+
+/** An attribute passed to a plugin's attribute handler */
+export interface PluginAttribute {
+  name: string;
+  /** Static value, or the rewritten expression of a bound (`:name`) attribute; null if absent */
+  value: string | null;
+  /** Whether the attribute was bound with `v-bind` / `:` */
+  bound: boolean;
+  node: ElementNode;
+}
+
+/** A template global rewritten by a plugin */
+export interface PluginTemplateGlobal {
+  /** Expression replacing the global (e.g. `t` for `$t`) */
+  replacement: string;
+  /** Statement added to `setup()` when the global is used (e.g. `const { t } = useI18n()`) */
+  setup?: string;
+  /** Named imports added when the global is used, by module (e.g. `{ 'vue-i18n': ['useI18n'] }`) */
+  imports?: Record<string, string[]>;
+}
+
+/** A call matched by a plugin's script macro handler */
+export interface PluginMacroCall {
+  name: string;
+  /** Type arguments without the angle brackets, if any */
+  typeArgs?: string;
+  /** Argument source without the parentheses */
+  args: string;
+  /** The whole call expression */
+  source: string;
+}
+
+/** Plugins active for one convert() call and what their handlers added to the output */
+export interface PluginHost {
+  plugins: VueToTsxPlugin[];
+  context: PluginContext;
+  /** Warnings reported via `warn()` */
+  warnings: ConvertWarning[];
+  /** Imports requested via `addImport()` */
+  imports: ImportInfo[];
+  /** Statements requested via `addSetup()` */
+  setup: string[];
+}
+
+/** Conversion settings a config file can set globally or per glob */
+export interface ConfigSettings {
+  /** Output directory, relative to the config file (default: next to each input file) */
+  outDir?: string;
+  /**
+   * How files are placed in `outDir`: `flat` writes every file directly into it, `mirror`
+   * keeps their directories relative to the config file (default: `flat`)
+   */
+  outLayout?: "flat" | "mirror";
+  /** How output file names are derived from the .vue name (default: `preserve`) */
+  naming?: "preserve" | "pascal" | "kebab";
+  llm?: boolean;
+  llmModel?: string;
+  lowerVModel?: boolean;
+  sourceMap?: boolean;
+  preserveScopedStyles?: boolean;
+  vue2?: boolean;
+  /**
+   * Nuxt mode. The auto-imports and components of each file's Nuxt app (the closest directory
+   * with a `nuxt.config`, or the config directory) are read from its `.nuxt` directory, or
+   * without one from its `composables/`, `utils/` and `components/` directories.
+   */
+  nuxt?: boolean;
+  i18nSource?: string;
+  routerSource?: string;
+  warningsAsErrors?: string[];
+  suppressWarnings?: string[];
+  /** Plugins; an override's plugins are added after the top-level ones */
+  plugins?: VueToTsxPlugin[];
+  /**
+   * Global custom directives; an override's entries are added to the top-level ones. Relative
+   * paths are relative to the config file.
+   */
+  directives?: Record<string, RegistryImport>;
+  /**
+   * Global components; an override's entries are added to the top-level ones. Relative paths
+   * are relative to the config file.
+   */
+  components?: Record<string, RegistryImport>;
+  /**
+   * Files to read global components from, relative to the config file: a `components.d.ts`
+   * declaring `GlobalComponents`, or an entry file calling `app.component(name, Component)`
+   */
+  scanComponents?: string[];
+  /**
+   * Declaration files listing the project's auto-imports, relative to the config file: the
+   * `auto-imports.d.ts` generated by unplugin-auto-import, or Nuxt's `.nuxt/imports.d.ts`
+   */
+  scanAutoImports?: string[];
+  /** Give auto-imported identifiers explicit imports instead of leaving them implicit */
+  explicitAutoImports?: boolean;
+  /** Skip files whose source and settings are unchanged since they were last converted */
+  cache?: boolean;
+  /** Cache directory, relative to the config file (default: `node_modules/.cache/vue-to-tsx`) */
+  cacheDir?: string;
+}
+
+/** Settings applied to files matching `files` (globs relative to the config file) */
+export interface ConfigOverride extends ConfigSettings {
+  files: string | string[];
+}
+
+/** The `vue-to-tsx.config.{ts,js,json}` file read by the CLI */
+export interface VueToTsxConfig extends ConfigSettings {
+  /** Globs converted when none are given on the command line, relative to the config file */
+  include?: string[];
+  /** Globs of .vue files to skip, relative to the config file */
+  ignore?: string[];
+  /** Per-glob settings, applied in order over the top-level ones */
+  overrides?: ConfigOverride[];
+}
+
+/** Severity of a reported issue; these match SARIF result levels */
+export type ReportSeverity = "error" | "warning" | "note";
+
+/** A warning, fallback or error in the CLI conversion report */
+export interface ReportIssue {
+  /** Warning code, or `VTT-FALLBACK` / `VTT-CONVERT-ERROR` for fallbacks and failed files */
+  ruleId: string;
+  severity: ReportSeverity;
+  message: string;
+  /** 1-based location in the .vue file */
+  line?: number;
+  column?: number;
+  fix?: string;
+}
+
+/** One input file in the CLI conversion report */
+export interface ReportFile {
+  /** The .vue file, relative to the report root */
+  file: string;
+  status: "converted" | "error";
+  /** Wall-clock conversion time in milliseconds */
+  durationMs: number;
+  /** Generated files, relative to the report root */
+  outputs: string[];
+  issues: ReportIssue[];
+}
+
+/** The machine-readable report written by `--report` */
+export interface ConversionReport {
+  /** Directory the file paths are relative to */
+  root: string;
+  files: ReportFile[];
+  summary: {
+    files: number;
+    converted: number;
+    errors: number;
+    warnings: number;
+    fallbacks: number;
+    durationMs: number;
+  };
+}
+
+/** An import specifier rewritten to point at a converted component */
+export interface ImportRewrite {
+  /** 1-based line of the specifier in the importing file */
+  line: number;
+  /** The original specifier, e.g. `./Foo.vue` */
+  from: string;
+  /** The new specifier, e.g. `./Foo` */
+  to: string;
+}
+
+/** A generated .tsx file to type-check with `verify()` */
+export interface VerifyInput {
+  /** Path of the .tsx file; its imports are resolved from here, whether or not it is on disk */
+  fileName: string;
+  /** The generated code */
+  tsx: string;
+  /** Source map from `convert({ sourceMap: true })`, to locate errors in the .vue file */
+  map?: { mappings: string };
+}
+
+export interface VerifyOptions {
+  /** Compiler options merged over the Vue JSX defaults (as in a tsconfig.json) */
+  compilerOptions?: Record<string, unknown>;
+}
+
+/** Type errors found in one generated file */
+export interface VerifyResult {
+  fileName: string;
+  /** `VTT-TYPE-ERROR` warnings, located in the .vue file when a source map was given */
+  warnings: ConvertWarning[];
+}
+
+/** Props and slots to render a component with in `vue-to-tsx equivalence` */
+export interface EquivalenceFixture {
+  /** Identifies the fixture in the output */
+  name?: string;
+  props?: Record<string, unknown>;
+  /** Slot contents as text, by slot name */
+  slots?: Record<string, string>;
+}
+
+/** How the original and generated components rendered with one fixture */
+export interface EquivalenceCheck {
+  fixture: string;
+  equivalent: boolean;
+  /** Differing lines of the normalised HTML: `- ` from the .vue file, `+ ` from the .tsx */
+  diff: string[];
+  /** Error thrown while rendering either component */
+  error?: string;
+}
+
+export interface EquivalenceResult {
+  file: string;
+  /** Whether every fixture rendered the same HTML */
+  equivalent: boolean;
+  checks: EquivalenceCheck[];
 }
 
 /** Parsed SFC descriptor with raw AST */
@@ -84,12 +476,18 @@ export interface ScriptBlock {
   content: string;
   lang: string | undefined;
   setup: boolean;
+  /** 1-based line in the .vue file where the block content starts */
+  line?: number;
 }
 
 export interface StyleBlock {
   content: string;
+  /** 1-based line in the .vue file where the block content starts */
+  line?: number;
   scoped: boolean;
   lang: string | undefined;
+  /** `true` for `<style module>`, the module name for `<style module="name">` */
+  module?: string | boolean;
 }
 
 /** Parsed prop info from type-based defineProps */
@@ -115,12 +513,40 @@ export interface ExtractedMacros {
   models: ModelMacro[];
   /** The remaining script body after macro removal */
   body: string;
+  /** For each line of `body`, the 0-based line of the script content it came from (-1 if unknown) */
+  bodyLineOrigins: number[];
   /** Imports extracted from the script */
   imports: ImportInfo[];
   /** Side-effect imports (e.g. `import './polyfill'`) */
   rawImports: string[];
   /** Export statements (e.g. `export type { Foo }`) */
   rawExports: string[];
+  /** Calls of macros that are read from module scope (e.g. Nuxt's `definePageMeta`) */
+  moduleMacros: string[];
+}
+
+/** Options API component converted to Composition API pieces */
+export interface OptionsApiResult {
+  /** Component options kept verbatim (e.g. `name: 'Foo'`, `props: {...}`) */
+  options: string[];
+  /** Statements for the setup() body (refs, computed, methods, watchers, hooks) */
+  setupBody: string;
+  /** Imports declared in the script */
+  imports: ImportInfo[];
+  /** Vue APIs the setup body needs (ref, computed, onMounted, ...) */
+  vueImports: string[];
+  /** Module-level statements other than imports and the default export */
+  preamble: string;
+  /** data/computed/template-ref names that need .value */
+  refIdentifiers: Set<string>;
+  /** Prop names declared in the props option */
+  propIdentifiers: Set<string>;
+  /** Setup context members used by the converted script (emit, attrs, slots, expose) */
+  usedContextMembers: Set<string>;
+  /** Whether setup() needs the props parameter */
+  hasProps: boolean;
+  /** Constructs that could not be converted; lines are relative to the script block */
+  warnings: ConvertWarning[];
 }
 
 export interface ModelMacro {
@@ -147,14 +573,44 @@ export type ClassMap = Map<string, string>;
 
 /** Style extraction result */
 export interface StyleResult {
-  /** Style file content (CSS, SCSS, Less — kept as-is, not compiled) */
-  css: string;
-  /** Map of class names found in the styles */
+  /** Style file content (CSS, SCSS, Less — kept as-is, not compiled), null if only CSS modules */
+  css: string | null;
+  /** Map of CSS module class names to their `styles.x` references */
   classMap: ClassMap;
   /** Original preprocessor language (e.g. 'scss', 'less') or undefined for plain CSS */
   lang: string | undefined;
+  /** Combined `<style module>` blocks, if any */
+  cssModule: CssModuleResult | null;
+  /** `v-bind()` expressions replaced by CSS custom properties */
+  cssVars: CssVar[];
   /** Warnings from style processing */
-  warnings: string[];
+  warnings: ConvertWarning[];
+}
+
+/** A CSS custom property standing in for a `v-bind()` expression in styles */
+export interface CssVar {
+  /** Custom property name without the leading `--` (e.g. "1a2b3c4d-color") */
+  name: string;
+  /** The bound expression as written in the style block */
+  expression: string;
+}
+
+/** CSS Modules extracted from `<style module>` blocks */
+export interface CssModuleResult {
+  /** CSS Modules file content */
+  css: string;
+  /** Preprocessor language of the module blocks */
+  lang: string | undefined;
+  /** Names the modules were accessed by (`$style` or the `module="name"` value) */
+  names: string[];
+}
+
+/** Local name of a binding a vue-i18n or vue-router template global is rewritten to */
+export interface FrameworkBinding {
+  /** Name in setup: `t`, or e.g. `$t` when the script declares an unrelated `t` */
+  local: string;
+  /** Whether the script binds it itself, by calling the composable */
+  provided: boolean;
 }
 
 /** JSX generation context passed through the walker */
@@ -179,4 +635,41 @@ export interface JsxContext {
   hasVFor: boolean;
   /** Vue built-in components used in template (Teleport, KeepAlive, etc.) */
   usedBuiltins: Set<string>;
+  /** Lower v-model on native form elements instead of emitting the v-model directive */
+  lowerVModel?: boolean;
+  /** Model expression of the enclosing lowered `<select multiple>`, if any */
+  multiSelectModel?: string;
+  /** Embed source position markers in generated JSX for source map generation */
+  sourceMap?: boolean;
+  /** Names CSS modules are accessed by in the template (`$style`, or custom module names) */
+  cssModules?: Set<string>;
+  /** Scope attribute added to every rendered element when scoped styles are preserved */
+  scopeId?: string;
+  /** Lexical scope chain of names bound by enclosing v-for aliases and v-slot params */
+  scopes?: Set<string>[];
+  /** Read Vue 2 template syntax and emit `@vue/babel-preset-jsx` conventions */
+  vue2?: boolean;
+  /** Plugins with template handlers, if any were given */
+  plugins?: PluginHost;
+  /**
+   * Custom directives the template can apply, by identifier (`vFocus`): the import each
+   * needs, or null for directives already bound in `<script setup>`
+   */
+  directives?: Map<string, ImportInfo | null>;
+  /** Identifiers of the custom directives applied with `withDirectives` */
+  usedDirectives?: Set<string>;
+  /**
+   * Components the template can render by PascalCase name: the import each needs, or null for
+   * components already in scope in the script
+   */
+  components?: Map<string, ImportInfo | null>;
+  /** Names of the global components rendered */
+  usedComponents?: Set<string>;
+  /**
+   * Local names of the vue-i18n and vue-router bindings (`t`, `route`, ...) that `$t`,
+   * `$route`, ... are rewritten to; those globals are left alone without it
+   */
+  frameworkBindings?: Map<string, FrameworkBinding>;
+  /** The local names template globals were rewritten to, by binding */
+  usedFrameworkBindings?: Map<string, Set<string>>;
 }
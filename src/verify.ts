@@ -0,0 +1,110 @@
+import type { CompilerOptions, Diagnostic } from "typescript";
+import { basename, dirname, join, resolve } from "path";
+import type { VerifyInput, VerifyOptions, VerifyResult } from "./types";
+import { originalPosition } from "./sourcemap";
+import { createWarning } from "./warnings";
+
+/** Declarations for the non-TypeScript modules generated components import */
+const ENV_DECLARATIONS = `declare module '*.module.css' {
+  const classes: Record<string, string>
+  export default classes
+}
+declare module '*.vue' {
+  import type { DefineComponent } from 'vue'
+  const component: DefineComponent
+  export default component
+}
+`;
+
+/**
+ * Type-check generated .tsx files with the TypeScript compiler, in process. The files are
+ * checked together, so imports between them resolve even before they are written to disk;
+ * everything else (`vue`, the rest of the project) is resolved from each file's location.
+ * Requires the `typescript` package.
+ *
+ * Every diagnostic becomes a `VTT-TYPE-ERROR` warning located in the original .vue file
+ * when the input has a source map.
+ */
+export async function verify(
+  inputs: VerifyInput[],
+  options?: VerifyOptions,
+): Promise<VerifyResult[]> {
+  const ts = await loadTypeScript();
+  const files = new Map(inputs.map((input) => [resolve(input.fileName), input]));
+  const envFile = join(dirname(resolve(inputs[0]?.fileName ?? "x")), "__vue-to-tsx-env.d.ts");
+
+  const { options: overrides, errors } = ts.convertCompilerOptionsFromJson(
+    options?.compilerOptions ?? {},
+    process.cwd(),
+  );
+  if (errors.length > 0) {
+    throw new Error(ts.flattenDiagnosticMessageText(errors[0]!.messageText, "\n"));
+  }
+  const compilerOptions: CompilerOptions = {
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.Preserve,
+    jsxImportSource: "vue",
+    strict: true,
+    // Output of plain JavaScript <script> blocks has no type annotations
+    noImplicitAny: false,
+    skipLibCheck: true,
+    noEmit: true,
+    types: [],
+    ...overrides,
+  };
+
+  const host = ts.createCompilerHost(compilerOptions);
+  const readFile = host.readFile.bind(host);
+  const fileExists = host.fileExists.bind(host);
+  const contents = (fileName: string) =>
+    fileName === envFile ? ENV_DECLARATIONS : files.get(resolve(fileName))?.tsx;
+  host.fileExists = (fileName) => contents(fileName) !== undefined || fileExists(fileName);
+  host.readFile = (fileName) => contents(fileName) ?? readFile(fileName);
+  host.getSourceFile = (fileName, languageVersion) => {
+    const text = host.readFile(fileName);
+    return text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersion);
+  };
+
+  const program = ts.createProgram([...files.keys(), envFile], compilerOptions, host);
+
+  return inputs.map((input) => {
+    const sourceFile = program.getSourceFile(resolve(input.fileName));
+    const diagnostics: readonly Diagnostic[] = sourceFile
+      ? [
+          ...program.getSyntacticDiagnostics(sourceFile),
+          ...program.getSemanticDiagnostics(sourceFile),
+        ]
+      : [];
+
+    return {
+      fileName: input.fileName,
+      warnings: diagnostics.map((diagnostic) => {
+        const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, " ");
+        if (!diagnostic.file || diagnostic.start === undefined) {
+          return createWarning("VTT-TYPE-ERROR", `TS${diagnostic.code}: ${message}`);
+        }
+        const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+        const where = `${basename(input.fileName)}:${line + 1}:${character + 1}`;
+        const original = input.map ? originalPosition(input.map, line, character) : null;
+        return createWarning(
+          "VTT-TYPE-ERROR",
+          `TS${diagnostic.code} at ${where}: ${message}`,
+          original ?? {},
+        );
+      }),
+    };
+  });
+}
+
+async function loadTypeScript(): Promise<typeof import("typescript")> {
+  try {
+    const mod = await import("typescript");
+    return mod.default ?? mod;
+  } catch {
+    throw new Error(
+      'verify() needs the "typescript" package; install it with `bun add -d typescript`',
+    );
+  }
+}
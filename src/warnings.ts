@@ -0,0 +1,75 @@
+import type { ConvertOptions, ConvertWarning, WarningSeverity } from "./types";
+
+/** Every built-in warning code, with its default severity and a description */
+export const WARNING_CODES = {
+  "VTT-PARSE-ERROR": { severity: "error", description: "The .vue file could not be parsed" },
+  "VTT-SCOPED-STYLE": {
+    severity: "warning",
+    description: "<style scoped> was extracted as plain, unscoped CSS",
+  },
+  "VTT-CSS-MODULE-MERGE": {
+    severity: "warning",
+    description: "Several named CSS modules were merged into one import",
+  },
+  "VTT-SCOPED-CSS-MODULE": {
+    severity: "info",
+    description: "'scoped' was dropped from a CSS module",
+  },
+  "VTT-TEMPLATE-GLOBAL": {
+    severity: "warning",
+    description:
+      "A framework global with no setup equivalent ($i18n, $refs, ...) is used in the template",
+  },
+  "VTT-VUE2-MODEL-ARG": {
+    severity: "warning",
+    description: "v-model with an argument does not exist in Vue 2",
+  },
+  "VTT-OPTIONS-SPREAD": {
+    severity: "warning",
+    description: "A spread in the component options could not be converted",
+  },
+  "VTT-OPTIONS-KEPT": {
+    severity: "warning",
+    description: "A component option was kept as-is instead of converted to setup()",
+  },
+  "VTT-OPTIONS-PROVIDE": {
+    severity: "error",
+    description: "The provide option could not be converted and was dropped",
+  },
+  "VTT-OPTIONS-THIS": {
+    severity: "warning",
+    description: "A 'this' access could not be converted to Composition API",
+  },
+  "VTT-UNRESOLVED-COMPONENT": {
+    severity: "warning",
+    description: "A kebab-case component tag is not imported or registered",
+  },
+  "VTT-PLUGIN": { severity: "warning", description: "Reported by a plugin" },
+  "VTT-TYPE-ERROR": {
+    severity: "error",
+    description: "The generated TSX does not type-check (--verify)",
+  },
+} as const satisfies Record<string, { severity: WarningSeverity; description: string }>;
+
+export type WarningCode = keyof typeof WARNING_CODES;
+
+/** Create a warning with the code's default severity */
+export function createWarning(
+  code: WarningCode,
+  message: string,
+  details: { line?: number; column?: number; fix?: string } = {},
+): ConvertWarning {
+  return { code, severity: WARNING_CODES[code].severity, message, ...details };
+}
+
+/** Apply `suppressWarnings` and `warningsAsErrors` to a conversion's warnings */
+export function applyWarningOptions(
+  warnings: ConvertWarning[],
+  options: Pick<ConvertOptions, "suppressWarnings" | "warningsAsErrors"> | undefined,
+): ConvertWarning[] {
+  const suppress = new Set(options?.suppressWarnings);
+  const promote = new Set(options?.warningsAsErrors);
+  return warnings
+    .filter((w) => !suppress.has(w.code))
+    .map((w) => (promote.has(w.code) ? { ...w, severity: "error" } : w));
+}
@@ -0,0 +1,72 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createCache } from "../src/cache";
+import { convert } from "../src/index";
+import { definePlugin } from "../src/plugins";
+
+const SOURCE = `<template><div class="a">{{ msg }}</div></template>
+<script setup lang="ts">
+const msg = 'hi'
+</script>`;
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "vue-to-tsx-cache-"));
+});
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe("createCache", () => {
+  test("keys change with the source and the options that affect the output", () => {
+    const cache = createCache(tempDir);
+    const key = cache.key(SOURCE, { componentName: "A" });
+
+    expect(cache.key(SOURCE, { componentName: "A" })).toBe(key);
+    expect(cache.key(`${SOURCE}\n`, { componentName: "A" })).not.toBe(key);
+    expect(cache.key(SOURCE, { componentName: "B" })).not.toBe(key);
+    expect(cache.key(SOURCE, { componentName: "A", vue2: true })).not.toBe(key);
+    expect(
+      cache.key(SOURCE, { componentName: "A", plugins: [definePlugin({ name: "tooltip" })] }),
+    ).not.toBe(key);
+    // How LLM prompts are sent doesn't change the output
+    expect(cache.key(SOURCE, { componentName: "A", llmGenerate: async () => null })).toBe(key);
+  });
+
+  test("round-trips results, including source maps", async () => {
+    const cache = createCache(tempDir);
+    const options = { componentName: "A", sourceMap: true, filename: "A.vue" };
+    const result = await convert(SOURCE, options);
+    const key = cache.key(SOURCE, options);
+
+    expect(await cache.getResult(key)).toBeNull();
+    await cache.setResult(key, result);
+    const cached = await cache.getResult(key);
+
+    expect(cached?.tsx).toBe(result.tsx);
+    expect(cached?.warnings).toEqual(result.warnings);
+    expect(cached?.map?.toString()).toBe(result.map!.toString());
+  });
+
+  test("treats corrupt entries as misses", async () => {
+    const cache = createCache(tempDir);
+    await Bun.write(join(tempDir, "results", "broken.json"), "{");
+    expect(await cache.getResult("broken")).toBeNull();
+  });
+
+  test("stores LLM replacements by snippet, reason and model", async () => {
+    const { llm } = createCache(tempDir);
+    const item = { source: "<input v-focus />", reason: "Custom directive" };
+
+    expect(await llm.get(item)).toBeUndefined();
+    await llm.set(item, "model-a", "<input ref={focus} />");
+
+    expect(await llm.get(item, "model-a")).toBe("<input ref={focus} />");
+    expect(await llm.get(item, "model-b")).toBeUndefined();
+    expect(await llm.get({ ...item, reason: "Other" }, "model-a")).toBeUndefined();
+  });
+});
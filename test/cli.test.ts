@@ -2,6 +2,7 @@ import { describe, expect, test, beforeAll, afterAll } from "bun:test";
 import { mkdtemp, rm } from "fs/promises";
 import { join } from "path";
 import { tmpdir } from "os";
+import { Glob } from "bun";
 
 const CLI_PATH = join(import.meta.dir, "..", "src", "cli.ts");
 
@@ -320,6 +321,491 @@ describe("CLI", () => {
     expect(output).toContain("Watching");
   }, 10000);
 
+  test("--watch converts new files and removes the outputs of deleted ones", async () => {
+    const subDir = join(tempDir, "watch-glob");
+    await Bun.write(join(subDir, "Old.vue"), SAMPLE_VUE);
+
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "--watch", "**/*.vue"], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: subDir,
+    });
+
+    const reader = proc.stdout.getReader();
+    const decoder = new TextDecoder();
+    let output = "";
+    const waitFor = async (text: string) => {
+      while (!output.includes(text)) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        output += decoder.decode(value, { stream: true });
+      }
+    };
+    const timeout = setTimeout(() => proc.kill(), 12000);
+
+    try {
+      await waitFor(`Watching ${subDir}`);
+      // Delay to ensure fs.watch is registered on macOS
+      await new Promise((r) => setTimeout(r, 500));
+
+      await Bun.write(join(subDir, "nested", "Added.vue"), SAMPLE_VUE);
+      await waitFor("[watch] 1 converted, 0 removed,");
+      await rm(join(subDir, "Old.vue"));
+      await waitFor("[watch] 0 converted, 1 removed,");
+    } finally {
+      clearTimeout(timeout);
+      proc.kill();
+      await proc.exited;
+    }
+
+    expect(output).toContain(`[watch] Converting new file ${join("nested", "Added.vue")}...`);
+    expect(output).toContain("[watch] Removed Old.vue");
+    expect(await Bun.file(join(subDir, "nested", "Added.tsx")).exists()).toBe(true);
+    expect(await Bun.file(join(subDir, "Old.tsx")).exists()).toBe(false);
+    expect(await Bun.file(join(subDir, "Old.css")).exists()).toBe(false);
+  }, 15000);
+
+  test("--source-map writes a .tsx.map next to the output", async () => {
+    const dir = join(tempDir, "sourcemap");
+    const inputPath = join(dir, "Mapped.vue");
+    await Bun.write(inputPath, SAMPLE_VUE);
+
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "--source-map", inputPath], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: tempDir,
+    });
+    const code = await proc.exited;
+    expect(code).toBe(0);
+
+    const tsxContent = await Bun.file(join(dir, "Mapped.tsx")).text();
+    expect(tsxContent).toContain("//# sourceMappingURL=Mapped.tsx.map");
+
+    const map = JSON.parse(await Bun.file(join(dir, "Mapped.tsx.map")).text());
+    expect(map.version).toBe(3);
+    expect(map.sources).toEqual(["Mapped.vue"]);
+  });
+
+  test("--config loads plugins from a config file", async () => {
+    const dir = join(tempDir, "config");
+    const inputPath = join(dir, "Plugged.vue");
+    const configPath = join(dir, "plugins.config.ts");
+    await Bun.write(inputPath, SAMPLE_VUE);
+    await Bun.write(
+      configPath,
+      `export default {
+  plugins: [{ name: "banner", transformOutput: (r) => ({ ...r, tsx: "// converted\\n" + r.tsx }) }],
+}`,
+    );
+
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "--config", configPath, inputPath], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: tempDir,
+    });
+    const code = await proc.exited;
+    expect(code).toBe(0);
+
+    const tsxContent = await Bun.file(join(dir, "Plugged.tsx")).text();
+    expect(tsxContent.startsWith("// converted\n")).toBe(true);
+  });
+
+  test("discovers a config file and applies include, ignore and overrides", async () => {
+    const dir = join(tempDir, "discover");
+    await Bun.write(join(dir, "src", "AppHeader.vue"), SAMPLE_VUE);
+    await Bun.write(join(dir, "src", "legacy", "old-list.vue"), SAMPLE_VUE);
+    await Bun.write(join(dir, "src", "__tests__", "Fixture.vue"), SAMPLE_VUE);
+    await Bun.write(
+      join(dir, "vue-to-tsx.config.ts"),
+      `import { defineConfig } from ${JSON.stringify(join(import.meta.dir, "..", "src", "index"))};
+export default defineConfig({
+  include: ["src/**/*.vue"],
+  ignore: ["**/__tests__/**"],
+  outDir: "converted",
+  outLayout: "mirror",
+  naming: "kebab",
+  overrides: [{ files: "src/legacy/**", naming: "pascal" }],
+});`,
+    );
+
+    const proc = Bun.spawn(["bun", "run", CLI_PATH], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: join(dir, "src"),
+    });
+    const code = await proc.exited;
+    expect(code).toBe(0);
+
+    expect(await Bun.file(join(dir, "converted", "src", "app-header.tsx")).exists()).toBe(true);
+    expect(await Bun.file(join(dir, "converted", "src", "legacy", "OldList.tsx")).exists()).toBe(
+      true,
+    );
+    expect(await Bun.file(join(dir, "converted", "src", "__tests__", "fixture.tsx")).exists()).toBe(
+      false,
+    );
+  });
+
+  test("flags override the config file and --no-config skips it", async () => {
+    const dir = join(tempDir, "precedence");
+    await Bun.write(join(dir, "Card.vue"), SAMPLE_VUE);
+    await Bun.write(join(dir, "vue-to-tsx.config.json"), JSON.stringify({ outDir: "from-config" }));
+
+    const withFlag = Bun.spawn(["bun", "run", CLI_PATH, "--out-dir", "from-flag", "Card.vue"], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: dir,
+    });
+    expect(await withFlag.exited).toBe(0);
+    expect(await Bun.file(join(dir, "from-flag", "Card.tsx")).exists()).toBe(true);
+    expect(await Bun.file(join(dir, "from-config", "Card.tsx")).exists()).toBe(false);
+
+    const noConfig = Bun.spawn(["bun", "run", CLI_PATH, "--no-config", "Card.vue"], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: dir,
+    });
+    expect(await noConfig.exited).toBe(0);
+    expect(await Bun.file(join(dir, "Card.tsx")).exists()).toBe(true);
+  });
+
+  test("an invalid config file is reported", async () => {
+    const dir = join(tempDir, "bad-config");
+    await Bun.write(join(dir, "Card.vue"), SAMPLE_VUE);
+    await Bun.write(join(dir, "vue-to-tsx.config.json"), JSON.stringify({ outLayout: "tree" }));
+
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "Card.vue"], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: dir,
+    });
+    const code = await proc.exited;
+    const stderr = await new Response(proc.stderr).text();
+
+    expect(code).toBe(1);
+    expect(stderr).toContain('"outLayout" must be one of "flat", "mirror"');
+  });
+
+  test("--rewrite-imports updates importers of converted files", async () => {
+    const dir = join(tempDir, "importers");
+    const mainTs = `import Widget from "./components/Widget.vue";\n`;
+    const pageVue = `<script setup>\nimport Widget from '../components/Widget.vue'\n</script>`;
+    await Bun.write(join(dir, "components", "Widget.vue"), SAMPLE_VUE);
+    await Bun.write(join(dir, "main.ts"), mainTs);
+    await Bun.write(join(dir, "pages", "Page.vue"), pageVue);
+
+    const dryRun = Bun.spawn(
+      ["bun", "run", CLI_PATH, "--rewrite-imports", "--dry-run", "components/Widget.vue"],
+      { stdout: "pipe", stderr: "pipe", cwd: dir },
+    );
+    expect(await dryRun.exited).toBe(0);
+    const dryStdout = await new Response(dryRun.stdout).text();
+    expect(dryStdout).toContain(
+      `[dry-run] would rewrite ${join(dir, "main.ts")}:1 './components/Widget.vue' → './components/Widget'`,
+    );
+    expect(await Bun.file(join(dir, "main.ts")).text()).toBe(mainTs);
+
+    const proc = Bun.spawn(
+      ["bun", "run", CLI_PATH, "--rewrite-imports", "--delete", "components/Widget.vue"],
+      { stdout: "pipe", stderr: "pipe", cwd: dir },
+    );
+    expect(await proc.exited).toBe(0);
+    const stdout = await new Response(proc.stdout).text();
+    expect(stdout).toContain("2 imports rewritten");
+
+    expect(await Bun.file(join(dir, "main.ts")).text()).toBe(
+      `import Widget from "./components/Widget";\n`,
+    );
+    expect(await Bun.file(join(dir, "pages", "Page.vue")).text()).toBe(
+      pageVue.replace("Widget.vue", "Widget"),
+    );
+  });
+
+  test("--report writes json and sarif reports", async () => {
+    const dir = join(tempDir, "report");
+    await Bun.write(
+      join(dir, "Focus.vue"),
+      SAMPLE_VUE.replace('<div class="hello">', '<div class="hello" v-focus>'),
+    );
+
+    for (const format of ["json", "sarif"]) {
+      const proc = Bun.spawn(
+        ["bun", "run", CLI_PATH, "--report", format, `report.${format}`, "Focus.vue"],
+        { stdout: "pipe", stderr: "pipe", cwd: dir },
+      );
+      expect(await proc.exited).toBe(0);
+    }
+
+    const json = await Bun.file(join(dir, "report.json")).json();
+    expect(json.summary).toMatchObject({ files: 1, converted: 1, errors: 0, fallbacks: 1 });
+    expect(json.files[0].file).toBe("Focus.vue");
+    expect(json.files[0].outputs).toEqual(["Focus.tsx", "Focus.css"]);
+    expect(typeof json.files[0].durationMs).toBe("number");
+    expect(json.files[0].issues.find((i: any) => i.ruleId === "VTT-FALLBACK")).toMatchObject({
+      severity: "error",
+      line: 2,
+    });
+
+    const sarif = await Bun.file(join(dir, "report.sarif")).json();
+    const locations = sarif.runs[0].results.map(
+      (r: any) => r.locations[0].physicalLocation.artifactLocation.uri,
+    );
+    expect(locations).toContain("Focus.vue");
+  });
+
+  test("--report rejects unknown formats", async () => {
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "--report", "xml", "out.xml", "x.vue"], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: tempDir,
+    });
+    expect(await proc.exited).toBe(1);
+    expect(await new Response(proc.stderr).text()).toContain("--report requires a format");
+  });
+
+  test("--warnings-as-errors fails the run and --suppress-warnings hides codes", async () => {
+    const dir = join(tempDir, "warning-codes");
+    await Bun.write(join(dir, "Scoped.vue"), SAMPLE_VUE);
+
+    const promoted = Bun.spawn(
+      ["bun", "run", CLI_PATH, "--warnings-as-errors", "VTT-SCOPED-STYLE", "Scoped.vue"],
+      { stdout: "pipe", stderr: "pipe", cwd: dir },
+    );
+    expect(await promoted.exited).toBe(1);
+    const stderr = await new Response(promoted.stderr).text();
+    expect(stderr).toContain(`error: ${join(dir, "Scoped.vue")}:9: [VTT-SCOPED-STYLE]`);
+    expect(stderr).toContain("fix: Convert with preserveScopedStyles");
+    expect(await Bun.file(join(dir, "Scoped.tsx")).exists()).toBe(true);
+
+    const suppressed = Bun.spawn(
+      ["bun", "run", CLI_PATH, "--suppress-warnings", "VTT-SCOPED-STYLE", "Scoped.vue"],
+      { stdout: "pipe", stderr: "pipe", cwd: dir },
+    );
+    expect(await suppressed.exited).toBe(0);
+    expect(await new Response(suppressed.stdout).text()).toContain("0 warnings");
+  });
+
+  test("--concurrency converts in worker threads and logs in file order", async () => {
+    const dir = join(tempDir, "concurrency");
+    const names = ["A", "B", "C", "D", "E"];
+    for (const name of names) {
+      await Bun.write(join(dir, `${name}.vue`), SAMPLE_VUE.replace("Hello", name));
+    }
+
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "--concurrency", "3", "*.vue"], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: dir,
+    });
+    expect(await proc.exited).toBe(0);
+    const stdout = await new Response(proc.stdout).text();
+
+    const logged = stdout.split("\n").filter((line) => line.includes("→") && line.endsWith(".tsx"));
+    expect(logged).toEqual(names.map((n) => `${join(dir, `${n}.vue`)} → ${join(dir, `${n}.tsx`)}`));
+    expect(stdout).toContain("5 converted, 5 css files, 0 deleted, 5 warnings");
+    expect(await Bun.file(join(dir, "E.tsx")).text()).toContain("const msg = 'E'");
+  });
+
+  test("--concurrency reports a worker's setup failure as a per-file error", async () => {
+    const dir = join(tempDir, "concurrency-setup");
+    for (const name of ["A", "B"]) await Bun.write(join(dir, `${name}.vue`), SAMPLE_VUE);
+    await Bun.write(
+      join(dir, "vue-to-tsx.config.ts"),
+      `import { isMainThread } from "worker_threads";
+if (!isMainThread) throw new Error("config unavailable in workers");
+export default {};`,
+    );
+
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "--concurrency", "2", "*.vue"], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: dir,
+    });
+    expect(await proc.exited).toBe(1);
+    const stderr = await new Response(proc.stderr).text();
+    expect(stderr).toContain(
+      `Error converting ${join(dir, "A.vue")}: config unavailable in workers`,
+    );
+    expect(stderr).toContain(
+      `Error converting ${join(dir, "B.vue")}: config unavailable in workers`,
+    );
+    expect(stderr).not.toContain("Unhandled");
+    expect(await new Response(proc.stdout).text()).toContain("2 errors");
+  });
+
+  test("--concurrency rejects non-positive counts", async () => {
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "--concurrency", "0", "x.vue"], {
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    expect(await proc.exited).toBe(1);
+    expect(await new Response(proc.stderr).text()).toContain(
+      "--concurrency requires a positive integer",
+    );
+  });
+
+  test("--verify reports type errors in the generated files at their .vue lines", async () => {
+    // Inside the repo, so the generated code resolves `vue` from its node_modules
+    const dir = await mkdtemp(join(import.meta.dir, ".verify-cli-"));
+    try {
+      await Bun.write(join(dir, "Good.vue"), SAMPLE_VUE);
+      await Bun.write(
+        join(dir, "Price.vue"),
+        `<template>
+  <b>{{ amount.toFixed(2) }}</b>
+</template>
+<script setup lang="ts">
+defineProps<{ amount: string }>()
+</script>`,
+      );
+
+      const proc = Bun.spawn(["bun", "run", CLI_PATH, "--verify", "--dry-run", "*.vue"], {
+        stdout: "pipe",
+        stderr: "pipe",
+        cwd: dir,
+      });
+      expect(await proc.exited).toBe(1);
+      const stdout = await new Response(proc.stdout).text();
+      const stderr = await new Response(proc.stderr).text();
+
+      expect(stdout).toContain("Verifying 2 files...");
+      expect(stdout).toContain("1 error.");
+      expect(stderr).toContain(`error: ${join(dir, "Price.vue")}:2:6: [VTT-TYPE-ERROR] TS2551`);
+      expect(stderr.match(/VTT-TYPE-ERROR/g)).toHaveLength(1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }, 60_000);
+
+  test("equivalence renders each component and its conversion with fixtures", async () => {
+    // Inside the repo, so the components resolve `vue` from its node_modules
+    const dir = await mkdtemp(join(import.meta.dir, ".equivalence-cli-"));
+    try {
+      await Bun.write(
+        join(dir, "Greeting.vue"),
+        `<template>
+  <p :class="['greeting', { loud }]">Hello {{ name }}!</p>
+</template>
+<script setup lang="ts">
+defineProps<{ name: string; loud?: boolean }>()
+</script>`,
+      );
+      await Bun.write(
+        join(dir, "Greeting.fixtures.json"),
+        JSON.stringify([
+          { name: "quiet", props: { name: "Ada" } },
+          { props: { name: "Bo", loud: true } },
+        ]),
+      );
+
+      const proc = Bun.spawn(["bun", "run", CLI_PATH, "equivalence", "*.vue"], {
+        stdout: "pipe",
+        stderr: "pipe",
+        cwd: dir,
+      });
+      expect(await proc.exited).toBe(0);
+      const stdout = await new Response(proc.stdout).text();
+      expect(stdout).toContain(`equivalent: ${join(dir, "Greeting.vue")} (2 fixtures)`);
+      expect(stdout).toContain("Done: 1 equivalent, 0 divergent, 0 errors.");
+      // Nothing is written
+      expect(await Bun.file(join(dir, "Greeting.tsx")).exists()).toBe(false);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("--cache-dir skips unchanged files on the next run", async () => {
+    const dir = join(tempDir, "cache-input");
+    const cacheDir = join(tempDir, "cache-store");
+    await Bun.write(join(dir, "Cached.vue"), SAMPLE_VUE);
+
+    const run = async () => {
+      const proc = Bun.spawn(["bun", "run", CLI_PATH, "--cache-dir", cacheDir, "*.vue"], {
+        stdout: "pipe",
+        stderr: "pipe",
+        cwd: dir,
+      });
+      expect(await proc.exited).toBe(0);
+      return new Response(proc.stdout).text();
+    };
+
+    expect(await run()).not.toContain("cached");
+    const stdout = await run();
+    expect(stdout).toContain(`${join(dir, "Cached.vue")} → ${join(dir, "Cached.tsx")} (cached)`);
+    expect(stdout).toContain("1 converted, 1 cached,");
+  });
+
+  test("--stdin writes the TSX to stdout and warnings to stderr", async () => {
+    const dir = join(tempDir, "stdin");
+    await Bun.write(join(dir, ".keep"), "");
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "--stdin", "--component-name", "Hello"], {
+      stdin: new Blob([SAMPLE_VUE]),
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: dir,
+    });
+    expect(await proc.exited).toBe(0);
+    const stdout = await new Response(proc.stdout).text();
+    const stderr = await new Response(proc.stderr).text();
+
+    expect(stdout).toContain("import './Hello.css'");
+    expect(stdout).toContain("export default defineComponent");
+    expect(stderr).toContain("warn: <stdin>:9: [VTT-SCOPED-STYLE]");
+    // Nothing is written
+    expect(await Array.fromAsync(new Glob("*").scan({ cwd: dir, dot: true }))).toEqual([".keep"]);
+  });
+
+  test("--stdin --json writes a bundle of the TSX, CSS and warnings", async () => {
+    const proc = Bun.spawn(
+      ["bun", "run", CLI_PATH, "--stdin", "--json", "--warnings-as-errors", "VTT-SCOPED-STYLE"],
+      { stdin: new Blob([SAMPLE_VUE]), stdout: "pipe", stderr: "pipe", cwd: tempDir },
+    );
+    // Warnings promoted to errors fail the run, but the output is still written
+    expect(await proc.exited).toBe(1);
+    const bundle = JSON.parse(await new Response(proc.stdout).text());
+
+    expect(bundle.tsx).toContain("import './Component.css'");
+    expect(bundle.css).toContain(".hello");
+    expect(bundle.cssFilename).toBe("Component.css");
+    expect(bundle.moduleCss).toBeNull();
+    expect(bundle.warnings).toMatchObject([{ code: "VTT-SCOPED-STYLE", severity: "error" }]);
+  });
+
+  test("--stdin rejects file patterns", async () => {
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "--stdin", "Foo.vue"], {
+      stdin: new Blob([SAMPLE_VUE]),
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    expect(await proc.exited).toBe(1);
+    expect(await new Response(proc.stderr).text()).toContain(
+      "--stdin can't be combined with file patterns",
+    );
+  });
+
+  test("--nuxt imports the Nuxt app's components from #components", async () => {
+    const dir = join(tempDir, "nuxt-app");
+    await Bun.write(join(dir, "nuxt.config.ts"), "export default defineNuxtConfig({})");
+    await Bun.write(join(dir, "components", "shop", "Cart.vue"), SAMPLE_VUE);
+    await Bun.write(
+      join(dir, "pages", "index.vue"),
+      `<template><shop-cart /></template>
+<script setup lang="ts">
+const { data } = useFetch('/api/cart')
+</script>`,
+    );
+    const proc = Bun.spawn(["bun", "run", CLI_PATH, "--nuxt", "pages/index.vue"], {
+      stdout: "pipe",
+      stderr: "pipe",
+      cwd: dir,
+    });
+    expect(await proc.exited).toBe(0);
+
+    const tsx = await Bun.file(join(dir, "pages", "index.tsx")).text();
+    expect(tsx).toContain("import { ShopCart } from '#components'");
+    expect(tsx).toContain("<ShopCart />");
+    expect(tsx).not.toContain("import { useFetch }");
+  });
+
   test("--out-dir writes to specified directory", async () => {
     const inputDir = join(tempDir, "outdir-input");
     const outputDir = join(tempDir, "outdir-output");
@@ -0,0 +1,157 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  findConfigFile,
+  isIgnored,
+  loadConfig,
+  resolveFileSettings,
+  type LoadedConfig,
+} from "../src/config";
+import { defineConfig } from "../src/index";
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "vue-to-tsx-config-"));
+});
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+function loaded(config: LoadedConfig["config"]): LoadedConfig {
+  return { path: "/project/vue-to-tsx.config.ts", dir: "/project", config };
+}
+
+describe("resolveFileSettings", () => {
+  const banner = { name: "banner" };
+  const legacy = { name: "legacy" };
+  const config = loaded(
+    defineConfig({
+      outDir: "converted",
+      llmModel: "claude-sonnet-4-20250514",
+      include: ["src/**/*.vue"],
+      plugins: [banner],
+      overrides: [
+        { files: "src/legacy/**", vue2: true, plugins: [legacy] },
+        { files: ["src/legacy/keep/**", "src/admin/**"], outDir: "admin", vue2: false },
+      ],
+    }),
+  );
+
+  test("top-level settings apply to every file", () => {
+    expect(resolveFileSettings(config, "/project/src/App.vue")).toEqual({
+      outDir: "/project/converted",
+      llmModel: "claude-sonnet-4-20250514",
+      plugins: [banner],
+    });
+  });
+
+  test("matching overrides apply in order and add their plugins", () => {
+    const settings = resolveFileSettings(config, "/project/src/legacy/Old.vue");
+    expect(settings.vue2).toBe(true);
+    expect(settings.plugins).toEqual([banner, legacy]);
+
+    const kept = resolveFileSettings(config, "/project/src/legacy/keep/New.vue");
+    expect(kept.vue2).toBe(false);
+    expect(kept.outDir).toBe("/project/admin");
+  });
+
+  test("override directives are added to the top-level ones", () => {
+    const withDirectives = loaded({
+      directives: { focus: "@/directives/focus" },
+      overrides: [{ files: "src/admin/**", directives: { can: "@/directives/can" } }],
+    });
+    expect(resolveFileSettings(withDirectives, "/project/src/admin/Users.vue").directives).toEqual({
+      focus: "@/directives/focus",
+      can: "@/directives/can",
+    });
+  });
+
+  test("override components are added to the top-level ones and relative paths are resolved", () => {
+    const withComponents = loaded({
+      components: { BaseCard: "./src/components/BaseCard.vue", AppIcon: "@/icons" },
+      directives: { focus: { from: "./src/directives", import: "vFocus" } },
+      scanComponents: ["src/main.ts"],
+      scanAutoImports: ["auto-imports.d.ts"],
+      overrides: [{ files: "src/admin/**", components: { AdminTable: "@/admin/Table.vue" } }],
+    });
+    const settings = resolveFileSettings(withComponents, "/project/src/admin/Users.vue");
+    expect(settings.components).toEqual({
+      BaseCard: "/project/src/components/BaseCard.vue",
+      AppIcon: "@/icons",
+      AdminTable: "@/admin/Table.vue",
+    });
+    expect(settings.directives).toEqual({
+      focus: { from: "/project/src/directives", import: "vFocus" },
+    });
+    expect(settings.scanComponents).toEqual(["/project/src/main.ts"]);
+    expect(settings.scanAutoImports).toEqual(["/project/auto-imports.d.ts"]);
+  });
+
+  test("no config means no settings", () => {
+    expect(resolveFileSettings(null, "/project/src/App.vue")).toEqual({});
+  });
+});
+
+describe("isIgnored", () => {
+  test("matches ignore globs relative to the config directory", () => {
+    const config = loaded({ ignore: ["**/__tests__/**", "src/Skip.vue"] });
+    expect(isIgnored(config, "/project/src/__tests__/Fixture.vue")).toBe(true);
+    expect(isIgnored(config, "/project/src/Skip.vue")).toBe(true);
+    expect(isIgnored(config, "/project/src/Keep.vue")).toBe(false);
+    expect(isIgnored(null, "/project/src/Skip.vue")).toBe(false);
+  });
+});
+
+describe("findConfigFile", () => {
+  test("looks in parent directories", async () => {
+    const root = join(tempDir, "find");
+    await Bun.write(join(root, "vue-to-tsx.config.json"), "{}");
+    await Bun.write(join(root, "src", "deep", "A.vue"), "");
+
+    expect(await findConfigFile(join(root, "src", "deep"))).toBe(
+      join(root, "vue-to-tsx.config.json"),
+    );
+  });
+
+  test("prefers .ts over .json in the same directory", async () => {
+    const root = join(tempDir, "prefer");
+    await Bun.write(join(root, "vue-to-tsx.config.json"), "{}");
+    await Bun.write(join(root, "vue-to-tsx.config.ts"), "export default {}");
+
+    expect(await findConfigFile(root)).toBe(join(root, "vue-to-tsx.config.ts"));
+  });
+});
+
+describe("loadConfig", () => {
+  test("loads the default export of a .ts config", async () => {
+    const path = join(tempDir, "load", "vue-to-tsx.config.ts");
+    await Bun.write(path, `export default { outDir: "out", naming: "kebab" }`);
+
+    const result = await loadConfig(path);
+    expect(result.dir).toBe(join(tempDir, "load"));
+    expect(result.config).toEqual({ outDir: "out", naming: "kebab" });
+  });
+
+  test("loads a .json config", async () => {
+    const path = join(tempDir, "json", "vue-to-tsx.config.json");
+    await Bun.write(path, JSON.stringify({ ignore: ["**/*.spec.vue"] }));
+
+    expect((await loadConfig(path)).config).toEqual({ ignore: ["**/*.spec.vue"] });
+  });
+
+  test("rejects invalid settings with a clear message", async () => {
+    const path = join(tempDir, "invalid", "vue-to-tsx.config.json");
+    await Bun.write(path, JSON.stringify({ overrides: [{ files: "a/**", naming: "camel" }] }));
+    await expect(loadConfig(path)).rejects.toThrow(
+      '"overrides[0].naming" must be one of "preserve", "pascal", "kebab"',
+    );
+
+    const noFiles = join(tempDir, "invalid", "no-files.json");
+    await Bun.write(noFiles, JSON.stringify({ overrides: [{ vue2: true }] }));
+    await expect(loadConfig(noFiles)).rejects.toThrow('overrides[0] needs a "files" glob');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  addStats,
+  convertFile,
+  emptyStats,
+  fileConvertOptions,
+  formatProgress,
+} from "../src/convert-file";
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "vue-to-tsx-convert-file-"));
+});
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const jobOptions = { flags: {}, loadedConfig: null, dryRun: false, delete: false };
+
+describe("convertFile", () => {
+  test("writes the outputs and returns logs, stats and the report entry", async () => {
+    const file = join(tempDir, "user-card.vue");
+    await Bun.write(
+      file,
+      `<template><div class="card">{{ $i18n.locale }}</div></template>
+<style scoped>.card { color: red; }</style>`,
+    );
+
+    const result = await convertFile(file, jobOptions);
+
+    expect(result.tsxPath).toBe(join(tempDir, "user-card.tsx"));
+    expect(await Bun.file(result.tsxPath!).text()).toContain("export default defineComponent");
+    expect(result.stats).toMatchObject({ converted: 1, cssFiles: 1, warnings: 2, errors: 0 });
+    expect(result.logs.map((l) => l.level)).toEqual(["warn", "warn", "warn", "warn", "log", "log"]);
+    expect(result.logs.at(-2)?.text).toBe(`${file} → ${result.tsxPath}`);
+    expect(result.report.status).toBe("converted");
+    expect(result.report.issues.map((i) => i.ruleId)).toEqual([
+      "VTT-SCOPED-STYLE",
+      "VTT-TEMPLATE-GLOBAL",
+    ]);
+  });
+
+  test("returns an error result without printing for missing files", async () => {
+    const result = await convertFile(join(tempDir, "Missing.vue"), jobOptions);
+
+    expect(result.tsxPath).toBeNull();
+    expect(result.stats.errors).toBe(1);
+    expect(result.logs).toEqual([
+      { level: "error", text: `Error reading ${join(tempDir, "Missing.vue")}: file not found` },
+    ]);
+    expect(result.report.status).toBe("error");
+  });
+
+  test("reuses cached results for unchanged files", async () => {
+    const file = join(tempDir, "Cached.vue");
+    const options = { ...jobOptions, flags: { cacheDir: join(tempDir, ".cache"), cache: true } };
+    await Bun.write(file, `<template><p>{{ 1 }}</p></template>`);
+
+    const first = await convertFile(file, options);
+    const second = await convertFile(file, options);
+    expect(first.stats.cached).toBe(0);
+    expect(second.stats).toMatchObject({ converted: 1, cached: 1 });
+    expect(second.logs.at(-1)?.text).toBe(`${file} → ${second.tsxPath} (cached)`);
+
+    await Bun.write(file, `<template><p>{{ 2 }}</p></template>`);
+    const changed = await convertFile(file, options);
+    expect(changed.stats.cached).toBe(0);
+    expect(await Bun.file(changed.tsxPath!).text()).toContain("{2}");
+  });
+});
+
+describe("fileConvertOptions", () => {
+  test("carries the file's settings and registries relative to the output directory", async () => {
+    const options = await fileConvertOptions(
+      {
+        lowerVModel: true,
+        nuxt: false,
+        i18nSource: "@/i18n",
+        explicitAutoImports: true,
+        components: { AppBadge: join(tempDir, "components", "Badge.vue") },
+        directives: { focus: "@/directives/focus" },
+      },
+      join(tempDir, "views", "user-page.vue"),
+      join(tempDir, "views"),
+      null,
+    );
+
+    expect(options).toMatchObject({
+      componentName: "UserPage",
+      lowerVModel: true,
+      i18nSource: "@/i18n",
+      explicitAutoImports: true,
+      components: { AppBadge: "../components/Badge.vue" },
+      directives: { focus: "@/directives/focus" },
+    });
+  });
+});
+
+describe("progress", () => {
+  test("addStats sums counts and formatProgress describes them", () => {
+    const total = emptyStats();
+    addStats(total, { ...emptyStats(), converted: 1, warnings: 3 });
+    addStats(total, { ...emptyStats(), converted: 1, fallbacks: 1 });
+
+    expect(total).toMatchObject({ converted: 2, warnings: 3, fallbacks: 1, errors: 0 });
+    expect(formatProgress(2, 40, total)).toBe("[2/40] 3 warnings, 1 fallback, 0 errors");
+  });
+});
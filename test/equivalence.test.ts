@@ -0,0 +1,89 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { join } from "path";
+import { convert } from "../src/index";
+import { checkEquivalence, defaultFixtures, normalizeHtml } from "../src/equivalence";
+
+let tempDir: string;
+
+// Inside the repo, so the components resolve `vue` from its node_modules
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(import.meta.dir, ".equivalence-"));
+});
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const BADGE = `<template>
+  <span class="badge" :class="{ on: active }">{{ label }}<slot /></span>
+</template>
+<script setup lang="ts">
+defineProps<{ label: string; active?: boolean }>()
+</script>`;
+
+const CARD = `<template>
+  <div class="card">
+    <Badge v-for="tag in tags" :key="tag" :label="tag" :active="tag === current" />
+    <p v-if="tags.length === 0">No tags</p>
+  </div>
+</template>
+<script setup lang="ts">
+import Badge from './Badge.vue'
+defineProps<{ tags: string[]; current?: string }>()
+</script>`;
+
+describe("normalizeHtml", () => {
+  test("drops comments and scope attributes and sorts attributes and classes", () => {
+    expect(
+      normalizeHtml(
+        `<!--[--><div data-v-1a2b="" id="x" class="b  a"><!--v-if-->\n  Hi <b style="color: red;">x</b></div><!--]-->`,
+      ),
+    ).toEqual(['<div class="a b" id="x">', "Hi", '<b style="color:red">', "x", "</b>", "</div>"]);
+  });
+});
+
+describe("defaultFixtures", () => {
+  test("generates props from type-based defineProps and text for each slot", () => {
+    expect(defaultFixtures(BADGE)).toEqual([
+      {
+        name: "generated",
+        props: { label: "label", active: true },
+        slots: { default: "default slot" },
+      },
+    ]);
+  });
+});
+
+describe("checkEquivalence", () => {
+  test("renders the original and generated components with each fixture", async () => {
+    const file = join(tempDir, "Card.vue");
+    await Bun.write(join(tempDir, "Badge.vue"), BADGE);
+    await Bun.write(file, CARD);
+    const { tsx } = await convert(CARD, { componentName: "Card" });
+
+    const fixtures = [
+      { name: "tags", props: { tags: ["a", "b"], current: "b" } },
+      { name: "empty", props: { tags: [] } },
+    ];
+    const result = await checkEquivalence(file, tsx, fixtures);
+    expect(result).toEqual({
+      file,
+      equivalent: true,
+      checks: [
+        { fixture: "tags", equivalent: true, diff: [] },
+        { fixture: "empty", equivalent: true, diff: [] },
+      ],
+    });
+
+    const broken = await checkEquivalence(file, tsx.replace("No tags", "Nothing"), fixtures);
+    expect(broken.equivalent).toBe(false);
+    expect(broken.checks[1]).toEqual({
+      fixture: "empty",
+      equivalent: false,
+      diff: ["- No tags", "+ Nothing"],
+    });
+    // The generated module is removed once loaded
+    expect((await readdir(tempDir)).sort()).toEqual(["Badge.vue", "Card.vue"]);
+  });
+});
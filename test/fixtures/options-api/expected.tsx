@@ -0,0 +1,75 @@
+import {
+  defineComponent,
+  inject,
+  ref,
+  computed,
+  watch,
+  nextTick,
+  onMounted,
+  onBeforeUnmount,
+} from "vue";
+import Child from "./Child";
+
+const STEP = 1;
+
+export default defineComponent({
+  name: "Counter",
+  components: { Child },
+  props: {
+    title: { type: String, required: true },
+    initial: Number,
+  },
+  emits: ["change"],
+  setup(props, { emit }) {
+    const theme = inject("theme");
+
+    const count = ref(props.initial ?? 0);
+    const name = ref("");
+    const items = ref([] as string[]);
+    const root = ref<any>(null);
+
+    const doubled = computed(() => count.value * 2);
+    const full = computed({
+      get: () => name.value + "!",
+      set: (v: string) => {
+        name.value = v;
+      },
+    });
+
+    function increment() {
+      count.value += STEP;
+      nextTick(() => {
+        console.log(root.value);
+      });
+    }
+
+    async function reset() {
+      count.value = 0;
+    }
+
+    watch(count, (n: number, o: number) => {
+      emit("change", n, o);
+    });
+    watch(() => props.title, reset, { immediate: true });
+
+    console.log("created", theme);
+
+    onMounted(() => {
+      window.addEventListener("resize", reset);
+    });
+
+    onBeforeUnmount(() => {
+      window.removeEventListener("resize", reset);
+    });
+
+    return () => (
+      <div ref={root}>
+        <p>
+          {count.value} x2 = {doubled.value} {props.title}
+        </p>
+        <button onClick={increment}>+</button>
+        <input v-model={name.value} />
+      </div>
+    );
+  },
+});
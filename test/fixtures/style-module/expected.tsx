@@ -0,0 +1,18 @@
+import { defineComponent, ref } from "vue";
+import styles from "./StyleModule.module.css";
+
+export default defineComponent({
+  setup() {
+    const isActive = ref(true);
+    const heading = ref("Hello");
+    const css = styles;
+    console.log(css.card);
+
+    return () => (
+      <div class={[styles.card, { [styles.active]: isActive.value }]}>
+        <h1 class={styles.title}>{heading.value}</h1>
+        <p class={`${styles.note} ${styles.muted}`}>Module classes</p>
+      </div>
+    );
+  },
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { rewriteImporters } from "../src/importers";
+
+const outputs = new Map([
+  ["/app/src/components/Foo.vue", "/app/src/components/Foo.tsx"],
+  ["/app/src/views/Home.vue", "/app/converted/views/home.tsx"],
+]);
+
+describe("rewriteImporters", () => {
+  test("static imports and re-exports drop the .vue extension", () => {
+    const { code, rewrites } = rewriteImporters(
+      `import Foo from './components/Foo.vue';
+export { default as FooAgain } from "./components/Foo.vue";
+import Other from './components/Other.vue';`,
+      "/app/src/main.ts",
+      outputs,
+    );
+
+    expect(code).toBe(`import Foo from './components/Foo';
+export { default as FooAgain } from "./components/Foo";
+import Other from './components/Other.vue';`);
+    expect(rewrites).toEqual([
+      { line: 1, from: "./components/Foo.vue", to: "./components/Foo" },
+      { line: 2, from: "./components/Foo.vue", to: "./components/Foo" },
+    ]);
+  });
+
+  test("dynamic imports, async components and require", () => {
+    const { code } = rewriteImporters(
+      `const Lazy = defineAsyncComponent(() => import('../components/Foo.vue'));
+const routes = [{ path: '/', component: () => import('../views/Home.vue') }];
+const Legacy = require('../components/Foo.vue');`,
+      "/app/src/router/index.js",
+      outputs,
+    );
+
+    expect(code).toContain("import('../components/Foo')");
+    expect(code).toContain("import('../../converted/views/home')");
+    expect(code).toContain("require('../components/Foo')");
+  });
+
+  test("script blocks of .vue files are rewritten in place", () => {
+    const source = `<template><Foo /></template>
+<script setup lang="ts">
+import Foo from './Foo.vue'
+</script>`;
+    const { code, rewrites } = rewriteImporters(source, "/app/src/components/Bar.vue", outputs);
+
+    expect(code).toBe(source.replace("./Foo.vue", "./Foo"));
+    expect(rewrites).toEqual([{ line: 3, from: "./Foo.vue", to: "./Foo" }]);
+  });
+
+  test("aliases, strings and unparseable files are left alone", () => {
+    const source = `import Foo from '@/components/Foo.vue';
+const label = './components/Foo.vue';`;
+    expect(rewriteImporters(source, "/app/src/main.ts", outputs).rewrites).toEqual([]);
+    expect(rewriteImporters("import from from", "/app/src/main.ts", outputs).rewrites).toEqual([]);
+  });
+});
@@ -63,6 +63,23 @@ describe("convert() end-to-end", () => {
     expect(result.tsx).not.toContain("styles.");
   });
 
+  test("<style module> component generates a CSS module and styles import", async () => {
+    const input = readFixture("style-module", "input.vue");
+    const result = await convert(input, { componentName: "StyleModule" });
+
+    expect(result.css).toBeNull();
+    expect(result.cssFilename).toBeNull();
+    expect(result.moduleCssFilename).toBe("StyleModule.module.css");
+    expect(result.moduleCss).toContain(".card");
+    expect(result.tsx).toContain("import styles from './StyleModule.module.css'");
+    expect(result.tsx).toContain("class={[styles.card, {[styles.active]: isActive.value}]}");
+    expect(result.tsx).toContain("<h1 class={styles.title}>");
+    expect(result.tsx).toContain("class={`${styles.note} ${styles.muted}`}");
+    // useCssModule() resolves to the imported object
+    expect(result.tsx).toContain("const css = styles;");
+    expect(result.tsx).not.toContain("useCssModule");
+  });
+
   test("conditionals component", async () => {
     const input = readFixture("conditionals", "input.vue");
     const result = await convert(input, { componentName: "Conditionals" });
@@ -164,22 +181,34 @@ describe("template globals and setup context", () => {
     expect(result.tsx).toMatch(/setup\([^)]*\{[^}]*emit/);
   });
 
-  test("$t produces a warning", async () => {
+  test("$t is rewritten to t from useI18n()", async () => {
     const result = await convert(
       `<template><div>{{ $t('hello') }}</div></template><script setup lang="ts">\nconst x = 1\n</script>`,
       { componentName: "I18nTest" },
     );
-    expect(result.warnings.length).toBeGreaterThan(0);
-    expect(result.warnings.some((w) => w.message.includes("$t"))).toBe(true);
+    expect(result.tsx).toContain("import { useI18n } from 'vue-i18n'");
+    expect(result.tsx).toContain("const { t } = useI18n()");
+    expect(result.tsx).toContain("{t('hello')}");
+    expect(result.warnings).toEqual([]);
   });
 
-  test("$route produces a warning", async () => {
+  test("$route is rewritten to route from useRoute()", async () => {
     const result = await convert(
       `<template><div>{{ $route.params.id }}</div></template><script setup lang="ts">\nconst x = 1\n</script>`,
       { componentName: "RouteTest" },
     );
-    expect(result.warnings.length).toBeGreaterThan(0);
-    expect(result.warnings.some((w) => w.message.includes("$route"))).toBe(true);
+    expect(result.tsx).toContain("import { useRoute } from 'vue-router'");
+    expect(result.tsx).toContain("const route = useRoute()");
+    expect(result.tsx).toContain("{route.params.id}");
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("$i18n produces a warning", async () => {
+    const result = await convert(
+      `<template><div>{{ $i18n.locale }}</div></template><script setup lang="ts">\nconst x = 1\n</script>`,
+      { componentName: "LocaleTest" },
+    );
+    expect(result.warnings.some((w) => w.message.includes("$i18n"))).toBe(true);
   });
 
   test("<slot> and $slots both use slots consistently", async () => {
@@ -719,6 +748,105 @@ const lastName = ref('Doe')
   });
 });
 
+describe("AST-based identifier rewriting", () => {
+  const script = `<script setup lang="ts">
+import { ref } from 'vue'
+const props = defineProps<{ label: string }>()
+const count = ref(0)
+const getLabel = ref(() => 'x')
+</script>`;
+
+  async function convertTemplate(template: string): Promise<string> {
+    const result = await convert(`<template>\n  ${template}\n</template>\n${script}`, {
+      componentName: "Rewrite",
+    });
+    return result.tsx;
+  }
+
+  test("inline arrow params shadow refs and props", async () => {
+    const tsx = await convertTemplate(
+      `<button @click="(count, label) => save(count, label, props2)">x</button>`,
+    );
+    expect(tsx).toContain("onClick={(count, label) => save(count, label, props2)}");
+  });
+
+  test("object shorthand keeps its key", async () => {
+    const tsx = await convertTemplate(`<Child :data="{ count, label }" />`);
+    expect(tsx).toContain("data={{ count: count.value, label: props.label }}");
+  });
+
+  test("member keys and object keys are not rewritten", async () => {
+    const tsx = await convertTemplate(`<div :title="store.count + obj.label" :style="{ count: 1 }" />`);
+    expect(tsx).toContain("title={store.count + obj.label}");
+    expect(tsx).toContain("style={{ count: 1 }}");
+  });
+
+  test("computed keys and nested function bodies are rewritten", async () => {
+    const tsx = await convertTemplate(
+      `<div :class="{ [label]: items.some((i) => i === count) }" />`,
+    );
+    expect(tsx).toContain("{ [props.label]: items.some((i) => i === count.value) }");
+  });
+
+  test("strings and template literal text are left alone", async () => {
+    const tsx = await convertTemplate("<div :title=\"`count: ${count}` + 'label'\" />");
+    expect(tsx).toContain("title={`count: ${count.value}` + 'label'}");
+  });
+
+  test("called refs and already-unwrapped refs are unchanged", async () => {
+    const tsx = await convertTemplate(`<div :title="getLabel() + count.value" />`);
+    expect(tsx).toContain("title={getLabel() + count.value}");
+  });
+
+  test("event handler statements are rewritten", async () => {
+    const tsx = await convertTemplate(`<button @click="count++; emitLabel(label)">x</button>`);
+    expect(tsx).toContain("count.value++");
+    expect(tsx).toContain("emitLabel(props.label)");
+  });
+
+  test("v-for aliases in the for expression are not rewritten", async () => {
+    const tsx = await convertTemplate(`<p v-for="count in 3" :key="count">x</p>`);
+    expect(tsx).toContain("_renderList(3, (count) =>");
+  });
+});
+
+describe("v-for and v-slot scopes", () => {
+  test("v-for alias named like a prop is not prefixed inside the loop", async () => {
+    const input = `<template>
+  <div>
+    <span>{{ item }}</span>
+    <p v-for="item in items" :key="item.id">{{ item.name }}</p>
+  </div>
+</template>
+<script setup lang="ts">
+defineProps<{ item: string; items: { id: number; name: string }[] }>()
+</script>`;
+    const result = await convert(input, { componentName: "Scoped" });
+
+    expect(result.tsx).toContain("<span>{props.item}</span>");
+    expect(result.tsx).toContain(
+      "_renderList(props.items, (item) => (<p key={item.id}>{item.name}</p>))",
+    );
+  });
+
+  test("nested scopes stack", async () => {
+    const input = `<template>
+  <Table v-for="row in rows" :key="row">
+    <template #cell="{ value }">{{ row }} {{ value }} {{ total }}</template>
+  </Table>
+</template>
+<script setup lang="ts">
+import { ref } from 'vue'
+const rows = ref([])
+const value = ref(1)
+const total = ref(0)
+</script>`;
+    const result = await convert(input, { componentName: "Nested" });
+
+    expect(result.tsx).toContain("cell: ({ value }) => <>{row} {value} {total.value}</>");
+  });
+});
+
 describe("composable return values treated as refs", () => {
   test("useLocalStorage return value gets .value", async () => {
     const input = `<template>
@@ -1108,6 +1236,304 @@ import Bar from '@/components/Bar.vue'
   });
 });
 
+describe("Options API script converted to Composition API", () => {
+  test("data, computed and methods are reachable from the render function", async () => {
+    const input = `<template>
+  <button :title="label" @click="increment">{{ count }} / {{ doubled }}</button>
+</template>
+<script>
+export default {
+  props: { label: String },
+  data() {
+    return { count: 0 }
+  },
+  computed: {
+    doubled() {
+      return this.count * 2
+    }
+  },
+  methods: {
+    increment() {
+      this.count++
+      this.$emit('change', this.count)
+    }
+  }
+}
+</script>`;
+    const result = await convert(input, { componentName: "Counter" });
+
+    expect(result.warnings).toHaveLength(0);
+    expect(result.tsx).toContain("import { ref, computed, defineComponent } from 'vue'");
+    expect(result.tsx).toContain("setup(props, { emit }) {");
+    expect(result.tsx).toContain("const count = ref(0)");
+    expect(result.tsx).toContain("const doubled = computed(() => count.value * 2)");
+    expect(result.tsx).toContain("count.value++");
+    expect(result.tsx).toContain("emit('change', count.value)");
+    expect(result.tsx).toContain(
+      "<button title={props.label} onClick={increment}>{count.value} / {doubled.value}</button>",
+    );
+    expect(result.tsx).not.toContain("this.");
+  });
+
+  test("unconvertible instance members produce warnings", async () => {
+    const input = `<template><div /></template>
+<script>
+export default {
+  mounted() {
+    this.$store.dispatch('load')
+  }
+}
+</script>`;
+    const result = await convert(input, { componentName: "Store" });
+
+    expect(result.warnings.some((w) => w.message.includes("this.$store"))).toBe(true);
+  });
+});
+
+describe("CSS modules", () => {
+  test("named module is rewritten in template expressions", async () => {
+    const input = `<template>
+  <div :class="classes.box">{{ 'classes.box' }}</div>
+</template>
+
+<style module="classes">
+.box { color: red; }
+</style>`;
+    const result = await convert(input, { componentName: "Named" });
+
+    expect(result.tsx).toContain("class={styles.box}");
+    expect(result.tsx).toContain("{'classes.box'}");
+  });
+
+  test("plain and module styles produce two files", async () => {
+    const input = `<template>
+  <div class="plain box"></div>
+</template>
+
+<style>
+.plain { color: red; }
+</style>
+<style module lang="scss">
+.box { color: blue; }
+</style>`;
+    const result = await convert(input, { componentName: "Mixed" });
+
+    expect(result.cssFilename).toBe("Mixed.css");
+    expect(result.moduleCssFilename).toBe("Mixed.module.scss");
+    expect(result.tsx).toContain("import './Mixed.css'");
+    expect(result.tsx).toContain("import styles from './Mixed.module.scss'");
+    expect(result.tsx).toContain("class={`plain ${styles.box}`}");
+  });
+
+  test("this.$style in Options API becomes styles", async () => {
+    const input = `<template>
+  <div :class="$style.box"></div>
+</template>
+
+<script>
+export default {
+  computed: {
+    boxClass() {
+      return this.$style.box
+    }
+  }
+}
+</script>
+
+<style module>
+.box { color: blue; }
+</style>`;
+    const result = await convert(input, { componentName: "Opts" });
+
+    expect(result.tsx).toContain("computed(() => styles.box)");
+    expect(result.tsx).toContain("class={styles.box}");
+  });
+});
+
+describe("preserveScopedStyles", () => {
+  const input = `<template>
+  <div class="card">
+    <Child class="child" />
+    <Teleport to="body"><span>hi</span></Teleport>
+  </div>
+</template>
+
+<style scoped>
+.card :deep(.inner) { color: red; }
+</style>
+<style>
+.global { color: blue; }
+</style>`;
+
+  test("scopes selectors and adds the scope attribute to rendered elements", async () => {
+    const result = await convert(input, {
+      componentName: "Card",
+      preserveScopedStyles: true,
+    });
+    const scopeId = result.css!.match(/\[(data-v-[0-9a-f]{8})\]/)![1];
+
+    expect(result.css).toContain(`.card[${scopeId}] .inner { color: red; }`);
+    expect(result.css).toContain(".global { color: blue; }");
+    expect(result.tsx).toContain(`<div class="card" ${scopeId}="">`);
+    expect(result.tsx).toContain(`<Child class="child" ${scopeId}="" />`);
+    expect(result.tsx).toContain(`<span ${scopeId}="">hi</span>`);
+    expect(result.tsx).toContain('<Teleport to="body">');
+    expect(result.warnings.some((w) => w.message.includes("Scoped styles"))).toBe(false);
+  });
+
+  test("scope attribute is stable across runs", async () => {
+    const a = await convert(input, { componentName: "Card", preserveScopedStyles: true });
+    const b = await convert(input, { componentName: "Card", preserveScopedStyles: true });
+    expect(a.tsx).toBe(b.tsx);
+    expect(a.css).toBe(b.css);
+  });
+
+  test("is off by default", async () => {
+    const result = await convert(input, { componentName: "Card" });
+    expect(result.tsx).not.toContain("data-v-");
+    expect(result.css).toContain(".card .inner");
+  });
+});
+
+describe("v-bind() in CSS", () => {
+  test("script setup refs and props set custom properties via useCssVars", async () => {
+    const input = `<template>
+  <div class="box">hi</div>
+</template>
+
+<script setup lang="ts">
+import { ref } from 'vue'
+defineProps<{ size: string }>()
+const color = ref('red')
+</script>
+
+<style>
+.box { color: v-bind(color); width: v-bind(size); }
+</style>`;
+    const result = await convert(input, { componentName: "Box" });
+    const [, id] = result.css!.match(/var\(--([0-9a-f]{8})-color\)/)!;
+
+    expect(result.css).toContain(`width: var(--${id}-size);`);
+    expect(result.css).not.toContain("v-bind(");
+    expect(result.tsx).toContain("import { ref, defineComponent, useCssVars } from 'vue'");
+    expect(result.tsx).toContain(`useCssVars(() => ({
+      '${id}-color': color.value,
+      '${id}-size': props.size,
+    }))`);
+  });
+
+  test("Options API data is read through its ref", async () => {
+    const input = `<template>
+  <div class="box"></div>
+</template>
+
+<script>
+export default {
+  data() {
+    return { color: 'red' }
+  }
+}
+</script>
+
+<style>
+.box { color: v-bind(color); }
+</style>`;
+    const result = await convert(input, { componentName: "Box" });
+
+    expect(result.tsx).toMatch(/useCssVars\(\(\) => \(\{\n\s+'[0-9a-f]{8}-color': color\.value,/);
+  });
+});
+
+describe("vue2 mode", () => {
+  const input = `<template>
+  <div>
+    <p :title="name | upper">{{ price | currency('USD') }}</p>
+    <my-dialog :visible.sync="open" @click.native="onClick" @update-item="save($event)" v-on="$listeners">
+      <template slot="header" slot-scope="{ title }"><h1>{{ title }}</h1></template>
+      <span slot="footer">Foot</span>
+      <p>Body</p>
+    </my-dialog>
+    <div v-html="raw"></div>
+    <input v-model.trim="name">
+  </div>
+</template>
+<script>
+export default {
+  model: { prop: 'checked', event: 'change' },
+  props: { checked: Boolean },
+  data() { return { price: 1, name: 'x', open: false, raw: '' } },
+  filters: {
+    currency(value, code) { return code + value },
+    upper(s) { return s.toUpperCase() }
+  },
+  methods: {
+    onClick() { this.$emit('change', !this.checked) },
+    save(item) {}
+  }
+}
+</script>`;
+
+  test("filters become calls to the converted filter functions", async () => {
+    const result = await convert(input, { componentName: "Price", vue2: true });
+
+    expect(result.tsx).toContain("function currency(value, code)");
+    expect(result.tsx).toContain("{currency(price.value, 'USD')}");
+    expect(result.tsx).toContain("title={upper(name.value)}");
+  });
+
+  test("listeners, .sync and .native use babel-preset-jsx data attributes", async () => {
+    const result = await convert(input, { componentName: "Price", vue2: true });
+
+    expect(result.tsx).toContain("visible={open.value}");
+    expect(result.tsx).toContain(
+      "{...{ on: { 'update:visible': ($event) => (open.value = $event) } }}",
+    );
+    expect(result.tsx).toContain("nativeOnClick={onClick}");
+    expect(result.tsx).toContain("on-update-item={($event) => save($event)}");
+    expect(result.tsx).toContain("{...{ on: listeners }}");
+    expect(result.tsx).toContain("setup(props, { emit, listeners })");
+  });
+
+  test("slot and slot-scope children become scopedSlots", async () => {
+    const result = await convert(input, { componentName: "Price", vue2: true });
+
+    expect(result.tsx).toContain("scopedSlots={{");
+    expect(result.tsx).toContain("header: ({ title }) => <h1>{title}</h1>");
+    expect(result.tsx).toContain("footer: () => <span>Foot</span>");
+    expect(result.tsx).toContain("default: () => <p>Body</p>");
+    expect(result.tsx).not.toContain("slot-scope");
+  });
+
+  test("keeps the model option and uses Vue 2 directive syntax", async () => {
+    const result = await convert(input, { componentName: "Price", vue2: true });
+
+    expect(result.tsx).toContain("model: { prop: 'checked', event: 'change' },");
+    expect(result.tsx).toContain("domPropsInnerHTML={raw.value}");
+    expect(result.tsx).toContain("v-model_trim={name.value}");
+  });
+
+  test("v-model with an argument warns", async () => {
+    const result = await convert(
+      `<template><Modal v-model:visible="open" /></template>
+<script setup>
+import { ref } from 'vue'
+const open = ref(false)
+</script>`,
+      { componentName: "Arg", vue2: true },
+    );
+
+    expect(result.warnings.some((w) => w.message.includes(":visible.sync"))).toBe(true);
+  });
+
+  test("is off by default", async () => {
+    const result = await convert(input, { componentName: "Price" });
+
+    expect(result.tsx).not.toContain("scopedSlots");
+    expect(result.tsx).not.toContain("listeners");
+    expect(result.warnings.some((w) => w.message.includes("'filters'"))).toBe(true);
+  });
+});
+
 describe("fixture comparison", () => {
   const fixtureNames = readdirSync(FIXTURES_DIR).filter((name) =>
     existsSync(join(FIXTURES_DIR, name, "input.vue")),
@@ -5,7 +5,7 @@ import {
   buildPrompt,
   detectProvider,
 } from "../../src/llm/index";
-import type { FallbackItem } from "../../src/types";
+import type { FallbackItem, LlmCache } from "../../src/types";
 
 describe("generateFallbackComment", () => {
   test("generates correct TODO comment format", () => {
@@ -107,10 +107,16 @@ describe("detectProvider", () => {
 });
 
 describe("resolveFallbacks", () => {
+  const ENV_KEYS = [
+    "ANTHROPIC_API_KEY",
+    "OPENAI_API_KEY",
+    "VUE_TO_TSX_LLM_PROVIDER",
+    "VUE_TO_TSX_LLM_MODEL",
+  ];
   const savedEnv: Record<string, string | undefined> = {};
 
   afterEach(() => {
-    for (const key of ["ANTHROPIC_API_KEY", "OPENAI_API_KEY", "VUE_TO_TSX_LLM_PROVIDER"]) {
+    for (const key of ENV_KEYS) {
       if (savedEnv[key] !== undefined) {
         process.env[key] = savedEnv[key];
       } else {
@@ -120,7 +126,7 @@ describe("resolveFallbacks", () => {
   });
 
   function saveAndClearEnv() {
-    for (const key of ["ANTHROPIC_API_KEY", "OPENAI_API_KEY", "VUE_TO_TSX_LLM_PROVIDER"]) {
+    for (const key of ENV_KEYS) {
       savedEnv[key] = process.env[key];
       delete process.env[key];
     }
@@ -149,4 +155,70 @@ describe("resolveFallbacks", () => {
 
     console.warn = originalWarn;
   });
+
+  test("reuses cached replacements and only prompts for the rest", async () => {
+    const stored = new Map<string, string>([["<input v-focus />", "<input ref={focusRef} />"]]);
+    const cache: LlmCache = {
+      get: async (item) => stored.get(item.source),
+      set: async (item, _model, replacement) => {
+        stored.set(item.source, replacement);
+      },
+    };
+    const prompts: string[] = [];
+    const generate = async (prompt: string) => {
+      prompts.push(prompt);
+      return '["<div>{tooltip}</div>"]';
+    };
+
+    const fallbacks: FallbackItem[] = [
+      { source: "<input v-focus />", reason: "Custom directive" },
+      { source: "<div v-tooltip />", reason: "Custom directive" },
+    ];
+    const result = await resolveFallbacks(fallbacks, "MyComponent", { generate, cache });
+
+    expect(result.get("<input v-focus />")).toBe("<input ref={focusRef} />");
+    expect(result.get("<div v-tooltip />")).toBe("<div>{tooltip}</div>");
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).not.toContain("v-focus");
+    expect(stored.get("<div v-tooltip />")).toBe("<div>{tooltip}</div>");
+
+    // Everything is cached now, so the model isn't called again
+    await resolveFallbacks(fallbacks, "MyComponent", { generate, cache });
+    expect(prompts).toHaveLength(1);
+  });
+
+  test("caches per provider and effective model", async () => {
+    saveAndClearEnv();
+    process.env.ANTHROPIC_API_KEY = "sk-ant-test";
+    const stored = new Map<string, string>();
+    const cache: LlmCache = {
+      get: async (item, model) => stored.get(`${model} ${item.source}`),
+      set: async (item, model, replacement) => {
+        stored.set(`${model} ${item.source}`, replacement);
+      },
+    };
+    let calls = 0;
+    const generate = async () => {
+      calls++;
+      return '["<div>{tooltip}</div>"]';
+    };
+    const fallbacks: FallbackItem[] = [{ source: "<div v-tooltip />", reason: "Custom directive" }];
+
+    await resolveFallbacks(fallbacks, "MyComponent", { generate, cache });
+    expect(stored.has("anthropic:claude-sonnet-4-5 <div v-tooltip />")).toBe(true);
+
+    // Another model from the environment misses the cache
+    process.env.VUE_TO_TSX_LLM_MODEL = "claude-opus-4-1";
+    await resolveFallbacks(fallbacks, "MyComponent", { generate, cache });
+    expect(calls).toBe(2);
+    expect(stored.has("anthropic:claude-opus-4-1 <div v-tooltip />")).toBe(true);
+
+    // As does another provider with the same model name
+    process.env.VUE_TO_TSX_LLM_PROVIDER = "openai";
+    await resolveFallbacks(fallbacks, "MyComponent", { generate, cache });
+    expect(calls).toBe(3);
+
+    await resolveFallbacks(fallbacks, "MyComponent", { generate, cache });
+    expect(calls).toBe(3);
+  });
 });
@@ -0,0 +1,154 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { findNuxtRoot, loadNuxtProject, nuxtComponentName } from "../src/nuxt";
+import { convert } from "../src/index";
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "vue-to-tsx-nuxt-"));
+});
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe("loadNuxtProject", () => {
+  test("reads the declarations generated in .nuxt", async () => {
+    const root = join(tempDir, "prepared");
+    await Bun.write(
+      join(root, ".nuxt", "imports.d.ts"),
+      `export { useFetch, useState, navigateTo as goTo } from '../node_modules/nuxt/dist/app';
+export { ref, computed } from 'vue';
+export { useCart } from '../composables/cart';
+export { type Cart } from '../composables/cart';
+`,
+    );
+    await Bun.write(
+      join(root, ".nuxt", "components.d.ts"),
+      `interface _GlobalComponents {
+      'BaseButton': typeof import("../components/BaseButton.vue")['default']
+      'NuxtLink': typeof import("../node_modules/nuxt/dist/app/components/nuxt-link")['default']
+      'LazyBaseButton': LazyComponent<typeof import("../components/BaseButton.vue")['default']>
+}
+`,
+    );
+
+    const project = await loadNuxtProject(root);
+    expect(project.autoImports).toEqual({
+      useFetch: "#imports",
+      useState: "#imports",
+      goTo: "#imports",
+      ref: "#imports",
+      computed: "#imports",
+      useCart: "#imports",
+    });
+    expect(Object.keys(project.components)).toEqual(["BaseButton", "NuxtLink", "LazyBaseButton"]);
+    expect(project.components.BaseButton).toEqual({ from: "#components", import: "BaseButton" });
+  });
+
+  test("scans composables, utils and components without .nuxt", async () => {
+    const root = join(tempDir, "fresh");
+    await Bun.write(join(root, "nuxt.config.ts"), "export default defineNuxtConfig({})");
+    await Bun.write(
+      join(root, "composables", "useCart.ts"),
+      "export const useCart = () => useState('cart', () => [])\nexport function useCartTotal() {}\n",
+    );
+    await Bun.write(
+      join(root, "utils", "format-price.ts"),
+      "export default (n: number) => `$${n}`\n",
+    );
+    await Bun.write(join(root, "components", "AppHeader.vue"), "<template><header /></template>");
+    await Bun.write(
+      join(root, "components", "base", "Input.vue"),
+      "<template><input /></template>",
+    );
+
+    const project = await loadNuxtProject(root);
+    expect(project.autoImports).toEqual({
+      useCart: "#imports",
+      useCartTotal: "#imports",
+      formatPrice: "#imports",
+    });
+    expect(Object.keys(project.components).sort()).toEqual([
+      "AppHeader",
+      "BaseInput",
+      "LazyAppHeader",
+      "LazyBaseInput",
+    ]);
+    expect(findNuxtRoot(join(root, "components", "base", "Input.vue"))).toBe(root);
+  });
+});
+
+describe("nuxtComponentName", () => {
+  test("follows Nuxt's path-prefixed naming", () => {
+    expect(nuxtComponentName("base/foo/Button.vue")).toBe("BaseFooButton");
+    expect(nuxtComponentName("base/BaseInput.vue")).toBe("BaseInput");
+    expect(nuxtComponentName("form/index.vue")).toBe("Form");
+    expect(nuxtComponentName("the-footer.vue")).toBe("TheFooter");
+  });
+});
+
+describe("Nuxt mode", () => {
+  test("keeps auto-imports implicit, imports components from #components and hoists definePageMeta", async () => {
+    const result = await convert(
+      `<template>
+  <div>
+    <nuxt-link to="/">Home</nuxt-link>
+    <ClientOnly><cart-summary compact /></ClientOnly>
+  </div>
+</template>
+<script setup lang="ts">
+definePageMeta({ middleware: ['auth'] })
+const route = useRoute()
+const items = useCart()
+const open = ref(false)
+</script>`,
+      {
+        componentName: "Cart",
+        nuxt: true,
+        autoImports: { useCart: "../composables/cart" },
+        components: { CartSummary: { from: "#components", import: "CartSummary" } },
+      },
+    );
+
+    expect(result.tsx).toContain("import { defineComponent } from 'vue'");
+    expect(result.tsx).toContain("import { NuxtLink, ClientOnly, CartSummary } from '#components'");
+    expect(result.tsx).not.toContain("vue-router");
+    expect(result.tsx).toContain(
+      "definePageMeta({ middleware: ['auth'] })\n\nexport default defineComponent({",
+    );
+    expect(result.tsx).toContain('<NuxtLink to="/">Home</NuxtLink>');
+    expect(result.tsx).toContain("<CartSummary compact />");
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("with explicit auto-imports, Nuxt's composables are imported from #imports", async () => {
+    const result = await convert(
+      `<template><div>{{ route.path }}</div></template>
+<script setup lang="ts">
+definePageMeta({ layout: 'wide' })
+const route = useRoute()
+const open = ref(false)
+</script>`,
+      { componentName: "Path", nuxt: true, explicitAutoImports: true },
+    );
+
+    expect(result.tsx).toContain("import { ref, defineComponent } from 'vue'");
+    expect(result.tsx).toContain("import { useRoute, definePageMeta } from '#imports'");
+  });
+
+  test("outside Nuxt mode, Vue auto-imports still get explicit imports", async () => {
+    const result = await convert(
+      `<template><div>{{ route.path }}</div></template>
+<script setup lang="ts">
+const route = useRoute()
+</script>`,
+      { componentName: "Path" },
+    );
+
+    expect(result.tsx).toContain("import { useRoute } from 'vue-router'");
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, expect, test } from "bun:test";
+import { convert, definePlugin } from "../src/index";
+
+const tooltip = definePlugin({
+  name: "tooltip",
+  directives: {
+    tooltip: ({ exp, modifiers }) =>
+      modifiers.includes("skip") ? false : [`title={${exp}}`, `aria-label={${exp}}`],
+  },
+});
+
+describe("plugins", () => {
+  test("directive handlers replace the LLM fallback", async () => {
+    const result = await convert(
+      `<template><button v-tooltip="label" v-focus>Go</button></template>
+<script setup>
+import { ref } from 'vue'
+const label = ref('Save')
+</script>`,
+      { componentName: "Btn", plugins: [tooltip] },
+    );
+
+    expect(result.tsx).toContain("<button title={label.value} aria-label={label.value}>");
+    // Unhandled custom directives still fall back
+    expect(result.fallbacks.map((f) => f.source)).toEqual(["v-focus"]);
+  });
+
+  test("a directive handler returning false drops the directive", async () => {
+    const result = await convert(`<template><i v-tooltip.skip="x" /></template>`, {
+      componentName: "Icon",
+      plugins: [tooltip],
+    });
+
+    expect(result.tsx).toContain("<i />");
+    expect(result.fallbacks).toEqual([]);
+  });
+
+  test("element handlers render whole elements", async () => {
+    const result = await convert(
+      `<template><div><router-link to="/home" class="nav">Home</router-link></div></template>`,
+      {
+        componentName: "Nav",
+        plugins: [
+          {
+            name: "router",
+            elements: {
+              "router-link": (el, context) => {
+                context.addImport("vue-router", ["RouterLink"]);
+                return `<RouterLink${el.attributes()}>${el.children()}</RouterLink>`;
+              },
+            },
+          },
+        ],
+      },
+    );
+
+    expect(result.tsx).toContain('<RouterLink to="/home" class="nav">Home</RouterLink>');
+    expect(result.tsx).toContain("import { RouterLink } from 'vue-router'");
+  });
+
+  test("attribute handlers see static and bound attributes", async () => {
+    const result = await convert(
+      `<template><div data-test="card"><span :data-test="id" /></div></template>
+<script setup>
+defineProps<{ id: string }>()
+</script>`,
+      {
+        componentName: "Card",
+        plugins: [
+          {
+            name: "strip-test-ids",
+            attributes: {
+              "data-test": ({ value, bound }) => (bound ? `data-testid={${value}}` : false),
+            },
+          },
+        ],
+      },
+    );
+
+    expect(result.tsx).toContain("<div><span data-testid={props.id} /></div>");
+  });
+
+  test("template globals are rewritten and add their setup statement and imports", async () => {
+    const result = await convert(
+      `<template><p :title="$t('hint')">{{ $t('hello') }}</p></template>`,
+      {
+        componentName: "Hello",
+        plugins: [
+          {
+            name: "i18n",
+            templateGlobals: {
+              $t: {
+                replacement: "t",
+                setup: "const { t } = useI18n()",
+                imports: { "vue-i18n": ["useI18n"] },
+              },
+            },
+          },
+        ],
+      },
+    );
+
+    expect(result.tsx).toContain("<p title={t('hint')}>{t('hello')}</p>");
+    expect(result.tsx).toContain("import { useI18n } from 'vue-i18n'");
+    expect(result.tsx.match(/const \{ t \} = useI18n\(\)/g)).toHaveLength(1);
+    expect(result.warnings.some((w) => w.message.includes("$t"))).toBe(false);
+  });
+
+  test("script macros are replaced before conversion", async () => {
+    const result = await convert(
+      `<template><div>{{ count }}</div></template>
+<script setup lang="ts">
+const count = defineCounter<number>(5)
+</script>`,
+      {
+        componentName: "Counter",
+        plugins: [
+          {
+            name: "counter",
+            macros: {
+              defineCounter: ({ typeArgs, args }, context) => {
+                context.addImport("vue", ["ref"]);
+                return `ref<${typeArgs}>(${args})`;
+              },
+            },
+          },
+        ],
+      },
+    );
+
+    expect(result.tsx).toContain("const count = ref<number>(5)");
+    expect(result.tsx).toContain("<div>{count.value}</div>");
+  });
+
+  test("source, style and output transforms run in plugin order", async () => {
+    const order: string[] = [];
+    const result = await convert(
+      `<template><div class="a">LEGACY</div></template>
+<style>.a { color: $brand; }</style>`,
+      {
+        componentName: "Staged",
+        plugins: [
+          {
+            name: "first",
+            transformSource: (source) => {
+              order.push("source");
+              return source.replace("LEGACY", "modern");
+            },
+            transformStyle: (css) => css.replace("$brand", "red"),
+            transformOutput: (r, context) => {
+              order.push("output");
+              context.warn("reviewed");
+              return { ...r, tsx: `// ${context.componentName}\n${r.tsx}` };
+            },
+          },
+          {
+            name: "second",
+            transformOutput: (r) => {
+              order.push("output 2");
+              return { ...r, tsx: r.tsx.replace("// Staged", "// Staged (2)") };
+            },
+          },
+        ],
+      },
+    );
+
+    expect(order).toEqual(["source", "output", "output 2"]);
+    expect(result.tsx).toContain('<div class="a">modern</div>');
+    expect(result.tsx.startsWith("// Staged (2)\n")).toBe(true);
+    expect(result.css).toContain("color: red;");
+    expect(result.warnings.map((w) => w.message)).toContain("reviewed");
+  });
+
+  test("earlier plugins win and undefined defers to the next", async () => {
+    const result = await convert(`<template><a v-track="'home'" v-other /></template>`, {
+      componentName: "Link",
+      plugins: [
+        { name: "noop", directives: { track: () => undefined } },
+        { name: "track", directives: { track: ({ exp }) => `data-track={${exp}}` } },
+        { name: "late", directives: { track: () => "ignored" } },
+      ],
+    });
+
+    expect(result.tsx).toContain("<a data-track={'home'} />");
+  });
+});
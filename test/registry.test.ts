@@ -0,0 +1,143 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { scanAutoImports, scanComponentRegistry } from "../src/registry";
+import { resolveRegistries } from "../src/convert-file";
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "vue-to-tsx-registry-"));
+});
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe("scanComponentRegistry", () => {
+  test("reads the GlobalComponents of a components.d.ts", async () => {
+    const file = join(tempDir, "components.d.ts");
+    await Bun.write(
+      file,
+      `export {}
+declare module 'vue' {
+  export interface GlobalComponents {
+    BaseCard: typeof import('./src/components/BaseCard.vue')['default']
+    RouterLink: typeof import('vue-router')['RouterLink']
+  }
+}
+`,
+    );
+
+    expect(await scanComponentRegistry(file)).toEqual({
+      BaseCard: join(tempDir, "src/components/BaseCard.vue"),
+      RouterLink: { from: "vue-router", import: "RouterLink" },
+    });
+  });
+
+  test("reads app.component() calls in an entry file", async () => {
+    const file = join(tempDir, "src", "main.ts");
+    await Bun.write(
+      file,
+      `import { createApp } from 'vue'
+import App from './App.vue'
+import BaseButton from './components/BaseButton.vue'
+import { Icon } from '@/icons'
+
+const app = createApp(App)
+app.component('base-button', BaseButton)
+app.component('AppIcon', Icon)
+app.mount('#app')
+`,
+    );
+
+    expect(await scanComponentRegistry(file)).toEqual({
+      BaseButton: join(tempDir, "src/components/BaseButton.vue"),
+      AppIcon: { from: "@/icons", import: "Icon" },
+    });
+  });
+});
+
+describe("scanAutoImports", () => {
+  test("reads the globals declared by unplugin-auto-import", async () => {
+    const file = join(tempDir, "auto-imports.d.ts");
+    await Bun.write(
+      file,
+      `/* eslint-disable */
+// Generated by unplugin-auto-import
+export {}
+declare global {
+  const computed: typeof import('vue')['computed']
+  const dayjs: typeof import('dayjs')['default']
+  const useCounter: typeof import('./src/composables/counter')['useCounter']
+  const $fetchJson: typeof import('./src/utils/fetch')['fetchJson']
+}
+declare module 'vue' {
+  interface ComponentCustomProperties {
+    readonly computed: UnwrapRef<typeof import('vue')['computed']>
+  }
+}
+`,
+    );
+
+    expect(await scanAutoImports(file)).toEqual({
+      computed: "vue",
+      dayjs: { from: "dayjs", import: "default" },
+      useCounter: join(tempDir, "src/composables/counter"),
+      $fetchJson: { from: join(tempDir, "src/utils/fetch"), import: "fetchJson" },
+    });
+  });
+
+  test("reads the exports of Nuxt's imports.d.ts", async () => {
+    const file = join(tempDir, ".nuxt", "imports.d.ts");
+    await Bun.write(
+      file,
+      `export { useFetch, navigateTo as goTo, type NuxtApp } from '../node_modules/nuxt/dist/app';
+export { default as formatPrice } from '../utils/format-price';
+`,
+    );
+
+    expect(await scanAutoImports(file)).toEqual({
+      useFetch: join(tempDir, "node_modules/nuxt/dist/app"),
+      goTo: { from: join(tempDir, "node_modules/nuxt/dist/app"), import: "navigateTo" },
+      formatPrice: { from: join(tempDir, "utils/format-price"), import: "default" },
+    });
+  });
+});
+
+describe("resolveRegistries", () => {
+  test("merges scanned and explicit components, relative to the output directory", async () => {
+    const file = join(tempDir, "scan", "main.ts");
+    await Bun.write(
+      file,
+      `import Card from './components/Card.vue'
+import Modal from './components/Modal.vue'
+app.component('Card', Card).component('Modal', Modal)
+`,
+    );
+
+    const autoImportsFile = join(tempDir, "scan", "auto-imports.d.ts");
+    await Bun.write(
+      autoImportsFile,
+      "declare global {\n  const useCart: typeof import('./composables/cart')['useCart']\n}\n",
+    );
+
+    const registries = await resolveRegistries(
+      {
+        scanComponents: [file],
+        scanAutoImports: [autoImportsFile],
+        components: { Modal: "@/components/NewModal.vue" },
+        directives: { focus: join(tempDir, "scan", "directives", "focus.ts") },
+      },
+      join(tempDir, "scan", "views", "Page.vue"),
+      join(tempDir, "scan", "views"),
+      null,
+    );
+    expect(registries).toEqual({
+      components: { Card: "../components/Card.vue", Modal: "@/components/NewModal.vue" },
+      directives: { focus: "../directives/focus.ts" },
+      autoImports: { useCart: "../composables/cart" },
+    });
+  });
+});
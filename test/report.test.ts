@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import { createReport, fallbackIssue, formatReport, warningIssue } from "../src/report";
+import type { ReportFile } from "../src/types";
+
+const files: ReportFile[] = [
+  {
+    file: "src/Card.vue",
+    status: "converted",
+    durationMs: 12,
+    outputs: ["src/Card.tsx", "src/Card.css"],
+    issues: [
+      warningIssue({
+        code: "VTT-SCOPED-STYLE",
+        severity: "warning",
+        message: "Scoped styles are not scoped in TSX",
+        line: 9,
+        fix: "Use --preserve-scoped",
+      }),
+      fallbackIssue({ source: "v-focus", reason: "Custom directive", line: 2, column: 8 }, false),
+    ],
+  },
+  {
+    file: "src/Broken.vue",
+    status: "error",
+    durationMs: 3,
+    outputs: [],
+    issues: [{ ruleId: "VTT-CONVERT-ERROR", severity: "error", message: "Unexpected token" }],
+  },
+];
+
+describe("createReport", () => {
+  test("summarizes files and issues", () => {
+    expect(createReport("/project", files).summary).toEqual({
+      files: 2,
+      converted: 1,
+      errors: 1,
+      warnings: 1,
+      fallbacks: 1,
+      durationMs: 15,
+    });
+  });
+});
+
+describe("fallbackIssue", () => {
+  test("is an error without the LLM and a note with it", () => {
+    const fallback = { source: "v-focus", reason: "Custom directive" };
+    expect(fallbackIssue(fallback, false).severity).toBe("error");
+    expect(fallbackIssue(fallback, true)).toEqual({
+      ruleId: "VTT-FALLBACK",
+      severity: "note",
+      message: "Custom directive: v-focus",
+      line: undefined,
+      column: undefined,
+    });
+  });
+});
+
+describe("formatReport", () => {
+  test("json includes the files, issues and tool version", () => {
+    const json = JSON.parse(formatReport(createReport("/project", files), "json"));
+    expect(json.version).toMatch(/^\d+\.\d+\.\d+/);
+    expect(json.root).toBe("/project");
+    expect(json.files[0].outputs).toEqual(["src/Card.tsx", "src/Card.css"]);
+    expect(json.files[0].issues[1]).toEqual({
+      ruleId: "VTT-FALLBACK",
+      severity: "error",
+      message: "Custom directive: v-focus",
+      line: 2,
+      column: 8,
+    });
+  });
+
+  test("sarif results carry rule, level and region", () => {
+    const sarif = JSON.parse(formatReport(createReport("/project", files), "sarif"));
+    expect(sarif.version).toBe("2.1.0");
+
+    const run = sarif.runs[0];
+    expect(run.tool.driver.name).toBe("vue-to-tsx");
+    expect(run.originalUriBaseIds.SRCROOT.uri).toBe("file:///project/");
+    expect(run.invocations[0].executionSuccessful).toBe(false);
+    expect(run.results).toHaveLength(3);
+    expect(run.tool.driver.rules[run.results[1].ruleIndex].id).toBe("VTT-FALLBACK");
+    expect(run.results[1]).toMatchObject({
+      ruleId: "VTT-FALLBACK",
+      level: "error",
+      message: { text: "Custom directive: v-focus" },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "src/Card.vue", uriBaseId: "SRCROOT" },
+            region: { startLine: 2, startColumn: 8 },
+          },
+        },
+      ],
+    });
+    // Suggested fixes are part of the message shown in annotations
+    expect(run.results[0].message.text).toBe(
+      "Scoped styles are not scoped in TSX Suggested fix: Use --preserve-scoped",
+    );
+    // Issues without a location point at the start of the file
+    expect(run.results[2].locations[0].physicalLocation.region).toEqual({ startLine: 1 });
+  });
+});
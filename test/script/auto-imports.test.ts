@@ -108,9 +108,98 @@ const route = useRoute()
     const result = detectAutoImports(scriptBody, "", existingImports);
     expect(result).toHaveLength(1);
   });
+
+  test("leaves the project's auto-imports implicit", () => {
+    const scriptBody = "const route = useRoute()\nconst count = ref(0)";
+    const result = detectAutoImports(scriptBody, "", [], { autoImports: { useRoute: "#imports" } });
+
+    expect(result).toEqual([
+      { source: "vue", namedImports: [{ imported: "ref", local: "ref" }], typeOnly: false },
+    ]);
+  });
+
+  test("imports the project's auto-imports when explicit", () => {
+    const scriptBody = `const { count, inc } = useCounter()
+const today = dayjs()
+const stored = useStorage('key', 0)`;
+    const result = detectAutoImports(scriptBody, "<p>{formatDate(today)}</p>", [], {
+      autoImports: {
+        useCounter: "@/composables/counter",
+        dayjs: { from: "dayjs", import: "default" },
+        useStorage: { from: "@vueuse/core", import: "useLocalStorage" },
+        formatDate: "@/utils/date",
+        useMouse: "@vueuse/core",
+      },
+      explicit: true,
+    });
+
+    expect(result).toEqual([
+      {
+        source: "@/composables/counter",
+        namedImports: [{ imported: "useCounter", local: "useCounter" }],
+        typeOnly: false,
+      },
+      { source: "dayjs", defaultImport: "dayjs", namedImports: [], typeOnly: false },
+      {
+        source: "@vueuse/core",
+        namedImports: [{ imported: "useLocalStorage", local: "useStorage" }],
+        typeOnly: false,
+      },
+      {
+        source: "@/utils/date",
+        namedImports: [{ imported: "formatDate", local: "formatDate" }],
+        typeOnly: false,
+      },
+    ]);
+  });
+
+  test("skips member accesses and names declared in the script", () => {
+    const scriptBody = `const set = new Set()
+const cache = { get: () => 1 }
+cache.get()
+set.add(1)
+const items = [...toRaw(list)]`;
+    const result = detectAutoImports(scriptBody, "", [], {
+      autoImports: { get: "@vueuse/core", set: "@vueuse/core" },
+      explicit: true,
+      declared: new Set(["set", "cache", "items"]),
+    });
+
+    expect(result).toEqual([
+      { source: "vue", namedImports: [{ imported: "toRaw", local: "toRaw" }], typeOnly: false },
+    ]);
+  });
 });
 
 describe("auto-imports integration", () => {
+  test("the project's auto-imports are left implicit or imported explicitly", async () => {
+    const source = `<template>
+  <p>{{ formatDate(today) }} {{ count }}</p>
+</template>
+<script setup lang="ts">
+const { count } = useCounter()
+const today = ref(new Date())
+</script>`;
+    const autoImports = {
+      useCounter: "@/composables/counter",
+      formatDate: "@/utils/date",
+      ref: "vue",
+    };
+
+    const implicit = await convert(source, { componentName: "Today", autoImports });
+    expect(implicit.tsx).toContain("import { defineComponent } from 'vue'");
+    expect(implicit.tsx).not.toContain("@/composables/counter");
+
+    const explicit = await convert(source, {
+      componentName: "Today",
+      autoImports,
+      explicitAutoImports: true,
+    });
+    expect(explicit.tsx).toContain("import { ref, defineComponent } from 'vue'");
+    expect(explicit.tsx).toContain("import { useCounter } from '@/composables/counter'");
+    expect(explicit.tsx).toContain("import { formatDate } from '@/utils/date'");
+  });
+
   test("SFC with auto-imported ref/computed produces TSX with explicit imports", async () => {
     const sfc = `
 <template>
@@ -1,5 +1,10 @@
 import { describe, expect, test } from "bun:test";
-import { mergeImports, generateImportStatements, addVueImport } from "../../src/script/imports";
+import {
+  mergeImports,
+  generateImportStatements,
+  addVueImport,
+  addNamedImport,
+} from "../../src/script/imports";
 import type { ImportInfo } from "../../src/types";
 
 describe("mergeImports", () => {
@@ -198,3 +203,29 @@ describe("addVueImport", () => {
     expect(imports[0].namedImports).toHaveLength(1);
   });
 });
+
+describe("addNamedImport", () => {
+  test("adds to the value import of the source, not a type-only one", () => {
+    const imports: ImportInfo[] = [
+      {
+        source: "vue-router",
+        namedImports: [{ imported: "RouteLocation", local: "RouteLocation" }],
+        typeOnly: true,
+      },
+    ];
+
+    addNamedImport(imports, "vue-router", "useRoute");
+    addNamedImport(imports, "vue-router", "useRouter");
+    addNamedImport(imports, "vue-router", "useRoute");
+
+    expect(imports).toHaveLength(2);
+    expect(imports[1]).toEqual({
+      source: "vue-router",
+      namedImports: [
+        { imported: "useRoute", local: "useRoute" },
+        { imported: "useRouter", local: "useRouter" },
+      ],
+      typeOnly: false,
+    });
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, expect, test } from "bun:test";
-import { extractMacros, parsePropTypes, detectLocalIdentifiers } from "../../src/script/macros";
+import {
+  extractMacros,
+  parsePropTypes,
+  detectLocalIdentifiers,
+  replaceMacroCalls,
+} from "../../src/script/macros";
 
 describe("extractMacros", () => {
   test("extracts defineProps with type parameter", () => {
@@ -98,6 +103,19 @@ defineOptions({ name: 'MyComponent', inheritAttrs: false })
     expect(result.options!.runtime).toBe("{ name: 'MyComponent', inheritAttrs: false }");
   });
 
+  test("extracts page macros to keep at module scope", () => {
+    const script = `
+definePageMeta({
+  layout: 'admin',
+})
+const title = ref('Users')
+`;
+    const result = extractMacros(script);
+
+    expect(result.moduleMacros).toEqual(["definePageMeta({\n  layout: 'admin',\n})"]);
+    expect(result.body).toBe("const title = ref('Users')");
+  });
+
   test("extracts all macros together", () => {
     const script = `
 import { ref } from 'vue'
@@ -563,3 +581,23 @@ describe("detectLocalIdentifiers", () => {
     expect(detectLocalIdentifiers("")).toEqual(new Set());
   });
 });
+
+describe("replaceMacroCalls", () => {
+  test("replaces calls with type arguments and leaves member calls alone", () => {
+    const code = `const a = defineStore<State>({ id: 1 })\nstore.defineStore(x)\nmydefineStore(y)`;
+    const result = replaceMacroCalls(code, {
+      defineStore: ({ typeArgs, args }) => `createStore<${typeArgs}>(${args})`,
+    });
+    expect(result).toBe(
+      `const a = createStore<State>({ id: 1 })\nstore.defineStore(x)\nmydefineStore(y)`,
+    );
+  });
+
+  test("an empty replacement removes the call, undefined keeps it", () => {
+    const code = `track(a)\ntrack(keep)`;
+    const result = replaceMacroCalls(code, {
+      track: ({ args }) => (args === "keep" ? undefined : ""),
+    });
+    expect(result).toBe(`\ntrack(keep)`);
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, expect, test } from "bun:test";
+import { convertOptionsApi } from "../../src/script/options-api";
+
+describe("convertOptionsApi", () => {
+  test("returns null without an export default object", () => {
+    expect(convertOptionsApi("const x = 1")).toBeNull();
+    expect(convertOptionsApi("export default createComponent()")).toBeNull();
+  });
+
+  test("unwraps defineComponent({ ... })", () => {
+    const result = convertOptionsApi(`export default defineComponent({ name: 'Foo' })`);
+    expect(result).not.toBeNull();
+    expect(result!.options).toEqual(["name: 'Foo'"]);
+  });
+
+  test("data() properties become refs", () => {
+    const result = convertOptionsApi(`
+export default {
+  data() {
+    return { count: 0, name: 'x' }
+  }
+}`)!;
+    expect(result.setupBody).toContain("const count = ref(0)");
+    expect(result.setupBody).toContain("const name = ref('x')");
+    expect(result.vueImports).toContain("ref");
+    expect([...result.refIdentifiers]).toEqual(["count", "name"]);
+  });
+
+  test("arrow data and statements before return", () => {
+    const result = convertOptionsApi(`
+export default {
+  data() {
+    const start = Date.now()
+    return { start }
+  }
+}`)!;
+    expect(result.setupBody).toContain("const start = Date.now()");
+    expect(convertOptionsApi(`export default { data: () => ({ open: false }) }`)!.setupBody).toBe(
+      "const open = ref(false)",
+    );
+  });
+
+  test("computed getters and get/set pairs", () => {
+    const result = convertOptionsApi(`
+export default {
+  data() { return { n: 1 } },
+  computed: {
+    double() { return this.n * 2 },
+    model: {
+      get() { return this.n },
+      set(v) { this.n = v }
+    }
+  }
+}`)!;
+    expect(result.setupBody).toContain("const double = computed(() => n.value * 2)");
+    expect(result.setupBody).toContain("get: () => n.value");
+    expect(result.setupBody).toContain("n.value = v");
+    expect(result.refIdentifiers.has("double")).toBe(true);
+  });
+
+  test("methods become functions and this.method() calls are unwrapped", () => {
+    const result = convertOptionsApi(`
+export default {
+  methods: {
+    save(id) { this.log(id) },
+    log: (msg) => console.log(msg),
+  }
+}`)!;
+    expect(result.setupBody).toContain("function save(id) {\n  log(id)\n}");
+    expect(result.setupBody).toContain("const log = (msg) => console.log(msg)");
+  });
+
+  test("props are rewritten to props.x", () => {
+    const result = convertOptionsApi(`
+export default {
+  props: ['label'],
+  methods: {
+    read() { return this.label }
+  }
+}`)!;
+    expect(result.hasProps).toBe(true);
+    expect([...result.propIdentifiers]).toEqual(["label"]);
+    expect(result.options).toEqual(["props: ['label']"]);
+    expect(result.setupBody).toContain("return props.label");
+  });
+
+  test("watch forms", () => {
+    const result = convertOptionsApi(`
+export default {
+  props: { id: Number },
+  data() { return { q: '', form: { a: 1 } } },
+  watch: {
+    q(value) { this.search(value) },
+    id: 'reload',
+    'form.a': { handler(v) { console.log(v) }, deep: true },
+  },
+  methods: { search() {}, reload() {} }
+}`)!;
+    expect(result.setupBody).toContain("watch(q, (value) => {\n  search(value)\n})");
+    expect(result.setupBody).toContain("watch(() => props.id, reload)");
+    expect(result.setupBody).toContain("watch(() => form.value.a, (v) => {");
+    expect(result.setupBody).toContain("}, { deep: true })");
+  });
+
+  test("lifecycle hooks and created", () => {
+    const result = convertOptionsApi(`
+export default {
+  created() { this.init() },
+  mounted() { this.init() },
+  beforeDestroy() {},
+  methods: { init() {} }
+}`)!;
+    expect(result.setupBody).toContain("init()\n\nonMounted(() => {\n  init()\n})");
+    expect(result.setupBody).toContain("onBeforeUnmount(() => {");
+    expect(result.vueImports).toEqual(expect.arrayContaining(["onMounted", "onBeforeUnmount"]));
+  });
+
+  test("created bodies with an early return run in their own function", () => {
+    const result = convertOptionsApi(`
+export default {
+  props: ['label'],
+  created() {
+    if (!this.label) return
+    console.log(this.label)
+  },
+}`)!;
+    expect(result.setupBody).toBe(
+      "void (() => {\n  if (!props.label) return\n  console.log(props.label)\n})()",
+    );
+  });
+
+  test("created locals get their own scope so they cannot clash with data or computed", () => {
+    const result = convertOptionsApi(`
+export default {
+  data() { return { count: 0 } },
+  computed: { double() { return this.count * 2 } },
+  created() {
+    const count = this.count + 1
+    const double = this.double
+    console.log(count, { double })
+  },
+  beforeCreate() {
+    var count = 1
+    console.log(count)
+  },
+  mounted() {
+    const count = 2
+    console.log(count)
+  },
+}`)!;
+    expect(result.setupBody).toContain(
+      "{\n  const countLocal = count.value + 1\n  const doubleLocal = double.value\n  console.log(countLocal, { double: doubleLocal })\n}",
+    );
+    expect(result.setupBody).toContain(
+      "void (() => {\n  var count = 1\n  console.log(count)\n})()",
+    );
+    expect(result.setupBody).toContain("onMounted(() => {\n  const count = 2\n");
+  });
+
+  test("this inside function expressions of wrapped methods is rewritten", () => {
+    const result = convertOptionsApi(`
+export default {
+  data() { return { count: 0 } },
+  methods: {
+    inc: debounce(function () { this.count++ }, 300),
+  },
+}`)!;
+    expect(result.setupBody).toContain("const inc = debounce(function () { count.value++ }, 300)");
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("instance properties map to setup context and Vue APIs", () => {
+    const result = convertOptionsApi(`
+export default {
+  methods: {
+    go() {
+      this.$emit('go', this.$attrs.id)
+      this.$nextTick(() => this.$refs.input.focus())
+    }
+  }
+}`)!;
+    expect(result.setupBody).toContain("emit('go', attrs.id)");
+    expect(result.setupBody).toContain("nextTick(() => input.value.focus())");
+    expect(result.setupBody).toContain("const input = ref<any>(null)");
+    expect([...result.usedContextMembers].sort()).toEqual(["attrs", "emit"]);
+    expect(result.refIdentifiers.has("input")).toBe(true);
+  });
+
+  test("this inside nested regular functions is left alone", () => {
+    const result = convertOptionsApi(`
+export default {
+  data() { return { a: 1 } },
+  methods: {
+    run() {
+      return [1].map(function () { return this.a })
+    }
+  }
+}`)!;
+    expect(result.setupBody).toContain("return this.a");
+  });
+
+  test("inject and provide", () => {
+    const result = convertOptionsApi(`
+export default {
+  inject: { theme: { from: 'appTheme', default: 'light' } },
+  data() { return { user: null } },
+  provide() {
+    return { user: this.user }
+  }
+}`)!;
+    expect(result.setupBody).toContain("const theme = inject('appTheme', 'light')");
+    expect(result.setupBody).toContain("provide('user', user.value)");
+  });
+
+  test("unresolved this members and unknown options produce warnings", () => {
+    const result = convertOptionsApi(`
+export default {
+  filters: { upper: (s) => s.toUpperCase() },
+  mounted() { this.$store.commit('x') }
+}`)!;
+    expect(result.options).toEqual(["filters: { upper: (s) => s.toUpperCase() }"]);
+    expect(result.warnings.some((w) => w.message.includes("'filters'"))).toBe(true);
+    expect(result.warnings.some((w) => w.message.includes("this.$store"))).toBe(true);
+  });
+
+  test("vue2 converts filters to functions and this.$listeners to the setup context", () => {
+    const result = convertOptionsApi(
+      `
+export default {
+  filters: { upper: (s) => s.toUpperCase() },
+  mounted() { this.$listeners.ready() }
+}`,
+      undefined,
+      { vue2: true },
+    )!;
+    expect(result.options).toEqual([]);
+    expect(result.setupBody).toContain("const upper = (s) => s.toUpperCase()");
+    expect(result.setupBody).toContain("listeners.ready()");
+    expect(result.usedContextMembers.has("listeners")).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("collects imports and module-level statements", () => {
+    const result = convertOptionsApi(
+      `
+import { debounce } from 'lodash'
+import type { User } from './types'
+const LIMIT = 10
+export default {}`,
+      "ts",
+    )!;
+    expect(result.imports).toEqual([
+      {
+        source: "lodash",
+        namedImports: [{ imported: "debounce", local: "debounce" }],
+        typeOnly: false,
+      },
+      { source: "./types", namedImports: [{ imported: "User", local: "User" }], typeOnly: true },
+    ]);
+    expect(result.preamble).toBe("const LIMIT = 10");
+  });
+});
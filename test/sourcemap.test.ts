@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { convert } from "../src/index";
+import {
+  buildSourceMap,
+  markJsx,
+  markLines,
+  originalPosition,
+  sourceMarker,
+} from "../src/sourcemap";
+
+const SOURCE = `<template>
+  <div class="a">
+    <span v-if="ok">{{ msg }}</span>
+  </div>
+</template>
+
+<script setup lang="ts">
+import { ref } from 'vue'
+const props = defineProps<{ msg: string }>()
+
+const ok = ref(true)
+</script>`;
+
+describe("buildSourceMap", () => {
+  test("strips markers and maps their positions", () => {
+    const { code, map } = buildSourceMap(`${sourceMarker(1, 1)}abc\nx${sourceMarker(3, 5)}y`, {
+      file: "A.tsx",
+      source: "A.vue",
+      sourceContent: "",
+    });
+    expect(code).toBe("abc\nxy");
+    expect(map.mappings).toBe("AAAA;CAEI");
+    expect(map.file).toBe("A.tsx");
+    expect(map.sources).toEqual(["A.vue"]);
+  });
+
+  test("markJsx keeps the snippet's leading character", () => {
+    expect(markJsx("<div />", 2, 3).startsWith("<")).toBe(true);
+    expect(markJsx("{x}", 2, 3).startsWith("{")).toBe(true);
+    expect(markJsx("text", 2, 3)).toBe("text");
+  });
+
+  test("markLines skips empty and generated lines", () => {
+    const marked = markLines("a\n\nb\nc", [0, 1, -1, 3], 10);
+    expect(marked).toBe(`${sourceMarker(10, 1)}a\n\nb\n${sourceMarker(13, 1)}c`);
+  });
+
+  test("originalPosition uses the nearest mapping at or before a position", () => {
+    const { map } = buildSourceMap(`${sourceMarker(2, 1)}ab${sourceMarker(4, 7)}cd\nplain`, {
+      file: "A.tsx",
+      source: "A.vue",
+      sourceContent: "",
+    });
+    expect(originalPosition(map, 0, 0)).toEqual({ line: 2, column: 1 });
+    expect(originalPosition(map, 0, 3)).toEqual({ line: 4, column: 7 });
+    // Unmapped lines use the last mapping above them
+    expect(originalPosition(map, 1, 2)).toEqual({ line: 4, column: 7 });
+    expect(originalPosition({ mappings: ";" }, 1, 0)).toBeNull();
+  });
+});
+
+describe("convert() with sourceMap", () => {
+  test("output is identical with and without source maps", async () => {
+    const plain = await convert(SOURCE, { componentName: "A" });
+    const mapped = await convert(SOURCE, { componentName: "A", sourceMap: true });
+
+    expect(mapped.tsx).toBe(plain.tsx);
+    expect(mapped.tsx).not.toContain("\uE000");
+    expect(plain.map).toBeUndefined();
+  });
+
+  test("returns a map pointing at the .vue source", async () => {
+    const result = await convert(SOURCE, {
+      componentName: "A",
+      sourceMap: true,
+      filename: "src/A.vue",
+    });
+
+    expect(result.map).toBeDefined();
+    expect(result.map!.file).toBe("A.tsx");
+    expect(result.map!.sources).toEqual(["src/A.vue"]);
+    expect(result.map!.sourcesContent).toEqual([SOURCE]);
+    // One mapping group per generated line
+    expect(result.map!.mappings.split(";")).toHaveLength(result.tsx.split("\n").length);
+  });
+
+  test("maps template elements and script lines", async () => {
+    const result = await convert(SOURCE, { componentName: "A", sourceMap: true });
+    const groups = result.map!.mappings.split(";");
+    const lines = result.tsx.split("\n");
+
+    const scriptLine = lines.findIndex((l) => l.includes("const ok = ref(true)"));
+    const jsxLine = lines.findIndex((l) => l.includes('<div class="a">'));
+    expect(groups[scriptLine]).not.toBe("");
+    expect(groups[jsxLine]).not.toBe("");
+    // Generated imports and the defineComponent wrapper have no original position
+    expect(groups[0]).toBe("");
+  });
+});
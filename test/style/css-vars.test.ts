@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { extractCssVars } from "../../src/style/css-vars";
+import { extractStyles } from "../../src/style/index";
+import { getStyleHash } from "../../src/style/scoped";
+import type { CssVar, StyleBlock } from "../../src/types";
+
+describe("extractCssVars", () => {
+  test("replaces bare and quoted v-bind() with custom properties", () => {
+    const vars = new Map<string, CssVar>();
+    const css = extractCssVars(
+      `.a { color: v-bind(color); width: v-bind('props.size'); font: v-bind("theme.font"); }`,
+      "abc",
+      vars,
+    );
+
+    expect(css).toBe(
+      ".a { color: var(--abc-color); width: var(--abc-props_size); font: var(--abc-theme_font); }",
+    );
+    expect([...vars.values()]).toEqual([
+      { name: "abc-color", expression: "color" },
+      { name: "abc-props_size", expression: "props.size" },
+      { name: "abc-theme_font", expression: "theme.font" },
+    ]);
+  });
+
+  test("reuses the custom property for a repeated expression", () => {
+    const vars = new Map<string, CssVar>();
+    const css = extractCssVars(
+      ".a { color: v-bind(c); } .b { border-color: v-bind( c ); }",
+      "x",
+      vars,
+    );
+
+    expect(css).toBe(".a { color: var(--x-c); } .b { border-color: var(--x-c); }");
+    expect(vars.size).toBe(1);
+  });
+
+  test("expressions that map to the same name get distinct custom properties", () => {
+    const vars = new Map<string, CssVar>();
+    const css = extractCssVars(".a { color: v-bind(a_b); width: v-bind(a.b); }", "x", vars);
+
+    expect(css).toBe(`.a { color: var(--x-a_b); width: var(--x-a_b-${getStyleHash("a.b")}); }`);
+    expect([...vars.values()].map((v) => v.expression)).toEqual(["a_b", "a.b"]);
+  });
+
+  test("leaves CSS without v-bind() unchanged", () => {
+    const vars = new Map<string, CssVar>();
+    expect(extractCssVars(".a { color: red; }", "x", vars)).toBe(".a { color: red; }");
+    expect(vars.size).toBe(0);
+  });
+});
+
+describe("extractStyles with v-bind()", () => {
+  test("collects css vars across plain and module blocks", () => {
+    const styles: StyleBlock[] = [
+      { content: ".a { color: v-bind(color); }", scoped: true, lang: undefined },
+      { content: ".b { color: v-bind(color); }", scoped: false, lang: undefined, module: true },
+    ];
+    const result = extractStyles(styles, "MyComponent", { cssVarsId: "id" });
+
+    expect(result!.css).toContain("var(--id-color)");
+    expect(result!.cssModule!.css).toContain("var(--id-color)");
+    expect(result!.cssVars).toEqual([{ name: "id-color", expression: "color" }]);
+  });
+
+  test("id defaults to a hash of the component name", () => {
+    const styles: StyleBlock[] = [
+      { content: ".a { color: v-bind(color); }", scoped: false, lang: undefined },
+    ];
+    const a = extractStyles(styles, "MyComponent");
+    const b = extractStyles(styles, "MyComponent");
+
+    expect(a!.cssVars[0]!.name).toMatch(/^[0-9a-f]{8}-color$/);
+    expect(a!.cssVars).toEqual(b!.cssVars);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { getScopeId, scopeCss } from "../../src/style/scoped";
+
+const ID = "data-v-1234abcd";
+
+describe("getScopeId", () => {
+  test("is stable for the same key", () => {
+    expect(getScopeId("src/Foo.vue")).toBe(getScopeId("src/Foo.vue"));
+    expect(getScopeId("src/Foo.vue")).toMatch(/^data-v-[0-9a-f]{8}$/);
+  });
+
+  test("differs between components", () => {
+    expect(getScopeId("src/Foo.vue")).not.toBe(getScopeId("src/Bar.vue"));
+  });
+});
+
+describe("scopeCss", () => {
+  test("scopes the last compound selector", () => {
+    expect(scopeCss(".a .b { color: red; }", ID)).toBe(`.a .b[${ID}] { color: red; }`);
+    expect(scopeCss(".a > .b {}", ID)).toBe(`.a > .b[${ID}] {}`);
+  });
+
+  test("scopes every selector in a list", () => {
+    expect(scopeCss(".a, .b {}", ID)).toBe(`.a[${ID}], .b[${ID}] {}`);
+  });
+
+  test("inserts the attribute before pseudo-classes and pseudo-elements", () => {
+    expect(scopeCss(".a:hover {}", ID)).toBe(`.a[${ID}]:hover {}`);
+    expect(scopeCss(".a::before {}", ID)).toBe(`.a[${ID}]::before {}`);
+    expect(scopeCss(".a:not(.b) {}", ID)).toBe(`.a[${ID}]:not(.b) {}`);
+  });
+
+  test("replaces the universal selector", () => {
+    expect(scopeCss("* {}", ID)).toBe(`[${ID}] {}`);
+  });
+
+  test(":deep() leaves the inner selector unscoped", () => {
+    expect(scopeCss(".a :deep(.b) {}", ID)).toBe(`.a[${ID}] .b {}`);
+    expect(scopeCss(".a > :deep(.b .c) {}", ID)).toBe(`.a[${ID}] > .b .c {}`);
+    expect(scopeCss(":deep(.b) {}", ID)).toBe(`[${ID}] .b {}`);
+    expect(scopeCss(".a ::v-deep(.b) {}", ID)).toBe(`.a[${ID}] .b {}`);
+  });
+
+  test("legacy deep combinators", () => {
+    expect(scopeCss(".a >>> .b {}", ID)).toBe(`.a[${ID}] .b {}`);
+    expect(scopeCss(".a /deep/ .b {}", ID)).toBe(`.a[${ID}] .b {}`);
+    expect(scopeCss(".a ::v-deep .b {}", ID)).toBe(`.a[${ID}] .b {}`);
+  });
+
+  test(":slotted() matches slot content inside the component", () => {
+    expect(scopeCss(":slotted(.s) {}", ID)).toBe(`[${ID}] .s {}`);
+    expect(scopeCss(".wrap :slotted(.s) {}", ID)).toBe(`.wrap[${ID}] .s {}`);
+  });
+
+  test(":global() leaves the selector unscoped", () => {
+    expect(scopeCss(":global(.g) {}", ID)).toBe(".g {}");
+    expect(scopeCss(".a, :global(body) {}", ID)).toBe(`.a[${ID}], body {}`);
+  });
+
+  test("scopes rules inside @media but not @keyframes", () => {
+    expect(scopeCss("@media (min-width: 1px) { .a { color: red } }", ID)).toBe(
+      `@media (min-width: 1px) { .a[${ID}] { color: red } }`,
+    );
+    const keyframes = "@keyframes spin { from { opacity: 0 } to { opacity: 1 } }";
+    expect(scopeCss(keyframes, ID)).toBe(keyframes);
+  });
+
+  test("scopes only the innermost selector of nested SCSS rules", () => {
+    expect(scopeCss(".a { color: red; .b { x: y } &:hover { x: z } }", ID)).toBe(
+      `.a { &[${ID}] { color: red; } .b[${ID}] { x: y } &[${ID}]:hover { x: z } }`,
+    );
+    expect(scopeCss(".dark-theme { .card { .btn { x: y } } }", ID)).toBe(
+      `.dark-theme { .card { .btn[${ID}] { x: y } } }`,
+    );
+  });
+
+  test("keeps variables and nested properties of an ancestor rule in place", () => {
+    expect(
+      scopeCss(".a { $gap: 4px; font: { size: 1px } .b { margin: $gap } color: red }", ID),
+    ).toBe(
+      `.a { $gap: 4px; &[${ID}] { font: { size: 1px } } .b[${ID}] { margin: $gap } &[${ID}] { color: red } }`,
+    );
+  });
+
+  test("rules nested below :deep() are not scoped again", () => {
+    expect(scopeCss(".a :deep(.b) { .c { x: y } }", ID)).toBe(`.a[${ID}] .b { .c { x: y } }`);
+  });
+
+  test("ignores braces and commas in comments and strings", () => {
+    const css = `/* a, b { } */\n.a::after { content: "{;}"; }`;
+    expect(scopeCss(css, ID)).toBe(`/* a, b { } */\n.a[${ID}]::after { content: "{;}"; }`);
+  });
+});
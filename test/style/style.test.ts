@@ -218,8 +218,18 @@ describe("scoped style warnings", () => {
 
     expect(result).not.toBeNull();
     expect(result!.warnings.length).toBeGreaterThan(0);
-    expect(result!.warnings[0]).toContain("Scoped");
-    expect(result!.warnings[0]).toContain("plain CSS");
+    expect(result!.warnings[0]!.message).toContain("Scoped");
+    expect(result!.warnings[0]!.message).toContain("plain CSS");
+  });
+
+  test("the warning has a code, the block's line and a suggested fix", () => {
+    const styles: StyleBlock[] = [
+      { content: ".foo { color: red; }", line: 7, scoped: true, lang: undefined },
+    ];
+    const warning = extractStyles(styles, "MyComponent")!.warnings[0];
+
+    expect(warning).toMatchObject({ code: "VTT-SCOPED-STYLE", severity: "warning", line: 7 });
+    expect(warning!.fix).toContain("preserveScopedStyles");
   });
 
   test("non-scoped styles do not produce scoped warning", () => {
@@ -233,6 +243,83 @@ describe("scoped style warnings", () => {
   });
 });
 
+describe("CSS modules", () => {
+  test("<style module> goes to cssModule and populates the classMap", () => {
+    const styles: StyleBlock[] = [
+      {
+        content: ".card { background: url(bg.png); }\n.is-active, .title:hover { color: red; }",
+        scoped: false,
+        lang: undefined,
+        module: true,
+      },
+    ];
+    const result = extractStyles(styles, "MyComponent");
+
+    expect(result).not.toBeNull();
+    expect(result!.css).toBeNull();
+    expect(result!.cssModule!.css).toContain(".card");
+    expect(result!.cssModule!.names).toEqual(["$style"]);
+    expect(result!.classMap.get("card")).toBe("styles.card");
+    expect(result!.classMap.get("is-active")).toBe("styles['is-active']");
+    expect(result!.classMap.get("title")).toBe("styles.title");
+    // Declaration values are not selectors
+    expect(result!.classMap.has("png")).toBe(false);
+  });
+
+  test("plain and module blocks are split", () => {
+    const styles: StyleBlock[] = [
+      { content: ".plain { color: red; }", scoped: false, lang: undefined },
+      { content: ".mod { color: blue; }", scoped: false, lang: "scss", module: "classes" },
+    ];
+    const result = extractStyles(styles, "MyComponent");
+
+    expect(result!.css).toContain(".plain");
+    expect(result!.css).not.toContain(".mod");
+    expect(result!.lang).toBeUndefined();
+    expect(result!.cssModule!.lang).toBe("scss");
+    expect(result!.cssModule!.names).toEqual(["classes"]);
+    expect([...result!.classMap.keys()]).toEqual(["mod"]);
+  });
+
+  test("classes also defined in a plain block are not mapped", () => {
+    const styles: StyleBlock[] = [
+      { content: ".shared { color: red; }", scoped: false, lang: undefined },
+      { content: ".shared, .own { color: blue; }", scoped: false, lang: undefined, module: true },
+    ];
+    const result = extractStyles(styles, "MyComponent");
+
+    expect(result!.classMap.has("shared")).toBe(false);
+    expect(result!.classMap.get("own")).toBe("styles.own");
+  });
+
+  test(":global() is kept and its classes are not mapped", () => {
+    const styles: StyleBlock[] = [
+      {
+        content: ":global(.theme) .btn { color: red; }",
+        scoped: false,
+        lang: undefined,
+        module: true,
+      },
+    ];
+    const result = extractStyles(styles, "MyComponent");
+
+    expect(result!.cssModule!.css).toContain(":global(.theme)");
+    expect(result!.classMap.has("theme")).toBe(false);
+    expect(result!.classMap.get("btn")).toBe("styles.btn");
+  });
+
+  test("multiple named modules produce a merge warning", () => {
+    const styles: StyleBlock[] = [
+      { content: ".a {}", scoped: false, lang: undefined, module: true },
+      { content: ".b {}", scoped: false, lang: undefined, module: "other" },
+    ];
+    const result = extractStyles(styles, "MyComponent");
+
+    expect(result!.cssModule!.names).toEqual(["$style", "other"]);
+    expect(result!.warnings.some((w) => w.message.includes("merged"))).toBe(true);
+  });
+});
+
 describe("getStyleFilename", () => {
   test("returns .css for plain CSS", () => {
     expect(getStyleFilename("MyComponent")).toBe("MyComponent.css");
@@ -246,4 +333,9 @@ describe("getStyleFilename", () => {
   test("returns .less for Less", () => {
     expect(getStyleFilename("MyComponent", "less")).toBe("MyComponent.less");
   });
+
+  test("returns .module.<ext> for CSS modules", () => {
+    expect(getStyleFilename("MyComponent", undefined, true)).toBe("MyComponent.module.css");
+    expect(getStyleFilename("MyComponent", "scss", true)).toBe("MyComponent.module.scss");
+  });
 });
@@ -87,6 +87,24 @@ describe("generateAttributes", () => {
       expect(formatAttributes(result)).toBe(" {...attrs}");
     });
 
+    test("static class is rewritten through the class map", () => {
+      const classMap = new Map([
+        ["card", "styles.card"],
+        ["is-big", "styles['is-big']"],
+      ]);
+      expect(attrsFor('<div class="card"></div>', classMap)).toBe(" class={styles.card}");
+      expect(attrsFor('<div class="card is-big plain"></div>', classMap)).toBe(
+        " class={`${styles.card} ${styles['is-big']} plain`}",
+      );
+    });
+
+    test("merged static and dynamic class with class map", () => {
+      const classMap = new Map([["card", "styles.card"]]);
+      expect(attrsFor(`<div class="card" :class="{ card: on }"></div>`, classMap)).toBe(
+        " class={[styles.card, {[styles.card]: on}]}",
+      );
+    });
+
     test(":class with object literal passes through as-is", () => {
       expect(attrsFor(`<div :class="{ active: isActive }"></div>`)).toBe(
         " class={{ active: isActive }}",
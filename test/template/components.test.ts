@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import { convert } from "../../src/index";
+
+describe("component registry", () => {
+  test("kebab-case tags of registered components become imported PascalCase components", async () => {
+    const result = await convert(
+      `<template>
+  <base-card title="Hi">
+    <app-icon name="close" />
+    <BaseButton>Ok</BaseButton>
+  </base-card>
+</template>
+<script setup lang="ts">
+</script>`,
+      {
+        componentName: "Dialog",
+        components: {
+          BaseCard: "@/components/BaseCard.vue",
+          AppIcon: { from: "@/components/icons", import: "Icon" },
+          BaseButton: "./BaseButton.vue",
+        },
+      },
+    );
+
+    expect(result.tsx).toContain("import BaseCard from '@/components/BaseCard'");
+    expect(result.tsx).toContain("import { Icon as AppIcon } from '@/components/icons'");
+    expect(result.tsx).toContain("import BaseButton from './BaseButton'");
+    expect(result.tsx).toContain('<BaseCard title="Hi">');
+    expect(result.tsx).toContain('<AppIcon name="close" />');
+    expect(result.tsx).toContain("<BaseButton>Ok</BaseButton>");
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("kebab-case tags of imported components and built-ins use the PascalCase name", async () => {
+    const result = await convert(
+      `<template>
+  <keep-alive>
+    <user-avatar :user="user" />
+  </keep-alive>
+</template>
+<script setup lang="ts">
+import UserAvatar from './UserAvatar.vue'
+const user = { name: 'Ada' }
+</script>`,
+      { componentName: "Profile", components: { UserAvatar: "@/components/Other.vue" } },
+    );
+
+    expect(result.tsx).toContain("<KeepAlive>");
+    expect(result.tsx).toContain("<UserAvatar user={user} />");
+    expect(result.tsx).toContain("import UserAvatar from './UserAvatar'");
+    expect(result.tsx).not.toContain("@/components/Other");
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("unresolved kebab-case tags are kept and reported", async () => {
+    const result = await convert(
+      `<template><div><router-link to="/">Home</router-link><svg-icon /></div></template>
+<script setup lang="ts">
+</script>`,
+      { componentName: "Nav" },
+    );
+
+    expect(result.tsx).toContain('<router-link to="/">Home</router-link>');
+    expect(result.warnings.map((w) => [w.code, w.message])).toEqual([
+      [
+        "VTT-UNRESOLVED-COMPONENT",
+        "<router-link> is not imported or registered, so it renders as a native custom element.",
+      ],
+      [
+        "VTT-UNRESOLVED-COMPONENT",
+        "<svg-icon> is not imported or registered, so it renders as a native custom element.",
+      ],
+    ]);
+    expect(result.warnings[0]!.fix).toContain("RouterLink");
+  });
+
+  test("Vue 2 templates are left unchanged", async () => {
+    const result = await convert(
+      `<template><base-card /></template>
+<script>
+export default {}
+</script>`,
+      { componentName: "Card", vue2: true, components: { BaseCard: "./BaseCard.vue" } },
+    );
+
+    expect(result.tsx).toContain("<base-card />");
+    expect(result.tsx).not.toContain("import BaseCard");
+  });
+});
@@ -176,4 +176,27 @@ describe("processVFor", () => {
     processVFor(node, ctx, renderElement);
     expect(ctx.hasVFor).toBe(true);
   });
+
+  test("v-for aliases shadow refs and props inside the loop", () => {
+    const children = getChildren(
+      `<div v-for="(item, index) in items" v-if="item.ok && index">{{ item }}</div>`,
+    );
+    const node = children.find((c) => c.type === 1) as ElementNode;
+    const ctx = makeCtx();
+    ctx.propIdentifiers = new Set(["item", "items"]);
+    ctx.refIdentifiers = new Set(["index"]);
+
+    const scopes: string[][] = [];
+    const result = processVFor(node, ctx, (n, c) => {
+      scopes.push(...(c.scopes ?? []).map((scope) => [...scope]));
+      return renderElement(n, c);
+    });
+
+    expect(result).toBe(
+      "{_renderList(props.items, (item, index) => (item.ok && index ? <div /> : null))}",
+    );
+    expect(scopes).toEqual([["item", "index"]]);
+    // The scope is popped after the loop
+    expect(ctx.scopes).toEqual([]);
+  });
 });
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { convert } from "../../src/index";
+
+describe("custom directives", () => {
+  test("vFoo bindings in <script setup> are applied with withDirectives", async () => {
+    const result = await convert(
+      `<template>
+  <div>
+    <input v-focus />
+    <span v-tooltip:[side].lazy="message">Hi</span>
+  </div>
+</template>
+<script setup lang="ts">
+import { ref } from 'vue'
+import { vFocus } from './directives'
+const vTooltip = { mounted() {} }
+const side = ref('top')
+const message = ref('Hello')
+</script>`,
+      { componentName: "Greeting" },
+    );
+
+    expect(result.tsx).toContain("import { ref, defineComponent, withDirectives } from 'vue'");
+    expect(result.tsx).toContain("{withDirectives(<input />, [[vFocus]])}");
+    expect(result.tsx).toContain(
+      "{withDirectives(<span>Hi</span>, [[vTooltip, message.value, side.value, { lazy: true }]])}",
+    );
+    expect(result.fallbacks).toEqual([]);
+  });
+
+  test("global directives are imported from the registry", async () => {
+    const result = await convert(
+      `<template><div v-click-outside="close"><input v-focus.select /></div></template>
+<script setup lang="ts">
+function close() {}
+</script>`,
+      {
+        componentName: "Popup",
+        directives: {
+          focus: "@/directives/focus",
+          clickOutside: { from: "@vueuse/components", import: "vOnClickOutside" },
+        },
+      },
+    );
+
+    expect(result.tsx).toContain("import vFocus from '@/directives/focus'");
+    expect(result.tsx).toContain(
+      "import { vOnClickOutside as vClickOutside } from '@vueuse/components'",
+    );
+    // A root element's withDirectives call is returned as is
+    expect(result.tsx).toContain(
+      "withDirectives(<div>{withDirectives(<input />, [[vFocus, undefined, undefined, { select: true }]])}</div>, [[vClickOutside, close]])",
+    );
+  });
+
+  test("<script setup> bindings take precedence over the registry", async () => {
+    const result = await convert(
+      `<template><input v-focus /></template>
+<script setup>
+const vFocus = { mounted: (el) => el.focus() }
+</script>`,
+      { componentName: "Field", directives: { focus: "@/directives/focus" } },
+    );
+
+    expect(result.tsx).not.toContain("@/directives/focus");
+    expect(result.tsx).toContain("withDirectives(<input />, [[vFocus]])");
+  });
+
+  test("works inside v-if, v-for and v-show", async () => {
+    const result = await convert(
+      `<template>
+  <ul>
+    <li v-for="item in items" :key="item" v-focus>{{ item }}</li>
+    <li v-if="more" v-focus>More</li>
+    <li v-show="more" v-focus>Shown</li>
+  </ul>
+</template>`,
+      { componentName: "List", directives: { focus: "./focus" } },
+    );
+
+    expect(result.tsx).toContain(
+      "(item) => (withDirectives(<li key={item}>{item}</li>, [[vFocus]]))",
+    );
+    expect(result.tsx).toContain("{more ? withDirectives(<li>More</li>, [[vFocus]]) : null}");
+    expect(result.tsx).toContain(
+      "style={{ display: more ? undefined : 'none' }}>{withDirectives(<li>Shown</li>, [[vFocus]])}</div>",
+    );
+  });
+
+  test("unresolved directives and Vue 2 output still fall back", async () => {
+    const unresolved = await convert(`<template><input v-focus /></template>`);
+    expect(unresolved.tsx).not.toContain("withDirectives");
+    expect(unresolved.fallbacks.map((f) => f.source)).toEqual(["v-focus"]);
+
+    const vue2 = await convert(`<template><input v-focus /></template>`, {
+      vue2: true,
+      directives: { focus: "./focus" },
+    });
+    expect(vue2.fallbacks.map((f) => f.source)).toEqual(["v-focus"]);
+  });
+});
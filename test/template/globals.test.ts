@@ -0,0 +1,172 @@
+import { describe, expect, test } from "bun:test";
+import { convert } from "../../src/index";
+
+describe("framework template globals", () => {
+  test("vue-i18n globals share one useI18n() call", async () => {
+    const result = await convert(
+      `<template>
+  <p :title="$tc('items', count)">{{ $t('hello') }} {{ $d(date) }} {{ $n(total) }}</p>
+</template>
+<script setup lang="ts">
+defineProps<{ count: number; date: Date; total: number }>()
+</script>`,
+      { componentName: "Summary" },
+    );
+
+    expect(result.tsx).toContain("import { useI18n } from 'vue-i18n'");
+    expect(result.tsx).toContain("const { t, d, n } = useI18n()");
+    expect(result.tsx).toContain(
+      "<p title={t('items', props.count)}>{t('hello')} {d(props.date)} {n(props.total)}</p>",
+    );
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("$route and $router become useRoute() and useRouter()", async () => {
+    const result = await convert(
+      `<template>
+  <button @click="$router.push({ query: $route.query })">Reload</button>
+</template>
+<script>
+export default { name: 'Reload' }
+</script>`,
+      { componentName: "Reload" },
+    );
+
+    expect(result.tsx).toContain("import { useRoute, useRouter } from 'vue-router'");
+    expect(result.tsx).toContain("const route = useRoute()\n    const router = useRouter()");
+    expect(result.tsx).toContain("router.push({ query: route.query })");
+  });
+
+  test("package sources can be configured", async () => {
+    const result = await convert(
+      `<template><a :href="$route.path">{{ $t('link') }}</a></template>`,
+      { componentName: "Link", i18nSource: "@/i18n", routerSource: "vue-router/auto" },
+    );
+
+    expect(result.tsx).toContain("import { useI18n } from '@/i18n'");
+    expect(result.tsx).toContain("import { useRoute } from 'vue-router/auto'");
+  });
+
+  test("bindings the script already declares are reused", async () => {
+    const result = await convert(
+      `<template><p>{{ $t('title') }} {{ $route.name }}</p></template>
+<script setup lang="ts">
+import { useI18n } from 'vue-i18n'
+import { useRoute } from 'vue-router'
+const { t } = useI18n()
+const route = useRoute()
+</script>`,
+      { componentName: "Title" },
+    );
+
+    expect(result.tsx.match(/useI18n\(\)/g)).toHaveLength(1);
+    expect(result.tsx.match(/useRoute\(\)/g)).toHaveLength(1);
+    expect(result.tsx).toContain("{t('title')} {route.name}");
+  });
+
+  test("bindings the script declares for something else get the global's name", async () => {
+    const result = await convert(
+      `<template><p :title="$route.name">{{ $t('hello') }} {{ t }}</p></template>
+<script setup lang="ts">
+const t = ref(0)
+const route = 'home'
+</script>`,
+      { componentName: "Clash" },
+    );
+
+    expect(result.tsx).toContain("const { t: $t } = useI18n()");
+    expect(result.tsx).toContain("const $route = useRoute()");
+    expect(result.tsx).toContain("<p title={$route.name}>{$t('hello')} {t.value}</p>");
+  });
+
+  test("template aliases that shadow a binding get the global's name there", async () => {
+    const result = await convert(
+      `<template>
+  <ul :title="$t('tags')">
+    <li v-for="t in tags" @click="(route) => go($route, route)">{{ $t('tag.' + t) }}</li>
+  </ul>
+</template>
+<script setup lang="ts">
+defineProps<{ tags: string[] }>()
+</script>`,
+      { componentName: "Tags" },
+    );
+
+    expect(result.tsx).toContain("const { t, t: $t } = useI18n()");
+    expect(result.tsx).toContain("const $route = useRoute()");
+    expect(result.tsx).toContain("<ul title={t('tags')}>");
+    expect(result.tsx).toContain("onClick={(route) => go($route, route)}");
+    expect(result.tsx).toContain("{$t('tag.' + t)}");
+  });
+
+  test("the script's own useI18n() aliases are used", async () => {
+    const result = await convert(
+      `<template><p>{{ $t('hello') }}</p></template>
+<script setup lang="ts">
+import { useI18n } from 'vue-i18n'
+const { t: translate } = useI18n()
+</script>`,
+      { componentName: "Alias" },
+    );
+
+    expect(result.tsx.match(/useI18n\(\)/g)).toHaveLength(1);
+    expect(result.tsx).toContain("{translate('hello')}");
+  });
+
+  test("member accesses and strings named like a global are left alone", async () => {
+    const result = await convert(
+      `<template><p :title="'$t'">{{ page.$route }} {{ obj.$t('x') }}</p></template>`,
+      { componentName: "Members" },
+    );
+
+    expect(result.tsx).toContain("{page.$route} {obj.$t('x')}");
+    expect(result.tsx).not.toContain("useI18n");
+    expect(result.tsx).not.toContain("useRoute");
+  });
+
+  test("auto-imported composables are left implicit", async () => {
+    const source = `<template><p>{{ $route.path }}</p></template>`;
+
+    const nuxt = await convert(source, { componentName: "Path", nuxt: true });
+    expect(nuxt.tsx).toContain("const route = useRoute()");
+    expect(nuxt.tsx).not.toContain("import { useRoute }");
+
+    const explicit = await convert(source, {
+      componentName: "Path",
+      nuxt: true,
+      explicitAutoImports: true,
+    });
+    expect(explicit.tsx).toContain("import { useRoute } from '#imports'");
+  });
+
+  test("a plugin's template global takes precedence", async () => {
+    const result = await convert(`<template><p>{{ $t('hi') }}</p></template>`, {
+      componentName: "Hi",
+      plugins: [
+        {
+          name: "i18next",
+          templateGlobals: {
+            $t: {
+              replacement: "i18n.t",
+              setup: "const i18n = useTranslation()",
+              imports: { "i18next-vue": ["useTranslation"] },
+            },
+          },
+        },
+      ],
+    });
+
+    expect(result.tsx).toContain("{i18n.t('hi')}");
+    expect(result.tsx).not.toContain("useI18n");
+  });
+
+  test("Vue 2 mode keeps warning", async () => {
+    const result = await convert(`<template><p>{{ $t('hi') }}</p></template>`, {
+      componentName: "Hi",
+      vue2: true,
+    });
+
+    expect(result.tsx).toContain("$t('hi')");
+    expect(result.warnings.map((w) => w.code)).toEqual(["VTT-TEMPLATE-GLOBAL"]);
+  });
+});
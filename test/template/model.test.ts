@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+import { parseSFC } from "../../src/parser";
+import { templateToJsx } from "../../src/template/index";
+import type { JsxContext } from "../../src/types";
+
+function makeCtx(lowerVModel = true): JsxContext {
+  return {
+    indent: 0,
+    classMap: new Map(),
+    warnings: [],
+    fallbacks: [],
+    componentName: "Test",
+    usedContextMembers: new Set(),
+    refIdentifiers: new Set(),
+    propIdentifiers: new Set(),
+    hasVFor: false,
+    usedBuiltins: new Set(),
+    lowerVModel,
+  };
+}
+
+function toJsx(template: string, ctx = makeCtx()): string {
+  const sfc = parseSFC(`<template>${template}</template>`);
+  return templateToJsx(sfc.templateAst!, ctx);
+}
+
+describe("v-model lowering", () => {
+  test("text input → value + onInput", () => {
+    expect(toJsx(`<input v-model="name" />`)).toBe(
+      "<input value={name} onInput={($event) => (name = ($event.target as HTMLInputElement).value)} />",
+    );
+  });
+
+  test(".lazy uses onChange", () => {
+    expect(toJsx(`<input v-model.lazy="name" />`)).toContain("onChange={($event) => (name = ");
+  });
+
+  test(".trim and .number modifiers", () => {
+    expect(toJsx(`<input v-model.trim.number="age" />`)).toContain(
+      "(age = Number(($event.target as HTMLInputElement).value.trim()))",
+    );
+  });
+
+  test("type=number casts to Number", () => {
+    expect(toJsx(`<input type="number" v-model="age" />`)).toContain(
+      "Number(($event.target as HTMLInputElement).value)",
+    );
+  });
+
+  test("textarea uses HTMLTextAreaElement", () => {
+    expect(toJsx(`<textarea v-model="bio"></textarea>`)).toBe(
+      "<textarea value={bio} onInput={($event) => (bio = ($event.target as HTMLTextAreaElement).value)} />",
+    );
+  });
+
+  test("checkbox → checked + onChange", () => {
+    expect(toJsx(`<input type="checkbox" v-model="agree" />`)).toContain(
+      "checked={agree} onChange={($event) => (agree = ($event.target as HTMLInputElement).checked)}",
+    );
+  });
+
+  test("checkbox true-value / false-value", () => {
+    const result = toJsx(
+      `<input type="checkbox" v-model="answer" true-value="yes" :false-value="noValue" />`,
+    );
+    expect(result).toContain("checked={answer === 'yes'}");
+    expect(result).toContain(
+      "(answer = ($event.target as HTMLInputElement).checked ? 'yes' : noValue)",
+    );
+  });
+
+  test("checkbox with value binds into an array or Set model", () => {
+    const result = toJsx(`<input type="checkbox" v-model="tags" value="a" />`);
+    expect(result).toContain(
+      "checked={Array.isArray(tags) ? tags.includes('a') : tags instanceof Set ? tags.has('a') : tags}",
+    );
+    expect(result).toContain(
+      "Array.isArray(tags) ? (($event.target as HTMLInputElement).checked ? [...tags, 'a'] : tags.filter((v) => v !== 'a'))",
+    );
+    expect(result).toContain(
+      "tags instanceof Set ? (($event.target as HTMLInputElement).checked ? new Set(tags).add('a') : new Set([...tags].filter((v) => v !== 'a')))",
+    );
+  });
+
+  test("checkbox with value falls back to a boolean model", () => {
+    const result = toJsx(`<input type="checkbox" v-model="agreed" value="yes" />`);
+    expect(result).toContain(": agreed instanceof Set ? agreed.has('yes') : agreed}");
+    expect(result).toContain(": ($event.target as HTMLInputElement).checked)}");
+  });
+
+  test("checkbox with value and true-value falls back to true-value / false-value", () => {
+    const result = toJsx(
+      `<input type="checkbox" v-model="answer" value="a" true-value="yes" false-value="no" />`,
+    );
+    expect(result).toContain(": answer instanceof Set ? answer.has('a') : answer === 'yes'}");
+    expect(result).toContain(": (($event.target as HTMLInputElement).checked ? 'yes' : 'no'))}");
+  });
+
+  test("radio compares against its value", () => {
+    expect(toJsx(`<input type="radio" v-model="pick" :value="opt.id" />`)).toContain(
+      "checked={pick === opt.id} onChange={() => (pick = opt.id)}",
+    );
+  });
+
+  test("select → value + onChange", () => {
+    expect(toJsx(`<select v-model="choice"><option value="a">A</option></select>`)).toBe(
+      '<select value={choice} onChange={($event) => (choice = ($event.target as HTMLSelectElement).value)}><option value="a">A</option></select>',
+    );
+  });
+
+  test("select multiple marks options as selected", () => {
+    const result = toJsx(
+      `<select multiple v-model="picked"><option value="a">A</option><option :value="b">B</option></select>`,
+    );
+    expect(result).toContain(
+      "onChange={($event) => (picked = Array.from(($event.target as HTMLSelectElement).selectedOptions, (o) => o.value))}",
+    );
+    expect(result).toContain(`<option value="a" selected={picked.includes('a')}>A</option>`);
+    expect(result).toContain("<option value={b} selected={picked.includes(b)}>B</option>");
+  });
+
+  test("ref model gets .value on both sides", () => {
+    const ctx = makeCtx();
+    ctx.refIdentifiers.add("name");
+    expect(toJsx(`<input v-model="name" />`, ctx)).toContain(
+      "value={name.value} onInput={($event) => (name.value = ",
+    );
+  });
+
+  test("components keep v-model", () => {
+    expect(toJsx(`<MyInput v-model="name" />`)).toBe("<MyInput v-model={name} />");
+  });
+
+  test("dynamic :type keeps v-model", () => {
+    expect(toJsx(`<input :type="kind" v-model="name" />`)).toBe(
+      "<input type={kind} v-model={name} />",
+    );
+  });
+
+  test("disabled by default", () => {
+    expect(toJsx(`<input v-model="name" />`, makeCtx(false))).toBe("<input v-model={name} />");
+  });
+});
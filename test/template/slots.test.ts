@@ -73,4 +73,20 @@ describe("slot content on components", () => {
     expect(result).toContain("Title");
     expect(result).toContain("Body");
   });
+
+  test("slot params shadow refs and props in the slot content", () => {
+    const sfc = parseSFC(`<template>
+      <MyComp>
+        <template #row="{ row, index: i }">{{ row }} {{ i }} {{ index }}</template>
+      </MyComp>
+      <Other v-slot="{ row }">{{ row }} {{ count }}</Other>
+    </template>`);
+    const ctx = makeCtx();
+    ctx.propIdentifiers = new Set(["row", "index"]);
+    ctx.refIdentifiers = new Set(["i", "count"]);
+    const result = templateToJsx(sfc.templateAst!, ctx);
+
+    expect(result).toContain("row: ({ row, index: i }) => <>{row} {i} {props.index}</>");
+    expect(result).toContain("default: ({ row }) => <>{row} {count.value}</>");
+  });
 });
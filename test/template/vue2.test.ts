@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { parseSFC } from "../../src/parser";
+import {
+  getLegacySlot,
+  rewriteFilters,
+  vue2EventAttribute,
+  vue2SyncBinding,
+} from "../../src/template/vue2";
+import type { ElementNode } from "../../src/types";
+
+function getElement(template: string): ElementNode {
+  const parsed = parseSFC(`<template>${template}</template>`);
+  return parsed.templateAst!.children.find((c) => c.type === 1) as ElementNode;
+}
+
+describe("rewriteFilters", () => {
+  test("single filter becomes a call", () => {
+    expect(rewriteFilters("price | currency")).toBe("currency(price)");
+  });
+
+  test("filter arguments follow the value", () => {
+    expect(rewriteFilters("price | currency('USD', 2)")).toBe("currency(price, 'USD', 2)");
+    expect(rewriteFilters("price | currency()")).toBe("currency(price)");
+  });
+
+  test("chained filters nest left to right", () => {
+    expect(rewriteFilters("name | trim | truncate(10)")).toBe("truncate(trim(name), 10)");
+  });
+
+  test("logical or and bitwise or inside brackets are not filters", () => {
+    expect(rewriteFilters("a || b")).toBe("a || b");
+    expect(rewriteFilters("fn(a | b)")).toBe("fn(a | b)");
+    expect(rewriteFilters("(a || b) | upper")).toBe("upper((a || b))");
+  });
+
+  test("pipes inside strings are ignored", () => {
+    expect(rewriteFilters("'a|b' | upper")).toBe("upper('a|b')");
+    expect(rewriteFilters("`${a}|${b}`")).toBe("`${a}|${b}`");
+  });
+});
+
+describe("vue2EventAttribute", () => {
+  test("simple names use the onX form", () => {
+    expect(vue2EventAttribute("click", "go", false)).toEqual({
+      type: "attr",
+      value: "onClick={go}",
+    });
+  });
+
+  test(".native uses the nativeOn prefix", () => {
+    expect(vue2EventAttribute("click", "go", true).value).toBe("nativeOnClick={go}");
+  });
+
+  test("kebab-case names keep their case", () => {
+    expect(vue2EventAttribute("update-item", "save", false).value).toBe("on-update-item={save}");
+  });
+
+  test("names with a colon are spread into the on object", () => {
+    expect(vue2EventAttribute("update:title", "set", false)).toEqual({
+      type: "spread",
+      value: "{...{ on: { 'update:title': set } }}",
+    });
+  });
+});
+
+describe("vue2SyncBinding", () => {
+  test("binds the prop and assigns on update", () => {
+    expect(vue2SyncBinding("visible", "open.value")).toEqual({
+      attr: "visible={open.value}",
+      spread: "{...{ on: { 'update:visible': ($event) => (open.value = $event) } }}",
+    });
+  });
+});
+
+describe("getLegacySlot", () => {
+  test("slot and slot-scope on a template", () => {
+    const el = getElement(`<template slot="item" slot-scope="{ row }"><b /></template>`);
+    expect(getLegacySlot(el)).toEqual({ name: "item", params: "{ row }" });
+  });
+
+  test("slot-scope alone targets the default slot", () => {
+    const el = getElement(`<div slot-scope="props">x</div>`);
+    expect(getLegacySlot(el)).toEqual({ name: "default", params: "props" });
+  });
+
+  test("scope is only a slot attribute on templates", () => {
+    expect(getLegacySlot(getElement(`<template scope="p">x</template>`))).toEqual({
+      name: "default",
+      params: "p",
+    });
+    expect(getLegacySlot(getElement(`<th scope="col">x</th>`))).toBeNull();
+  });
+});
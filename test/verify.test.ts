@@ -0,0 +1,66 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { convert } from "../src/index";
+import { verify } from "../src/verify";
+
+let tempDir: string;
+
+// Inside the repo, so the generated code resolves `vue` from its node_modules
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(import.meta.dir, ".verify-"));
+});
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe("verify", () => {
+  test("type-checks generated files together and locates errors in the .vue file", async () => {
+    const badge = await convert(
+      `<template>
+  <span class="badge">{{ label.toUpperCase() }}</span>
+</template>
+<script setup lang="ts">
+defineProps<{ label: string }>()
+</script>`,
+      { componentName: "Badge", sourceMap: true },
+    );
+    const card = await convert(
+      `<template>
+  <div>
+    <Badge :label="title" />
+    {{ count.toFixed(2) }}
+  </div>
+</template>
+<script setup lang="ts">
+import { ref } from 'vue'
+import Badge from './Badge.vue'
+const title = ref('New')
+const count = ref('3')
+</script>`,
+      { componentName: "Card", sourceMap: true },
+    );
+
+    const results = await verify([
+      // Neither file is on disk: ./Badge resolves to the other input
+      { fileName: join(tempDir, "Badge.tsx"), tsx: badge.tsx, map: badge.map },
+      { fileName: join(tempDir, "Card.tsx"), tsx: card.tsx },
+    ]);
+
+    expect(results[0]!.warnings).toEqual([]);
+    expect(results[1]!.warnings).toHaveLength(1);
+    expect(results[1]!.warnings[0]).toMatchObject({ code: "VTT-TYPE-ERROR", severity: "error" });
+    expect(results[1]!.warnings[0]!.message).toMatch(
+      /^TS2551 at Card\.tsx:\d+:\d+: Property 'toFixed' does not exist on type 'string'/,
+    );
+    // Without a source map there is no .vue location
+    expect(results[1]!.warnings[0]!.line).toBeUndefined();
+
+    const [mapped] = await verify([
+      { fileName: join(tempDir, "Card.tsx"), tsx: card.tsx, map: card.map },
+      { fileName: join(tempDir, "Badge.tsx"), tsx: badge.tsx },
+    ]);
+    expect(mapped!.warnings[0]).toMatchObject({ line: 4, column: 5 });
+  }, 60_000);
+});
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "bun:test";
+import { convert } from "../src/index";
+import { applyWarningOptions, createWarning } from "../src/warnings";
+
+describe("createWarning", () => {
+  test("uses the code's default severity", () => {
+    expect(createWarning("VTT-SCOPED-CSS-MODULE", "dropped", { line: 3 })).toEqual({
+      code: "VTT-SCOPED-CSS-MODULE",
+      severity: "info",
+      message: "dropped",
+      line: 3,
+    });
+  });
+});
+
+describe("applyWarningOptions", () => {
+  const warnings = [
+    createWarning("VTT-SCOPED-STYLE", "scoped"),
+    createWarning("VTT-TEMPLATE-GLOBAL", "global"),
+  ];
+
+  test("promotes and suppresses by code", () => {
+    expect(
+      applyWarningOptions(warnings, {
+        warningsAsErrors: ["VTT-TEMPLATE-GLOBAL"],
+        suppressWarnings: ["VTT-SCOPED-STYLE"],
+      }),
+    ).toEqual([{ ...warnings[1]!, severity: "error" }]);
+  });
+
+  test("leaves warnings alone without options", () => {
+    expect(applyWarningOptions(warnings, undefined)).toEqual(warnings);
+  });
+});
+
+describe("warning locations", () => {
+  test("template globals point at the global in the .vue file", async () => {
+    const result = await convert(
+      `<template>
+  <div>
+    <p :title="label + $i18n.locale">{{ $refs.box }}</p>
+  </div>
+</template>`,
+      { componentName: "Globals" },
+    );
+
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ code: "VTT-TEMPLATE-GLOBAL", line: 3, column: 24 }),
+      expect.objectContaining({ code: "VTT-TEMPLATE-GLOBAL", line: 3, column: 41 }),
+    ]);
+    expect(result.warnings[0]!.fix).toContain("useI18n()");
+    expect(result.warnings[1]!.fix).toContain("template ref");
+  });
+
+  test("options API warnings use .vue file lines", async () => {
+    const result = await convert(
+      `<template><div /></template>
+<script>
+export default {
+  mixins: [base],
+  methods: {
+    go() {
+      return this.$store.state
+    },
+  },
+}
+</script>`,
+      { componentName: "Legacy" },
+    );
+
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ code: "VTT-OPTIONS-KEPT", line: 4, column: 3 }),
+      expect.objectContaining({ code: "VTT-OPTIONS-THIS", line: 7, column: 14 }),
+    ]);
+  });
+
+  test("style warnings point at the style block", async () => {
+    const result = await convert(
+      `<template><div /></template>
+
+<style scoped>
+div { color: red; }
+</style>`,
+      { componentName: "Styled" },
+    );
+
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ code: "VTT-SCOPED-STYLE", severity: "warning", line: 3 }),
+    ]);
+  });
+});
+
+describe("convert options", () => {
+  const source = `<template><p>{{ $i18n.locale }}</p></template>
+<style scoped>p { margin: 0; }</style>`;
+
+  test("warningsAsErrors and suppressWarnings apply to the result", async () => {
+    const result = await convert(source, {
+      componentName: "Hi",
+      warningsAsErrors: ["VTT-TEMPLATE-GLOBAL"],
+      suppressWarnings: ["VTT-SCOPED-STYLE"],
+    });
+
+    expect(result.warnings.map((w) => [w.code, w.severity])).toEqual([
+      ["VTT-TEMPLATE-GLOBAL", "error"],
+    ]);
+  });
+
+  test("plugin warnings default to VTT-PLUGIN and can use their own code", async () => {
+    const result = await convert(`<template><div /></template>`, {
+      componentName: "Plugged",
+      plugins: [
+        {
+          name: "audit",
+          transformOutput: (r, context) => {
+            context.warn("generic");
+            context.warn("custom", { code: "ACME-AUDIT", line: 1, fix: "Do the thing" });
+            return r;
+          },
+        },
+      ],
+    });
+
+    expect(result.warnings).toEqual([
+      { code: "VTT-PLUGIN", severity: "warning", message: "generic" },
+      {
+        code: "ACME-AUDIT",
+        severity: "warning",
+        message: "custom",
+        line: 1,
+        fix: "Do the thing",
+      },
+    ]);
+  });
+});